@@ -2,16 +2,22 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import ReceiptForm from "./pages/ReceiptForm";
 import ReceiptDisplay from "./pages/ReceiptDisplay";
 import ReceiptHistory from "./pages/ReceiptHistory";
+import BatchPrint from "./pages/BatchPrint";
 import Profile from "./pages/Profile";
 import Admin from "./pages/Admin";
 import AdminUserReceipts from "./pages/AdminUserReceipts";
-import Contacts from "./pages/Contacts";
+import Patients from "./pages/Patients";
+import PatientDetail from "./pages/PatientDetail";
+import StockReport from "./pages/StockReport";
+import GstReport from "./pages/GstReport";
+import Dues from "./pages/Dues";
+import SharedReceipt from "./pages/SharedReceipt";
 import ProtectedRoute from "./components/ProtectedRoute";
 import NotFound from "./pages/NotFound";
 
@@ -25,6 +31,7 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/auth" element={<Auth />} />
+          <Route path="/share/:token" element={<SharedReceipt />} />
           <Route
             path="/"
             element={
@@ -49,6 +56,22 @@ const App = () => (
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/receipt/:id/edit"
+            element={
+              <ProtectedRoute>
+                <ReceiptForm />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/receipts/print"
+            element={
+              <ProtectedRoute>
+                <BatchPrint />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/history"
             element={
@@ -82,10 +105,43 @@ const App = () => (
             }
           />
           <Route
-            path="/contacts"
+            path="/patients"
+            element={
+              <ProtectedRoute>
+                <Patients />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/patients/:id"
+            element={
+              <ProtectedRoute>
+                <PatientDetail />
+              </ProtectedRoute>
+            }
+          />
+          <Route path="/contacts" element={<Navigate to="/patients" replace />} />
+          <Route
+            path="/stock"
+            element={
+              <ProtectedRoute>
+                <StockReport />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/gst-report"
+            element={
+              <ProtectedRoute>
+                <GstReport />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/dues"
             element={
               <ProtectedRoute>
-                <Contacts />
+                <Dues />
               </ProtectedRoute>
             }
           />
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Ban } from "lucide-react";
+
+interface CancelReceiptDialogProps {
+  receipt: { id: string; receipt_number: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCancelled: () => void;
+}
+
+/**
+ * Cancels a receipt with a reason. The receipt stays on file, watermarked, and
+ * its stock goes back; use a credit note instead to reverse part of a sale.
+ */
+const CancelReceiptDialog = ({ receipt, open, onOpenChange, onCancelled }: CancelReceiptDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const handleCancel = async () => {
+    if (!receipt) return;
+    if (!reason.trim()) {
+      toast.error("Enter the reason for cancelling");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("cancel_receipt", { _receipt_id: receipt.id, _reason: reason.trim() });
+      if (error) throw error;
+      toast.success(`Receipt ${receipt.receipt_number} cancelled`);
+      onOpenChange(false);
+      onCancelled();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Receipt</DialogTitle>
+          <DialogDescription>
+            Receipt No. {receipt?.receipt_number} will be marked cancelled and left out of income. It cannot be edited
+            or un-cancelled afterwards.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="cancellation-reason">Reason</Label>
+          <Textarea
+            id="cancellation-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Issued to the wrong patient"
+            maxLength={200}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Receipt
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={saving}>
+            <Ban className="mr-2 h-4 w-4" />
+            {saving ? "Cancelling..." : "Cancel Receipt"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelReceiptDialog;
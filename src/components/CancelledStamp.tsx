@@ -0,0 +1,21 @@
+interface CancelledStampProps {
+  reason?: string | null;
+}
+
+/**
+ * Diagonal "CANCELLED" watermark across a cancelled receipt. Place it inside a
+ * relatively positioned receipt; it prints along with the receipt.
+ */
+const CancelledStamp = ({ reason }: CancelledStampProps) => (
+  <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center overflow-hidden">
+    <div
+      className="-rotate-[30deg] rounded-md border-4 px-6 py-2 text-center"
+      style={{ borderColor: '#dc2626cc', color: '#dc2626cc', printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}
+    >
+      <p className="text-6xl font-black tracking-[0.2em]">CANCELLED</p>
+      {reason && <p className="mt-1 max-w-md text-sm font-semibold">{reason}</p>}
+    </div>
+  </div>
+);
+
+export default CancelledStamp;
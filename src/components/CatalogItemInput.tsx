@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { CatalogItem } from "@/hooks/use-catalog";
+import { formatInr } from "@shared/money";
+
+interface CatalogItemInputProps {
+  value: string;
+  catalog: CatalogItem[];
+  /** Called on every keystroke with the typed text */
+  onChange: (name: string) => void;
+  /** Called when a suggestion is chosen */
+  onPick: (item: CatalogItem) => void;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/** Item name field that suggests catalog items but still accepts free text. */
+const CatalogItemInput = ({ value, catalog, onChange, onPick, placeholder }: CatalogItemInputProps) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const term = value.trim().toLowerCase();
+  const suggestions = catalog
+    .filter((item) => !term || item.name.toLowerCase().includes(term))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const pick = (item: CatalogItem) => {
+    onPick(item);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      pick(suggestions[highlighted]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        maxLength={100}
+        autoComplete="off"
+        required
+      />
+      {open && suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 max-h-64 w-full overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md">
+          {suggestions.map((item, index) => (
+            <li
+              key={item.id}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(item)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5",
+                index === highlighted && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span>{item.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {formatInr(item.default_price)} / {item.unit}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CatalogItemInput;
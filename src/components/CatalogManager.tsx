@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Archive, ArchiveRestore, Edit, Plus, Save, Search } from "lucide-react";
+import { useCatalog, type CatalogItem } from "@/hooks/use-catalog";
+import { CATALOG_KINDS } from "@/lib/catalog";
+import { formatInr } from "@shared/money";
+
+type CatalogForm = Pick<CatalogItem, "name" | "kind" | "unit" | "default_price" | "tax_rate" | "hsn_sac" | "track_stock" | "reorder_level">;
+
+const emptyItem: CatalogForm = {
+  name: "",
+  kind: "product",
+  unit: "nos",
+  default_price: 0,
+  tax_rate: 0,
+  hsn_sac: "",
+  track_stock: false,
+  reorder_level: 0,
+};
+
+interface CatalogFieldsProps {
+  idPrefix: string;
+  value: CatalogForm;
+  onChange: (value: CatalogForm) => void;
+}
+
+const CatalogFields = ({ idPrefix, value, onChange }: CatalogFieldsProps) => (
+  <div className="space-y-4">
+    <div className="grid gap-4 md:grid-cols-5">
+      <div className="md:col-span-2">
+        <Label htmlFor={`${idPrefix}-name`}>Name *</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={value.name}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          placeholder="Consultation fee"
+          maxLength={100}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-kind`}>Type</Label>
+        <Select value={value.kind} onValueChange={(kind) => onChange({ ...value, kind })}>
+          <SelectTrigger id={`${idPrefix}-kind`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CATALOG_KINDS.map((k) => (
+              <SelectItem key={k.value} value={k.value}>
+                {k.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-unit`}>Unit</Label>
+        <Input
+          id={`${idPrefix}-unit`}
+          value={value.unit}
+          onChange={(e) => onChange({ ...value, unit: e.target.value })}
+          placeholder="nos, strip, visit"
+          maxLength={20}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor={`${idPrefix}-price`}>Price (₹)</Label>
+          <Input
+            id={`${idPrefix}-price`}
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.default_price}
+            onChange={(e) => onChange({ ...value, default_price: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-tax`}>Tax (%)</Label>
+          <Input
+            id={`${idPrefix}-tax`}
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={value.tax_rate}
+            onChange={(e) => onChange({ ...value, tax_rate: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+    </div>
+    <div className="flex flex-wrap items-end gap-6">
+      <div>
+        <Label htmlFor={`${idPrefix}-hsn`}>HSN/SAC</Label>
+        <Input
+          id={`${idPrefix}-hsn`}
+          className="w-32"
+          value={value.hsn_sac}
+          onChange={(e) => onChange({ ...value, hsn_sac: e.target.value.replace(/\D/g, "").slice(0, 8) })}
+          placeholder="3004"
+          maxLength={8}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${idPrefix}-track`}
+          checked={value.track_stock}
+          onCheckedChange={(track_stock) => onChange({ ...value, track_stock })}
+        />
+        <Label htmlFor={`${idPrefix}-track`}>Track stock</Label>
+      </div>
+      {value.track_stock && (
+        <div>
+          <Label htmlFor={`${idPrefix}-reorder`}>Reorder level</Label>
+          <Input
+            id={`${idPrefix}-reorder`}
+            type="number"
+            min="0"
+            step="1"
+            className="w-32"
+            value={value.reorder_level}
+            onChange={(e) => onChange({ ...value, reorder_level: Number(e.target.value) })}
+          />
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+const toRow = (item: CatalogForm) => ({
+  name: item.name.trim(),
+  kind: item.kind,
+  unit: item.unit.trim() || "nos",
+  default_price: item.default_price,
+  tax_rate: item.tax_rate,
+  hsn_sac: item.hsn_sac.trim(),
+  track_stock: item.track_stock,
+  reorder_level: item.reorder_level,
+});
+
+/** Admin tab for the product and service catalog used by receipt item autocomplete. */
+const CatalogManager = () => {
+  const { items, refetch } = useCatalog();
+  const [newItem, setNewItem] = useState<CatalogForm>(emptyItem);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [search, setSearch] = useState("");
+
+  const handleCreate = async () => {
+    if (!newItem.name.trim()) {
+      toast.error("Item name is required");
+      return;
+    }
+    try {
+      const { error } = await supabase.from("catalog_items").insert(toRow(newItem));
+      if (error) throw error;
+      toast.success("Catalog item added");
+      setNewItem(emptyItem);
+      refetch();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editingItem) return;
+    if (!editingItem.name.trim()) {
+      toast.error("Item name is required");
+      return;
+    }
+    try {
+      const { error } = await supabase.from("catalog_items").update(toRow(editingItem)).eq("id", editingItem.id);
+      if (error) throw error;
+      toast.success("Catalog item updated");
+      setEditingItem(null);
+      refetch();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleToggleActive = async (item: CatalogItem) => {
+    try {
+      const { error } = await supabase
+        .from("catalog_items")
+        .update({ is_active: !item.is_active })
+        .eq("id", item.id);
+      if (error) throw error;
+      toast.success(item.is_active ? `${item.name} deactivated` : `${item.name} reactivated`);
+      refetch();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const filtered = items.filter((item) => item.name.toLowerCase().includes(search.toLowerCase()));
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Catalog Item</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <CatalogFields idPrefix="new-catalog" value={newItem} onChange={setNewItem} />
+          <Button onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Item
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Catalog ({items.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search catalog..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Tax</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{item.name}</TableCell>
+                  <TableCell className="capitalize">{item.kind}</TableCell>
+                  <TableCell>{item.unit}</TableCell>
+                  <TableCell className="text-right">{formatInr(item.default_price)}</TableCell>
+                  <TableCell className="text-right">
+                    {Number(item.tax_rate)}%
+                    {item.hsn_sac && <span className="block font-mono text-xs text-muted-foreground">{item.hsn_sac}</span>}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {item.track_stock ? `Reorder at ${Number(item.reorder_level)}` : "Not tracked"}
+                  </TableCell>
+                  <TableCell>
+                    {item.is_active ? (
+                      <Badge variant="secondary">Active</Badge>
+                    ) : (
+                      <Badge variant="outline">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditingItem({ ...item })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleToggleActive(item)}
+                        title={item.is_active ? "Deactivate item" : "Reactivate item"}
+                      >
+                        {item.is_active ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingItem} onOpenChange={(open) => !open && setEditingItem(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Edit Catalog Item</DialogTitle>
+            <DialogDescription>
+              Prices only pre-fill new receipts; receipts already issued keep their own prices.
+            </DialogDescription>
+          </DialogHeader>
+          {editingItem && (
+            <div className="space-y-4 py-4">
+              <CatalogFields
+                idPrefix="edit-catalog"
+                value={editingItem}
+                onChange={(value) => setEditingItem({ ...editingItem, ...value })}
+              />
+              <Button onClick={handleUpdate} className="w-full">
+                <Save className="mr-2 h-4 w-4" />
+                Save Item
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CatalogManager;
@@ -0,0 +1,197 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Save } from "lucide-react";
+import { ageFromDateOfBirth, GENDER_OPTIONS, type Patient } from "@/lib/patient";
+
+interface PatientFormDialogProps {
+  /** Omit to create a new patient */
+  patient?: Patient;
+  trigger: ReactNode;
+  onSaved: (patient: Patient) => void;
+}
+
+const emptyForm = {
+  name: "",
+  mobile_number: "",
+  age: "",
+  date_of_birth: "",
+  gender: "",
+  address: "",
+  notes: "",
+};
+
+const PatientFormDialog = ({ patient, trigger, onSaved }: PatientFormDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      patient
+        ? {
+            name: patient.name,
+            mobile_number: patient.mobile_number,
+            age: patient.age || "",
+            date_of_birth: patient.date_of_birth || "",
+            gender: patient.gender || "",
+            address: patient.address,
+            notes: patient.notes,
+          }
+        : emptyForm
+    );
+  }, [open, patient]);
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Name required");
+      return;
+    }
+    if (!/^[0-9]{10}$/.test(form.mobile_number)) {
+      toast.error("Enter valid 10-digit mobile");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const patientData = {
+        name: form.name.trim(),
+        mobile_number: form.mobile_number,
+        age: form.date_of_birth ? String(ageFromDateOfBirth(form.date_of_birth)) : form.age.trim() || null,
+        date_of_birth: form.date_of_birth || null,
+        gender: form.gender || null,
+        address: form.address.trim(),
+        notes: form.notes.trim(),
+      };
+
+      let result;
+      if (patient) {
+        result = await supabase.from("patients").update(patientData).eq("id", patient.id).select().single();
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+        result = await supabase.from("patients").insert({ ...patientData, user_id: user.id }).select().single();
+      }
+
+      if (result.error) throw result.error;
+      toast.success(patient ? "Patient updated" : "Patient added");
+      onSaved(result.data);
+      setOpen(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{patient ? "Edit Patient" : "Add Patient"}</DialogTitle>
+          <DialogDescription>
+            Changes apply to future receipts; receipts already issued keep the details they were printed with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="patient-name">Name *</Label>
+              <Input
+                id="patient-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-mobile">Mobile Number *</Label>
+              <Input
+                id="patient-mobile"
+                type="tel"
+                value={form.mobile_number}
+                onChange={(e) => setForm({ ...form, mobile_number: e.target.value.replace(/\D/g, "").slice(0, 10) })}
+                maxLength={10}
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="patient-gender">Gender</Label>
+              <Select value={form.gender} onValueChange={(gender) => setForm({ ...form, gender })}>
+                <SelectTrigger id="patient-gender">
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {GENDER_OPTIONS.map((g) => (
+                    <SelectItem key={g.value} value={g.value}>
+                      {g.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-dob">Date of Birth</Label>
+              <Input
+                id="patient-dob"
+                type="date"
+                value={form.date_of_birth}
+                onChange={(e) => setForm({ ...form, date_of_birth: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="patient-age">Age</Label>
+              <Input
+                id="patient-age"
+                value={form.date_of_birth ? String(ageFromDateOfBirth(form.date_of_birth)) : form.age}
+                onChange={(e) => setForm({ ...form, age: e.target.value })}
+                disabled={Boolean(form.date_of_birth)}
+                maxLength={10}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="patient-address">Address</Label>
+            <Input
+              id="patient-address"
+              value={form.address}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="patient-notes">Notes</Label>
+            <Textarea
+              id="patient-notes"
+              rows={3}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              placeholder="Allergies, ongoing treatment, ..."
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : "Save Patient"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PatientFormDialog;
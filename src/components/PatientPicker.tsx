@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Search, UserCheck, X } from "lucide-react";
+import { genderLabel, patientAge, type Patient } from "@/lib/patient";
+
+interface PatientPickerProps {
+  selected: Patient | null;
+  onSelect: (patient: Patient | null) => void;
+}
+
+/** Autocomplete over the signed-in user's patients by name or mobile number. */
+const PatientPicker = ({ selected, onSelect }: PatientPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<Patient[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    const term = query.trim().replace(/[%,()]/g, "");
+    // Debounce so typing a mobile number doesn't fire a query per digit
+    const timer = setTimeout(async () => {
+      let request = supabase.from("patients").select("*").order("name", { ascending: true }).limit(20);
+      if (term) request = request.or(`name.ilike.%${term}%,mobile_number.ilike.%${term}%`);
+      const { data } = await request;
+      setResults(data || []);
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [open, query]);
+
+  if (selected) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border bg-muted/50 px-3 py-2 text-sm">
+        <span className="flex items-center gap-2">
+          <UserCheck className="h-4 w-4 text-primary" />
+          <span className="font-medium">{selected.name}</span>
+          <span className="text-muted-foreground">{selected.mobile_number}</span>
+        </span>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onSelect(null)}>
+          <X className="mr-1 h-4 w-4" />
+          New patient
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className="w-full justify-start text-muted-foreground">
+          <Search className="mr-2 h-4 w-4" />
+          Find existing patient by name or mobile...
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Name or mobile number" value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>No patients found</CommandEmpty>
+            <CommandGroup>
+              {results.map((patient) => (
+                <CommandItem
+                  key={patient.id}
+                  value={patient.id}
+                  onSelect={() => {
+                    onSelect(patient);
+                    setOpen(false);
+                    setQuery("");
+                  }}
+                >
+                  <div className="flex w-full items-center justify-between gap-2">
+                    <span className="font-medium">{patient.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {[patient.mobile_number, patientAge(patient) && `${patientAge(patient)} yrs`, genderLabel(patient.gender)]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PatientPicker;
@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { PAYMENT_STATUSES, type PaymentStatus } from "@/lib/payments";
+
+interface PaymentStatusBadgeProps {
+  status: string | null;
+  /** A cancelled receipt shows as cancelled whatever was paid on it */
+  cancelled?: boolean;
+}
+
+const PaymentStatusBadge = ({ status, cancelled }: PaymentStatusBadgeProps) => {
+  if (cancelled) {
+    return (
+      <Badge variant="outline" className="border-destructive text-destructive">
+        Cancelled
+      </Badge>
+    );
+  }
+  const config = PAYMENT_STATUSES[(status || "due") as PaymentStatus] || PAYMENT_STATUSES.due;
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+};
+
+export default PaymentStatusBadge;
@@ -0,0 +1,300 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Ban, Building2, Download, Mail, Printer, X } from "lucide-react";
+import { useBranches } from "@/hooks/use-branches";
+import { runBulk, type BulkFailure } from "@/lib/bulk";
+
+interface SelectedReceipt {
+  id: string;
+  receipt_number: string;
+  branch_id: string | null;
+  cancelled_at: string | null;
+  amount_paid: number;
+}
+
+interface ReceiptBulkActionsProps {
+  count: number;
+  /** Fetches the selected receipts with the given columns (which must include `id`). */
+  loadSelected: <T extends { id: string }>(columns: string) => Promise<T[]>;
+  onExport: () => Promise<void>;
+  onEmail: () => Promise<void>;
+  /** Called after receipts were cancelled or moved, to reload the list. */
+  onChanged: () => void;
+  onClear: () => void;
+}
+
+const SELECTED_COLUMNS = "id, receipt_number, branch_id, cancelled_at, amount_paid";
+
+/**
+ * Actions on the receipts selected in the history: export, email, cancel,
+ * move to another branch and print. Cancelling and moving go one receipt at a
+ * time with a progress bar, and list any receipts that failed at the end.
+ */
+const ReceiptBulkActions = ({ count, loadSelected, onExport, onEmail, onChanged, onClear }: ReceiptBulkActionsProps) => {
+  const navigate = useNavigate();
+  const { branches, activeBranches } = useBranches();
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<BulkFailure<SelectedReceipt>[]>([]);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [moveOpen, setMoveOpen] = useState(false);
+  const [targetBranch, setTargetBranch] = useState("");
+  const busy = progress !== null;
+
+  useEffect(() => {
+    if (cancelOpen) setReason("");
+  }, [cancelOpen]);
+
+  useEffect(() => {
+    if (moveOpen) setTargetBranch("");
+  }, [moveOpen]);
+
+  const runStep = async (label: string, step: () => Promise<void>) => {
+    setProgress({ label, done: 0, total: 0 });
+    try {
+      await step();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Runs `action` on each receipt, then reports how many went through and which failed
+  const runOnEach = async (
+    label: string,
+    receipts: SelectedReceipt[],
+    action: (receipt: SelectedReceipt) => Promise<void>,
+    done: string,
+  ) => {
+    setProgress({ label, done: 0, total: receipts.length });
+    const failed = await runBulk(receipts, action, (n) => setProgress({ label, done: n, total: receipts.length }));
+    setProgress(null);
+    const succeeded = receipts.length - failed.length;
+    if (succeeded > 0) toast.success(`${succeeded} receipt${succeeded === 1 ? "" : "s"} ${done}`);
+    setFailures(failed);
+    onChanged();
+  };
+
+  const handleCancel = async () => {
+    if (!reason.trim()) {
+      toast.error("Enter the reason for cancelling");
+      return;
+    }
+    setCancelOpen(false);
+
+    let receipts: SelectedReceipt[];
+    try {
+      receipts = (await loadSelected<SelectedReceipt>(SELECTED_COLUMNS)).filter((r) => !r.cancelled_at);
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+    if (receipts.length === 0) {
+      toast.error("The selected receipts are already cancelled");
+      return;
+    }
+
+    await runOnEach(
+      "Cancelling",
+      receipts,
+      async (receipt) => {
+        const { error } = await supabase.rpc("cancel_receipt", { _receipt_id: receipt.id, _reason: reason.trim() });
+        if (error) throw error;
+      },
+      "cancelled",
+    );
+  };
+
+  const handleMove = async () => {
+    const branch = branches.find((b) => b.id === targetBranch);
+    if (!branch) {
+      toast.error("Choose a branch");
+      return;
+    }
+    setMoveOpen(false);
+
+    // Cancelled receipts can't be changed, and some may already be at the branch
+    let receipts: SelectedReceipt[];
+    let credited: Set<string>;
+    try {
+      receipts = (await loadSelected<SelectedReceipt>(SELECTED_COLUMNS)).filter(
+        (r) => !r.cancelled_at && r.branch_id !== branch.id
+      );
+      const { data: notes, error } = receipts.length
+        ? await supabase.from("credit_notes").select("receipt_id").in("receipt_id", receipts.map((r) => r.id))
+        : { data: [], error: null };
+      if (error) throw error;
+      credited = new Set((notes || []).map((n) => n.receipt_id));
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+    if (receipts.length === 0) {
+      toast.error(`None of the selected receipts can be moved to ${branch.name}`);
+      return;
+    }
+
+    // The branch name, stock and totals follow branch_id through the receipt
+    // triggers. Moving can reprice a receipt (its GST split depends on the
+    // branch's state), so receipts already paid against or credited are left
+    // where they are.
+    await runOnEach(
+      `Moving to ${branch.name}`,
+      receipts,
+      async (receipt) => {
+        if (Number(receipt.amount_paid) > 0) throw new Error("Has payments recorded; cannot be moved");
+        if (credited.has(receipt.id)) throw new Error("Has credit notes; cannot be moved");
+        const { error } = await supabase.from("receipts").update({ branch_id: branch.id }).eq("id", receipt.id);
+        if (error) throw error;
+      },
+      `moved to ${branch.name}`,
+    );
+  };
+
+  // The batch print page lays each receipt out on the pad, one page per receipt
+  const handlePrint = () =>
+    runStep("Preparing print", async () => {
+      const receipts = await loadSelected<SelectedReceipt>(SELECTED_COLUMNS);
+      if (receipts.length === 0) throw new Error("No receipts to print");
+      navigate(`/receipts/print?ids=${receipts.map((r) => r.id).join(",")}`);
+    });
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/30 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-2 text-sm font-medium">
+          {count} receipt{count === 1 ? "" : "s"} selected
+        </span>
+        <Button size="sm" variant="secondary" onClick={() => runStep("Exporting", onExport)} disabled={busy}>
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => runStep("Sending mail", onEmail)} disabled={busy}>
+          <Mail className="mr-2 h-4 w-4" />
+          Send Mail
+        </Button>
+        <Button size="sm" variant="secondary" onClick={handlePrint} disabled={busy}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => setMoveOpen(true)} disabled={busy}>
+          <Building2 className="mr-2 h-4 w-4" />
+          Change Branch
+        </Button>
+        <Button size="sm" variant="destructive" onClick={() => setCancelOpen(true)} disabled={busy}>
+          <Ban className="mr-2 h-4 w-4" />
+          Cancel Receipts
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClear} disabled={busy}>
+          <X className="mr-2 h-4 w-4" />
+          Clear Selection
+        </Button>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <div className="text-sm text-muted-foreground">
+            {progress.label}
+            {progress.total > 0 ? ` ${progress.done} of ${progress.total}...` : "..."}
+          </div>
+          {progress.total > 0 && <Progress value={(progress.done / progress.total) * 100} className="h-2" />}
+        </div>
+      )}
+
+      <Dialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {count} Receipts</DialogTitle>
+            <DialogDescription>
+              The selected receipts will be marked cancelled and left out of income. Receipts with credit notes are
+              skipped and listed afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-cancellation-reason">Reason</Label>
+            <Textarea
+              id="bulk-cancellation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Duplicate entries"
+              maxLength={200}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelOpen(false)}>
+              Keep Receipts
+            </Button>
+            <Button variant="destructive" onClick={handleCancel}>
+              <Ban className="mr-2 h-4 w-4" />
+              Cancel Receipts
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={moveOpen} onOpenChange={setMoveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Branch</DialogTitle>
+            <DialogDescription>
+              Move the selected receipts to another branch. Their stock moves with them, and totals and GST are
+              recalculated for the new branch's state. Receipt numbers keep the old branch's prefix. Receipts with
+              payments or credit notes are skipped and listed afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={targetBranch} onValueChange={setTargetBranch}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a branch" />
+            </SelectTrigger>
+            <SelectContent>
+              {activeBranches.map((b) => (
+                <SelectItem key={b.id} value={b.id}>
+                  {b.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMoveOpen(false)}>
+              Close
+            </Button>
+            <Button onClick={handleMove} disabled={!targetBranch}>
+              <Building2 className="mr-2 h-4 w-4" />
+              Move Receipts
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={failures.length > 0} onOpenChange={(open) => !open && setFailures([])}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {failures.length} Receipt{failures.length === 1 ? "" : "s"} Not Changed
+            </DialogTitle>
+            <DialogDescription>The other selected receipts went through.</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {failures.map(({ item, message }) => (
+              <div key={item.id} className="rounded-md border px-3 py-2 text-sm">
+                <div className="font-mono">{item.receipt_number}</div>
+                <div className="text-muted-foreground">{message}</div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReceiptBulkActions;
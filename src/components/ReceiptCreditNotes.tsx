@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Ban, FileMinus, Save } from "lucide-react";
+import CancelReceiptDialog from "@/components/CancelReceiptDialog";
+import { creditedTotal, REFUND_MODES, type CreditNote } from "@/lib/credit-notes";
+import { formatInr } from "@shared/money";
+
+interface ReceiptCreditNotesProps {
+  receipt: {
+    id: string;
+    receipt_number: string;
+    total_amount: number;
+    cancelled_at: string | null;
+    cancellation_reason: string;
+  };
+  /** Called after the receipt is cancelled or credited, to reload it */
+  onChange: () => void;
+}
+
+/**
+ * Reversals of one receipt: credit notes issued against it, or its
+ * cancellation. A receipt is either cancelled outright or credited, never both.
+ */
+const ReceiptCreditNotes = ({ receipt, onChange }: ReceiptCreditNotesProps) => {
+  const [notes, setNotes] = useState<CreditNote[]>([]);
+  const [open, setOpen] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [refundMode, setRefundMode] = useState("none");
+  const [saving, setSaving] = useState(false);
+  const credited = creditedTotal(notes);
+  const creditable = Math.max(Math.round((Number(receipt.total_amount) - credited) * 100) / 100, 0);
+
+  const fetchNotes = useCallback(async () => {
+    const { data } = await supabase
+      .from("credit_notes")
+      .select("*")
+      .eq("receipt_id", receipt.id)
+      .order("created_at", { ascending: true });
+    setNotes(data || []);
+  }, [receipt.id]);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount(creditable.toFixed(2));
+    setReason("");
+    setRefundMode("none");
+  }, [open, creditable]);
+
+  const handleSave = async () => {
+    const value = Number(amount);
+    if (!value || value <= 0) {
+      toast.error("Enter the amount to credit");
+      return;
+    }
+    if (value > creditable) {
+      toast.error(`At most ${formatInr(creditable)} can be credited on this receipt`);
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Enter the reason for the credit note");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("issue_credit_note", {
+        _receipt_id: receipt.id,
+        _amount: value,
+        _reason: reason.trim(),
+        _refund_mode: refundMode,
+      });
+      if (error) throw error;
+      toast.success(`Credit note ${data.credit_note_number} issued`);
+      setOpen(false);
+      fetchNotes();
+      onChange();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelled = Boolean(receipt.cancelled_at);
+
+  return (
+    <Card className="mt-6 no-print">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5" />
+            {cancelled ? "Cancelled" : "Credit Notes"}
+          </CardTitle>
+          <CardDescription>
+            {cancelled
+              ? `Cancelled on ${new Date(receipt.cancelled_at as string).toLocaleString()}: ${receipt.cancellation_reason}`
+              : credited > 0
+                ? `${formatInr(credited)} credited of ${formatInr(receipt.total_amount)}`
+                : "Reverse part or all of this receipt, or cancel it if it should not have been issued"}
+          </CardDescription>
+        </div>
+        {!cancelled && (
+          <div className="flex flex-wrap justify-end gap-2">
+            <Dialog open={open} onOpenChange={setOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" variant="outline" disabled={creditable <= 0}>
+                  <FileMinus className="mr-2 h-4 w-4" />
+                  Credit Note
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Issue Credit Note</DialogTitle>
+                  <DialogDescription>Against Receipt No. {receipt.receipt_number}</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="credit-amount">Amount (₹)</Label>
+                      <Input
+                        id="credit-amount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={creditable}
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="refund-mode">Refund</Label>
+                      <Select value={refundMode} onValueChange={setRefundMode}>
+                        <SelectTrigger id="refund-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(REFUND_MODES).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="credit-reason">Reason</Label>
+                    <Textarea
+                      id="credit-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="e.g. Medicine returned unopened"
+                      maxLength={200}
+                    />
+                  </div>
+                  <Button onClick={handleSave} disabled={saving} className="w-full">
+                    <Save className="mr-2 h-4 w-4" />
+                    {saving ? "Issuing..." : "Issue"}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+            <Button size="sm" variant="destructive" disabled={notes.length > 0} onClick={() => setCancelOpen(true)}>
+              <Ban className="mr-2 h-4 w-4" />
+              Cancel Receipt
+            </Button>
+            <CancelReceiptDialog receipt={receipt} open={cancelOpen} onOpenChange={setCancelOpen} onCancelled={onChange} />
+          </div>
+        )}
+      </CardHeader>
+      {notes.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Credit Note No.</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Refund</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notes.map((note) => (
+                <TableRow key={note.id}>
+                  <TableCell className="font-mono">{note.credit_note_number}</TableCell>
+                  <TableCell>{new Date(note.note_date).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-muted-foreground">{note.reason}</TableCell>
+                  <TableCell>{REFUND_MODES[note.refund_mode] || note.refund_mode}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatInr(note.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default ReceiptCreditNotes;
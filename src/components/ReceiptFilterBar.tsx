@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, Search, SlidersHorizontal } from "lucide-react";
+import { useBranches } from "@/hooks/use-branches";
+import { useCatalog } from "@/hooks/use-catalog";
+import { PAYMENT_STATUSES, type PaymentStatus } from "@/lib/payments";
+import { DEFAULT_RECEIPT_FILTERS, hasReceiptFilters, TAX_FILTERS, type ReceiptFilters } from "@/lib/receipt-search";
+
+interface ReceiptFilterBarProps {
+  filters: ReceiptFilters;
+  onChange: (changes: Partial<ReceiptFilters>) => void;
+}
+
+// Typed into, so they reach `onChange` only after a pause
+const TEXT_FILTERS = ["q", "name", "min", "max"] as const;
+type TextFilters = Pick<ReceiptFilters, (typeof TEXT_FILTERS)[number]>;
+
+const textFilters = (filters: ReceiptFilters): TextFilters => ({
+  q: filters.q,
+  name: filters.name,
+  min: filters.min,
+  max: filters.max,
+});
+
+/**
+ * Receipt history filters: search, branch, item, status and dates, with the
+ * amount range, template, item name, tax and creator under "More filters".
+ */
+const ReceiptFilterBar = ({ filters, onChange }: ReceiptFilterBarProps) => {
+  const { branches } = useBranches();
+  const { items: catalog } = useCatalog();
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [creators, setCreators] = useState<{ id: string; full_name: string | null; email: string | null }[]>([]);
+  const [draft, setDraft] = useState<TextFilters>(() => textFilters(filters));
+  const advancedSet = (["min", "max", "template", "name", "tax", "creator"] as const).some(
+    (key) => filters[key] !== DEFAULT_RECEIPT_FILTERS[key]
+  );
+  const [showMore, setShowMore] = useState(advancedSet);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      const [{ data: templateRows }, { data: profileRows }] = await Promise.all([
+        supabase.from("receipt_templates").select("id, name").order("name", { ascending: true }),
+        // Only admins can read other users' profiles, so others just see themselves
+        supabase.from("profiles").select("id, full_name, email").order("full_name", { ascending: true }),
+      ]);
+      setTemplates(templateRows || []);
+      setCreators(profileRows || []);
+    };
+    fetchOptions();
+  }, []);
+
+  // Back/forward navigation or a saved view changes the filters under the inputs
+  useEffect(() => {
+    setDraft({ q: filters.q, name: filters.name, min: filters.min, max: filters.max });
+  }, [filters.q, filters.name, filters.min, filters.max]);
+
+  useEffect(() => {
+    const changes = TEXT_FILTERS.filter((key) => draft[key] !== filters[key]);
+    if (changes.length === 0) return;
+    const timer = setTimeout(() => onChange(draft), 300);
+    return () => clearTimeout(timer);
+  }, [draft, filters, onChange]);
+
+  const setText = (key: keyof TextFilters, value: string) => setDraft((current) => ({ ...current, [key]: value }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by receipt no., name, mobile, address or item..."
+            value={draft.q}
+            onChange={(e) => setText("q", e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={filters.branch} onValueChange={(branch) => onChange({ branch })}>
+          <SelectTrigger className="w-[250px]">
+            <SelectValue placeholder="Filter by branch" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Branches</SelectItem>
+            {branches.map((b) => (
+              <SelectItem key={b.id} value={b.id}>
+                {b.name}{b.is_active ? "" : " (retired)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.item} onValueChange={(item) => onChange({ item })}>
+          <SelectTrigger className="w-[250px]">
+            <SelectValue placeholder="Filter by item" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Items</SelectItem>
+            {catalog.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.name}{c.is_active ? "" : " (inactive)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.status} onValueChange={(status) => onChange({ status })}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {(Object.keys(PAYMENT_STATUSES) as PaymentStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {PAYMENT_STATUSES[status].label}
+              </SelectItem>
+            ))}
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          aria-label="From date"
+          value={filters.from}
+          onChange={(e) => onChange({ from: e.target.value })}
+          className="w-[160px]"
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={filters.to}
+          onChange={(e) => onChange({ to: e.target.value })}
+          className="w-[160px]"
+        />
+        <Button variant={showMore ? "secondary" : "outline"} onClick={() => setShowMore(!showMore)}>
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          More Filters
+        </Button>
+        {hasReceiptFilters(filters) && (
+          <Button variant="ghost" onClick={() => onChange({ ...DEFAULT_RECEIPT_FILTERS, sort: filters.sort, dir: filters.dir })}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {showMore && (
+        <div className="flex flex-wrap gap-3 rounded-lg border bg-muted/30 p-3">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            aria-label="Minimum amount"
+            placeholder="Min ₹"
+            value={draft.min}
+            onChange={(e) => setText("min", e.target.value)}
+            className="w-[120px]"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            aria-label="Maximum amount"
+            placeholder="Max ₹"
+            value={draft.max}
+            onChange={(e) => setText("max", e.target.value)}
+            className="w-[120px]"
+          />
+          <Input
+            aria-label="Item name"
+            placeholder="Item name contains..."
+            value={draft.name}
+            onChange={(e) => setText("name", e.target.value)}
+            className="w-[200px]"
+          />
+          <Select value={filters.template} onValueChange={(template) => onChange({ template })}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Filter by template" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Templates</SelectItem>
+              {templates.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.tax} onValueChange={(tax) => onChange({ tax })}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TAX_FILTERS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {creators.length > 1 && (
+            <Select value={filters.creator} onValueChange={(creator) => onChange({ creator })}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Created by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                {creators.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.full_name || c.email || c.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptFilterBar;
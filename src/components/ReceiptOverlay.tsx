@@ -0,0 +1,126 @@
+import type { ReactNode } from "react";
+import { FIELD_FONT_PX, ITEM_FONT_PX, UPI_QR_WIDTH, type ReceiptFieldKey, type ReceiptLayout } from "@shared/receipt-layout";
+import { describeTaxRow, taxSummary, type GstLineTax } from "@shared/gst";
+import { amountInWords, formatAdjustment, formatInr } from "@shared/money";
+import CancelledStamp from "@/components/CancelledStamp";
+import UpiQrCode from "@/components/UpiQrCode";
+import type { UpiPayee } from "@/lib/upi";
+
+export interface OverlayReceipt {
+  receipt_number: string;
+  customer_name: string;
+  age: string | null;
+  address: string | null;
+  bp: string | null;
+  pulse: string | null;
+  receipt_date: string;
+  items: ({ name: string; quantity: number; price: number } & Partial<GstLineTax>)[];
+  supply_type?: string;
+  discount_amount?: number;
+  discount_reason?: string;
+  round_off?: number;
+  total_amount?: number;
+  cancelled_at?: string | null;
+  cancellation_reason?: string;
+}
+
+interface ReceiptOverlayProps {
+  receipt: OverlayReceipt;
+  layout: ReceiptLayout;
+  /** Prints a UPI QR for `amount` at the layout's QR position */
+  upi?: { payee: UpiPayee; amount: number } | null;
+}
+
+/**
+ * The receipt text positioned over the prescription pad. Render it inside an
+ * A4-shaped, relatively positioned container; all positions are percentages.
+ */
+const ReceiptOverlay = ({ receipt, layout, upi }: ReceiptOverlayProps) => {
+  const summary = taxSummary(receipt.items).filter((row) => row.tax_rate > 0);
+  const discount = Number(receipt.discount_amount || 0);
+  const fields: Record<ReceiptFieldKey, ReactNode> = {
+    receipt_number: `No. ${receipt.receipt_number}`,
+    customer_name: receipt.customer_name,
+    age: receipt.age,
+    receipt_date: new Date(receipt.receipt_date).toLocaleDateString('en-GB'),
+    address: receipt.address,
+    bp: receipt.bp || '-',
+    pulse: receipt.pulse || '-',
+  };
+
+  return (
+    <div className="relative h-full w-full" style={{ fontSize: `${FIELD_FONT_PX}px` }}>
+      {(Object.keys(fields) as ReceiptFieldKey[]).map((key) => (
+        <div
+          key={key}
+          className="absolute font-semibold"
+          style={{ top: `${layout.fields[key].top}%`, left: `${layout.fields[key].left}%`, color: '#000' }}
+        >
+          {fields[key]}
+        </div>
+      ))}
+
+      {/* Items */}
+      <div
+        className="absolute"
+        style={{ top: `${layout.items.top}%`, left: `${layout.items.left}%`, right: `${layout.items.right}%`, color: '#000' }}
+      >
+        {receipt.items.map((item, index) => (
+          <div key={index} className="flex justify-between font-semibold mb-2" style={{ fontSize: `${ITEM_FONT_PX}px` }}>
+            <span style={{ width: '50%' }}>{item.name}</span>
+            <span style={{ width: '20%', textAlign: 'center' }}>Qty: {item.quantity}</span>
+            <span style={{ width: '30%', textAlign: 'right' }}>{formatInr(item.price)}</span>
+          </div>
+        ))}
+        {discount > 0 && (
+          <div className="font-semibold" style={{ fontSize: `${FIELD_FONT_PX}px` }}>
+            Discount: -{formatInr(discount)}
+            {receipt.discount_reason && ` (${receipt.discount_reason})`}
+          </div>
+        )}
+        {summary.map((row) => (
+          <div key={`${row.hsn_sac}-${row.tax_rate}`} className="font-semibold" style={{ fontSize: `${FIELD_FONT_PX}px` }}>
+            {describeTaxRow(row, receipt.supply_type, formatInr)}
+          </div>
+        ))}
+        {Number(receipt.round_off) !== 0 && (
+          <div className="font-semibold" style={{ fontSize: `${FIELD_FONT_PX}px` }}>
+            Round off: {formatAdjustment(receipt.round_off)}
+          </div>
+        )}
+        {receipt.total_amount !== undefined && (
+          <div className="font-semibold" style={{ fontSize: `${FIELD_FONT_PX}px` }}>
+            <div>Total: {formatInr(receipt.total_amount)}</div>
+            <div>{amountInWords(receipt.total_amount)}</div>
+          </div>
+        )}
+      </div>
+
+      {upi && (
+        <UpiQrCode
+          payee={upi.payee}
+          amount={upi.amount}
+          receiptNumber={receipt.receipt_number}
+          fontSize={FIELD_FONT_PX - 1}
+          className="absolute"
+          style={{ top: `${layout.upi_qr.top}%`, left: `${layout.upi_qr.left}%`, width: `${UPI_QR_WIDTH}%` }}
+        />
+      )}
+
+      {/* Custom text boxes from the template */}
+      {layout.custom_texts.map((text) => (
+        <div
+          key={text.id}
+          className="absolute font-semibold"
+          style={{ top: `${text.top}%`, left: `${text.left}%`, color: text.color, fontSize: `${text.font_size}px` }}
+        >
+          {text.text}
+        </div>
+      ))}
+
+      {receipt.cancelled_at && <CancelledStamp reason={receipt.cancellation_reason} />}
+    </div>
+  );
+};
+
+export default ReceiptOverlay;
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { IndianRupee, Plus, Save, Trash2 } from "lucide-react";
+import PaymentStatusBadge from "@/components/PaymentStatusBadge";
+import { balanceDue, PAYMENT_MODES, type ReceiptPayment } from "@/lib/payments";
+import { formatInr } from "@shared/money";
+
+interface ReceiptPaymentsProps {
+  receipt: {
+    id: string;
+    receipt_number: string;
+    total_amount: number;
+    amount_paid: number;
+    payment_status: string | null;
+    cancelled_at?: string | null;
+  };
+  /** Called after a payment is added or removed, to reload the receipt's status */
+  onChange: () => void;
+}
+
+/**
+ * Payments received against one receipt, with a dialog to record another.
+ * The receipt's amount_paid and status are kept up to date by the database.
+ */
+const ReceiptPayments = ({ receipt, onChange }: ReceiptPaymentsProps) => {
+  const [payments, setPayments] = useState<ReceiptPayment[]>([]);
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState("cash");
+  const [amount, setAmount] = useState("");
+  const [reference, setReference] = useState("");
+  const [paidOn, setPaidOn] = useState("");
+  const [saving, setSaving] = useState(false);
+  // Nothing more is collected on a cancelled receipt
+  const balance = receipt.cancelled_at ? 0 : balanceDue(receipt);
+
+  const fetchPayments = useCallback(async () => {
+    const { data } = await supabase
+      .from("receipt_payments")
+      .select("*")
+      .eq("receipt_id", receipt.id)
+      .order("paid_on", { ascending: true })
+      .order("created_at", { ascending: true });
+    setPayments(data || []);
+  }, [receipt.id]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode("cash");
+    setAmount(balance.toFixed(2));
+    setReference("");
+    setPaidOn(new Date().toISOString().split("T")[0]);
+  }, [open, balance]);
+
+  const handleSave = async () => {
+    const value = Number(amount);
+    if (!value || value <= 0) {
+      toast.error("Enter the amount received");
+      return;
+    }
+    if (value > balance) {
+      toast.error(`Only ${formatInr(balance)} is due on this receipt`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("receipt_payments").insert({
+        receipt_id: receipt.id,
+        mode,
+        amount: value,
+        reference: reference.trim(),
+        paid_on: paidOn,
+        created_by: user.id,
+      });
+      if (error) throw error;
+      toast.success("Payment recorded");
+      setOpen(false);
+      fetchPayments();
+      onChange();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payment: ReceiptPayment) => {
+    if (!confirm(`Remove the ${PAYMENT_MODES[payment.mode] || payment.mode} payment of ${formatInr(payment.amount)}?`)) return;
+
+    try {
+      const { error } = await supabase.from("receipt_payments").delete().eq("id", payment.id);
+      if (error) throw error;
+      toast.success("Payment removed");
+      fetchPayments();
+      onChange();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <Card className="mt-6 no-print">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <IndianRupee className="h-5 w-5" />
+            Payments
+            <PaymentStatusBadge status={receipt.payment_status} cancelled={Boolean(receipt.cancelled_at)} />
+          </CardTitle>
+          <CardDescription>
+            {formatInr(receipt.amount_paid)} received of {formatInr(receipt.total_amount)}
+            {balance > 0 && `, ${formatInr(balance)} due`}
+          </CardDescription>
+        </div>
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm" disabled={balance <= 0}>
+              <Plus className="mr-2 h-4 w-4" />
+              Record Payment
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Record Payment</DialogTitle>
+              <DialogDescription>Receipt No. {receipt.receipt_number}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="payment-mode">Mode</Label>
+                  <Select value={mode} onValueChange={setMode}>
+                    <SelectTrigger id="payment-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYMENT_MODES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payment-amount">Amount (₹)</Label>
+                  <Input
+                    id="payment-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    max={balance}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="payment-reference">Reference</Label>
+                  <Input
+                    id="payment-reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder={mode === "cash" ? "Optional" : "UPI ref / card slip no."}
+                    maxLength={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payment-date">Date</Label>
+                  <Input id="payment-date" type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} />
+                </div>
+              </div>
+              <Button onClick={handleSave} disabled={saving} className="w-full">
+                <Save className="mr-2 h-4 w-4" />
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      {payments.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell>{new Date(payment.paid_on).toLocaleDateString()}</TableCell>
+                  <TableCell>{PAYMENT_MODES[payment.mode] || payment.mode}</TableCell>
+                  <TableCell className="text-muted-foreground">{payment.reference || "-"}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatInr(payment.amount)}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(payment)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default ReceiptPayments;
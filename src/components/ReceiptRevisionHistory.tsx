@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { formatInr } from "@shared/money";
+
+interface SnapshotItem {
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+type Snapshot = Record<string, unknown> & { items?: SnapshotItem[] };
+
+interface Revision {
+  id: string;
+  revision_number: number;
+  snapshot: Snapshot;
+  edited_by: string | null;
+  created_at: string;
+}
+
+interface FieldChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+interface ReceiptRevisionHistoryProps {
+  receiptId: string;
+}
+
+// Fields shown in the diff, in display order. Anything else in the snapshot
+// (ids, timestamps) is bookkeeping and not worth surfacing.
+const TRACKED_FIELDS: { key: string; label: string; format?: (value: unknown) => string }[] = [
+  { key: "customer_name", label: "Customer Name" },
+  { key: "age", label: "Age" },
+  { key: "mobile_number", label: "Mobile Number" },
+  { key: "address", label: "Address" },
+  { key: "bp", label: "BP" },
+  { key: "pulse", label: "Pulse" },
+  { key: "branch", label: "Branch" },
+  { key: "receipt_date", label: "Receipt Date" },
+  { key: "subtotal", label: "Subtotal", format: (v) => formatInr(Number(v)) },
+  { key: "discount_amount", label: "Discount", format: (v) => formatInr(Number(v)) },
+  { key: "discount_reason", label: "Discount Reason" },
+  { key: "place_of_supply", label: "Place of Supply" },
+  { key: "cgst_amount", label: "CGST", format: (v) => formatInr(Number(v)) },
+  { key: "sgst_amount", label: "SGST", format: (v) => formatInr(Number(v)) },
+  { key: "igst_amount", label: "IGST", format: (v) => formatInr(Number(v)) },
+  { key: "tax_amount", label: "Tax", format: (v) => formatInr(Number(v)) },
+  { key: "total_amount", label: "Total", format: (v) => formatInr(Number(v)) },
+  { key: "cancellation_reason", label: "Cancellation Reason" },
+];
+
+const formatValue = (value: unknown, format?: (value: unknown) => string) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return format ? format(value) : String(value);
+};
+
+const formatItem = (item: SnapshotItem) =>
+  `${item.name} × ${item.quantity} @ ${formatInr(item.price)}`;
+
+const diffSnapshots = (before: Snapshot, after: Snapshot): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const oldValue = formatValue(before[field.key], field.format);
+    const newValue = formatValue(after[field.key], field.format);
+    if (oldValue !== newValue) {
+      changes.push({ label: field.label, before: oldValue, after: newValue });
+    }
+  }
+
+  const oldItems = (before.items || []).map(formatItem);
+  const newItems = (after.items || []).map(formatItem);
+  const removed = oldItems.filter((line) => !newItems.includes(line));
+  const added = newItems.filter((line) => !oldItems.includes(line));
+  if (removed.length > 0 || added.length > 0) {
+    changes.push({
+      label: "Items",
+      before: removed.join("\n") || "—",
+      after: added.join("\n") || "—",
+    });
+  }
+
+  return changes;
+};
+
+const ReceiptRevisionHistory = ({ receiptId }: ReceiptRevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [editorNames, setEditorNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("receipt_revisions")
+          .select("id, revision_number, snapshot, edited_by, created_at")
+          .eq("receipt_id", receiptId)
+          .order("revision_number", { ascending: true });
+
+        if (error) throw error;
+        const rows = (data || []) as unknown as Revision[];
+        setRevisions(rows);
+
+        const { data: { user } } = await supabase.auth.getUser();
+        const editorIds = [...new Set(rows.map((r) => r.edited_by).filter(Boolean))] as string[];
+        const names: Record<string, string> = {};
+        if (editorIds.length > 0) {
+          // Only the caller's own profile is visible to regular users; admins see everyone.
+          const { data: profiles } = await supabase
+            .from("profiles")
+            .select("id, full_name, email")
+            .in("id", editorIds);
+          for (const profile of profiles || []) {
+            names[profile.id] = profile.full_name || profile.email || "Unknown user";
+          }
+        }
+        if (user) names[user.id] = "You";
+        setEditorNames(names);
+      } catch {
+        // History is supplementary; the receipt itself is still usable without it
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchRevisions();
+  }, [receiptId]);
+
+  if (loading || revisions.length === 0) return null;
+
+  const entries = revisions
+    .map((revision, index) => ({
+      revision,
+      changes: index === 0 ? [] : diffSnapshots(revisions[index - 1].snapshot, revision.snapshot),
+    }))
+    .reverse();
+
+  return (
+    <Card className="mt-6 no-print">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+        <CardDescription>
+          {revisions.length === 1
+            ? "This receipt has not been edited."
+            : `${revisions.length - 1} edit(s) since the receipt was created.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.map(({ revision, changes }) => (
+          <div key={revision.id} className="rounded-lg border p-4">
+            <div className="mb-2 flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant={revision.revision_number === 1 ? "secondary" : "default"}>
+                {revision.revision_number === 1 ? "Created" : `Revision ${revision.revision_number}`}
+              </Badge>
+              <span className="font-medium">
+                {(revision.edited_by && editorNames[revision.edited_by]) || "Unknown user"}
+              </span>
+              <span className="text-muted-foreground">
+                {new Date(revision.created_at).toLocaleString()}
+              </span>
+            </div>
+            {revision.revision_number > 1 && changes.length === 0 && (
+              <p className="text-sm text-muted-foreground">No visible changes.</p>
+            )}
+            {changes.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 pr-4 font-medium">Field</th>
+                      <th className="py-1 pr-4 font-medium">Before</th>
+                      <th className="py-1 font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => (
+                      <tr key={change.label} className="border-t align-top">
+                        <td className="py-1 pr-4 font-medium">{change.label}</td>
+                        <td className="whitespace-pre-line py-1 pr-4 text-destructive line-through">
+                          {change.before}
+                        </td>
+                        <td className="whitespace-pre-line py-1 text-green-600">{change.after}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReceiptRevisionHistory;
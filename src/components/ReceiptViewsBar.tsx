@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Bookmark, Pin, Save, Settings2, Trash2 } from "lucide-react";
+import {
+  compactReceiptFilters,
+  filtersToSearchParams,
+  hasReceiptFilters,
+  resolveReceiptFilters,
+  type ReceiptFilters,
+  type ReceiptView,
+} from "@/lib/receipt-search";
+
+interface ReceiptViewsBarProps {
+  filters: ReceiptFilters;
+  views: ReceiptView[];
+  onApply: (filters: ReceiptFilters) => void;
+  /** Called after a view is saved, pinned or deleted, to reload them */
+  onChange: () => void;
+}
+
+const sameFilters = (view: ReceiptView, filters: ReceiptFilters) =>
+  filtersToSearchParams(resolveReceiptFilters(view.filters)).toString() === filtersToSearchParams(filters).toString();
+
+/**
+ * Saved receipt views: pinned ones as buttons, the rest in a picker, and
+ * dialogs to save the current filters as a view and to manage views.
+ */
+const ReceiptViewsBar = ({ filters, views, onApply, onChange }: ReceiptViewsBarProps) => {
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [manageOpen, setManageOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const activeView = views.find((view) => sameFilters(view, filters));
+
+  useEffect(() => {
+    if (!saveOpen) return;
+    setName("");
+    setPinned(false);
+  }, [saveOpen]);
+
+  const applyView = (id: string) => {
+    const view = views.find((v) => v.id === id);
+    if (view) onApply(resolveReceiptFilters(view.filters));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Enter a name for the view");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // Saving under an existing name replaces that view's filters
+      const { error } = await supabase.from("receipt_views").upsert(
+        { user_id: user.id, name: name.trim(), filters: compactReceiptFilters(filters), pinned },
+        { onConflict: "user_id,name" }
+      );
+      if (error) throw error;
+      toast.success(`View "${name.trim()}" saved`);
+      setSaveOpen(false);
+      onChange();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePin = async (view: ReceiptView) => {
+    try {
+      const { error } = await supabase.from("receipt_views").update({ pinned: !view.pinned }).eq("id", view.id);
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const deleteView = async (view: ReceiptView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    try {
+      const { error } = await supabase.from("receipt_views").delete().eq("id", view.id);
+      if (error) throw error;
+      toast.success(`View "${view.name}" deleted`);
+      onChange();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {views
+        .filter((view) => view.pinned)
+        .map((view) => (
+          <Button
+            key={view.id}
+            size="sm"
+            variant={activeView?.id === view.id ? "default" : "outline"}
+            onClick={() => applyView(view.id)}
+          >
+            <Pin className="mr-2 h-3.5 w-3.5" />
+            {view.name}
+          </Button>
+        ))}
+      {views.length > 0 && (
+        <Select value={activeView?.id || ""} onValueChange={applyView}>
+          <SelectTrigger className="h-9 w-[220px]">
+            <SelectValue placeholder="Saved views" />
+          </SelectTrigger>
+          <SelectContent>
+            {views.map((view) => (
+              <SelectItem key={view.id} value={view.id}>
+                {view.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button size="sm" variant="ghost" onClick={() => setSaveOpen(true)} disabled={!hasReceiptFilters(filters)}>
+        <Bookmark className="mr-2 h-4 w-4" />
+        Save View
+      </Button>
+      {views.length > 0 && (
+        <Button size="sm" variant="ghost" onClick={() => setManageOpen(true)}>
+          <Settings2 className="mr-2 h-4 w-4" />
+          Manage
+        </Button>
+      )}
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Keep the current filters and sort order under a name.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. This month – Belhar – above ₹500"
+                maxLength={80}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="view-pinned" checked={pinned} onCheckedChange={setPinned} />
+              <Label htmlFor="view-pinned">Pin above the receipt list</Label>
+            </div>
+            <Button onClick={handleSave} disabled={saving} className="w-full">
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={manageOpen} onOpenChange={setManageOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Saved Views</DialogTitle>
+            <DialogDescription>Pinned views show as buttons above the receipt list.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {views.map((view) => (
+              <div key={view.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+                <span className="font-medium">{view.name}</span>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Switch id={`pin-${view.id}`} checked={view.pinned} onCheckedChange={() => togglePin(view)} />
+                    <Label htmlFor={`pin-${view.id}`} className="text-sm text-muted-foreground">
+                      Pinned
+                    </Label>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => deleteView(view)} title="Delete view">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReceiptViewsBar;
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { MessageCircle, Send } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  DEFAULT_PATIENT_MESSAGE_TEMPLATE,
+  PATIENT_MESSAGE_PLACEHOLDERS,
+  renderPatientMessage,
+  toInternationalMobile,
+} from "@shared/patient-message";
+
+type MessageLog = Tables<"message_logs">;
+
+interface SendToPatientDialogProps {
+  receipt: {
+    id: string;
+    customer_name: string;
+    mobile_number: string;
+    branch: string;
+    receipt_number: string;
+    receipt_date: string;
+    total_amount: number;
+  };
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  sent: "Sent",
+  link_created: "Opened",
+  failed: "Failed",
+};
+
+const SendToPatientDialog = ({ receipt }: SendToPatientDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [channel, setChannel] = useState<"whatsapp" | "sms">("whatsapp");
+  const [mobile, setMobile] = useState(receipt.mobile_number);
+  const [template, setTemplate] = useState(DEFAULT_PATIENT_MESSAGE_TEMPLATE);
+  const [logs, setLogs] = useState<MessageLog[]>([]);
+  const [sending, setSending] = useState(false);
+
+  const fetchLogs = useCallback(async () => {
+    const { data } = await supabase
+      .from("message_logs")
+      .select("*")
+      .eq("receipt_id", receipt.id)
+      .order("created_at", { ascending: false })
+      .limit(10);
+    setLogs(data || []);
+  }, [receipt.id]);
+
+  useEffect(() => {
+    if (!open) return;
+    setMobile(receipt.mobile_number);
+    fetchLogs();
+    const fetchTemplate = async () => {
+      const { data } = await supabase
+        .from("site_settings")
+        .select("value")
+        .eq("key", "patient_message_template")
+        .maybeSingle();
+      if (data?.value) setTemplate(data.value);
+    };
+    fetchTemplate();
+  }, [open, receipt.mobile_number, fetchLogs]);
+
+  // The share link is created when sending, so the preview shows a stand-in
+  const preview = renderPatientMessage(template, { ...receipt, link: `${window.location.origin}/share/…` });
+  const validMobile = toInternationalMobile(mobile) !== null;
+
+  const handleSend = async () => {
+    setSending(true);
+    // Open the chat window now, while we still have the click, so it isn't blocked as a popup
+    const chatWindow = channel === "whatsapp" ? window.open("", "_blank") : null;
+    try {
+      const { data, error } = await supabase.functions.invoke("send-patient-message", {
+        body: {
+          receipt_id: receipt.id,
+          channel,
+          mobile_number: mobile,
+          message_template: template,
+          app_url: window.location.origin,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      if (data.action_url) {
+        if (chatWindow) chatWindow.location.href = data.action_url;
+        else window.location.href = data.action_url;
+        toast.success(channel === "whatsapp" ? "WhatsApp opened with the message" : "SMS app opened with the message");
+      } else {
+        chatWindow?.close();
+        toast.success("Message sent");
+      }
+    } catch (error) {
+      chatWindow?.close();
+      toast.error("Failed to send message: " + (error as Error).message);
+    } finally {
+      setSending(false);
+      fetchLogs();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <MessageCircle className="mr-2 h-4 w-4" />
+          Send to Patient
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Send to Patient</DialogTitle>
+          <DialogDescription>
+            Sends the receipt summary with a 30-day share link to the patient's mobile number.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="message-channel">Channel</Label>
+            <Select value={channel} onValueChange={(value) => setChannel(value as "whatsapp" | "sms")}>
+              <SelectTrigger id="message-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                <SelectItem value="sms">SMS</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="message-mobile">Mobile Number</Label>
+            <Input id="message-mobile" value={mobile} onChange={(e) => setMobile(e.target.value)} />
+            {!validMobile && <p className="mt-1 text-xs text-destructive">Enter a valid 10-digit mobile number</p>}
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="message-template">Message</Label>
+          <Textarea id="message-template" rows={4} value={template} onChange={(e) => setTemplate(e.target.value)} />
+          <p className="mt-1 text-xs text-muted-foreground">
+            Placeholders: {PATIENT_MESSAGE_PLACEHOLDERS.map((p) => p.token).join(", ")}
+          </p>
+        </div>
+
+        <div className="rounded-lg border bg-muted/50 p-3 text-sm whitespace-pre-wrap">{preview}</div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSend} disabled={sending || !validMobile || !template.trim()}>
+            <Send className="mr-2 h-4 w-4" />
+            {sending ? "Sending..." : "Send"}
+          </Button>
+        </div>
+
+        {logs.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent messages</h4>
+            {logs.map((log) => (
+              <div key={log.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={log.status === "failed" ? "destructive" : log.status === "sent" ? "default" : "secondary"}>
+                  {STATUS_LABELS[log.status] ?? log.status}
+                </Badge>
+                <span className="uppercase text-muted-foreground">{log.channel}</span>
+                <span>+{log.recipient}</span>
+                <span className="text-muted-foreground">{new Date(log.created_at).toLocaleString()}</span>
+                {log.error && <span className="text-destructive">{log.error}</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SendToPatientDialog;
@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Copy, Link2, Share2, Ban } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type ShareLink = Tables<"receipt_share_links">;
+
+interface ShareReceiptDialogProps {
+  receiptId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: "1", label: "1 day" },
+  { days: "7", label: "7 days" },
+  { days: "30", label: "30 days" },
+  { days: "90", label: "90 days" },
+];
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+const linkStatus = (link: ShareLink) => {
+  if (link.revoked_at) return "revoked";
+  if (new Date(link.expires_at) <= new Date()) return "expired";
+  return "active";
+};
+
+const ShareReceiptDialog = ({ receiptId }: ShareReceiptDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiryDays, setExpiryDays] = useState("7");
+  const [creating, setCreating] = useState(false);
+
+  const fetchLinks = useCallback(async () => {
+    const { data } = await supabase
+      .from("receipt_share_links")
+      .select("*")
+      .eq("receipt_id", receiptId)
+      .order("created_at", { ascending: false });
+    setLinks(data || []);
+  }, [receiptId]);
+
+  useEffect(() => {
+    if (open) fetchLinks();
+  }, [open, fetchLinks]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast.success("Link copied to clipboard");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const expiresAt = new Date(Date.now() + Number(expiryDays) * 24 * 60 * 60 * 1000);
+      const { data, error } = await supabase
+        .from("receipt_share_links")
+        .insert({ receipt_id: receiptId, expires_at: expiresAt.toISOString() })
+        .select()
+        .single();
+
+      if (error) throw error;
+      await copyLink(data.token);
+      fetchLinks();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from("receipt_share_links")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) throw error;
+      toast.success("Link revoked");
+      fetchLinks();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Share2 className="mr-2 h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share Receipt</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this receipt, without signing in, until it expires or is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="share-expiry">Expires after</Label>
+            <Select value={expiryDays} onValueChange={setExpiryDays}>
+              <SelectTrigger id="share-expiry" className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.days} value={option.days}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={creating}>
+            <Link2 className="mr-2 h-4 w-4" />
+            {creating ? "Creating..." : "Create & Copy Link"}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {links.length === 0 && <p className="text-sm text-muted-foreground">No share links yet.</p>}
+          {links.map((link) => {
+            const status = linkStatus(link);
+            return (
+              <div key={link.id} className="space-y-2 rounded-lg border p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={status === "active" ? "default" : status === "expired" ? "secondary" : "destructive"}>
+                      {status === "active" ? "Active" : status === "expired" ? "Expired" : "Revoked"}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {status === "revoked"
+                        ? `Revoked ${new Date(link.revoked_at as string).toLocaleString()}`
+                        : `${status === "expired" ? "Expired" : "Expires"} ${new Date(link.expires_at).toLocaleString()}`}
+                    </span>
+                  </div>
+                  {status === "active" && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => copyLink(link.token)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(link.id)}>
+                        <Ban className="mr-1 h-4 w-4" />
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {status === "active" && (
+                  <Input readOnly value={shareUrl(link.token)} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareReceiptDialog;
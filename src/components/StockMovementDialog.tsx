@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { PackagePlus, Save } from "lucide-react";
+import type { CatalogItem } from "@/hooks/use-catalog";
+import { formatExpiry, MANUAL_MOVEMENT_TYPES, MOVEMENT_TYPES, type StockBatchLevel } from "@/lib/stock";
+
+interface StockMovementDialogProps {
+  branchId: string;
+  branchName: string;
+  /** Stock-tracked catalog items to choose from */
+  items: CatalogItem[];
+  onRecorded: () => void;
+}
+
+/**
+ * Records purchases, opening stock and manual adjustments for one branch.
+ * Stock coming in can name a batch and expiry; adjustments can target one of
+ * the batches already at the branch (e.g. writing off an expired batch).
+ */
+const StockMovementDialog = ({ branchId, branchName, items, onRecorded }: StockMovementDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [movementType, setMovementType] = useState("purchase");
+  const [itemId, setItemId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [batchNumber, setBatchNumber] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [itemBatches, setItemBatches] = useState<StockBatchLevel[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMovementType("purchase");
+    setItemId("");
+    setQuantity("");
+    setNote("");
+    setBatchNumber("");
+    setExpiryDate("");
+  }, [open]);
+
+  useEffect(() => {
+    if (!itemId) {
+      setItemBatches([]);
+      return;
+    }
+    const fetchBatches = async () => {
+      const { data } = await supabase
+        .from("stock_batch_levels")
+        .select("*")
+        .eq("catalog_item_id", itemId)
+        .eq("branch_id", branchId)
+        .order("expiry_date", { ascending: true });
+      setItemBatches(data || []);
+    };
+    fetchBatches();
+  }, [itemId, branchId]);
+
+  const existingBatch = itemBatches.find((b) => b.batch_number === batchNumber.trim());
+  const isAdjustment = movementType === "adjustment";
+
+  const handleSave = async () => {
+    const qty = Number(quantity);
+    if (!itemId) {
+      toast.error("Select an item");
+      return;
+    }
+    // Adjustments may go either way; stock coming in must be positive
+    if (!qty || (movementType !== "adjustment" && qty < 0)) {
+      toast.error(movementType === "adjustment" ? "Enter a non-zero quantity" : "Quantity must be positive");
+      return;
+    }
+    if (movementType === "adjustment" && !note.trim()) {
+      toast.error("Give a reason for the adjustment");
+      return;
+    }
+    if (batchNumber.trim() && !existingBatch && !expiryDate) {
+      toast.error("Enter the expiry date for a new batch");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("record_stock_movement", {
+        _catalog_item_id: itemId,
+        _branch_id: branchId,
+        _movement_type: movementType,
+        _quantity: qty,
+        _note: note.trim(),
+        _batch_number: batchNumber.trim() || undefined,
+        _expiry_date: existingBatch ? undefined : expiryDate || undefined,
+      });
+      if (error) throw error;
+      toast.success("Stock movement recorded");
+      onRecorded();
+      setOpen(false);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button disabled={!branchId || items.length === 0}>
+          <PackagePlus className="mr-2 h-4 w-4" />
+          Record Stock
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Stock</DialogTitle>
+          <DialogDescription>{branchName}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="movement-type">Type</Label>
+              <Select value={movementType} onValueChange={setMovementType}>
+                <SelectTrigger id="movement-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_MOVEMENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {MOVEMENT_TYPES[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movement-qty">Quantity</Label>
+              <Input
+                id="movement-qty"
+                type="number"
+                step="1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder={movementType === "adjustment" ? "-2 for breakage" : "10"}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="movement-item">Item</Label>
+            <Select value={itemId} onValueChange={setItemId}>
+              <SelectTrigger id="movement-item">
+                <SelectValue placeholder="Select item" />
+              </SelectTrigger>
+              <SelectContent>
+                {items.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name} ({item.unit})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isAdjustment ? (
+            <div className="space-y-2">
+              <Label htmlFor="movement-batch">Batch</Label>
+              <Select value={batchNumber || "none"} onValueChange={(value) => setBatchNumber(value === "none" ? "" : value)}>
+                <SelectTrigger id="movement-batch">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No batch</SelectItem>
+                  {itemBatches.map((batch) => (
+                    <SelectItem key={batch.batch_id} value={batch.batch_number || ""}>
+                      {batch.batch_number} · Exp {formatExpiry(batch.expiry_date || "")} · {Number(batch.on_hand)} left
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="movement-batch">Batch No.</Label>
+                <Input
+                  id="movement-batch"
+                  value={batchNumber}
+                  onChange={(e) => setBatchNumber(e.target.value)}
+                  placeholder="Optional"
+                  maxLength={40}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-expiry">Expiry Date</Label>
+                <Input
+                  id="movement-expiry"
+                  type="date"
+                  value={existingBatch?.expiry_date || expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  disabled={!batchNumber.trim() || Boolean(existingBatch)}
+                />
+              </div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="movement-note">Note</Label>
+            <Input
+              id="movement-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={movementType === "purchase" ? "Supplier / invoice no." : "Reason"}
+              maxLength={200}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={saving} className="w-full">
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockMovementDialog;
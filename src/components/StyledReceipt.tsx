@@ -0,0 +1,258 @@
+import type { ReceiptTemplateStyle } from "@/lib/template-style";
+import type { ReceiptLineItem } from "@/lib/catalog";
+import { taxSummary } from "@shared/gst";
+import { amountInWords, formatAdjustment, formatInr } from "@shared/money";
+import CancelledStamp from "@/components/CancelledStamp";
+import UpiQrCode from "@/components/UpiQrCode";
+import type { UpiPayee } from "@/lib/upi";
+
+export interface StyledReceiptData {
+  receipt_number: string;
+  customer_name: string;
+  age: string | null;
+  mobile_number: string;
+  address: string | null;
+  bp: string | null;
+  pulse: string | null;
+  branch: string;
+  receipt_date: string;
+  items: ReceiptLineItem[];
+  subtotal: number;
+  discount_amount?: number;
+  discount_reason?: string;
+  tax_amount: number;
+  cgst_amount?: number;
+  sgst_amount?: number;
+  igst_amount?: number;
+  supply_type?: string;
+  round_off?: number;
+  total_amount: number;
+  cancelled_at?: string | null;
+  cancellation_reason?: string;
+}
+
+export interface StyledReceiptBranch {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  gstin?: string | null;
+}
+
+interface StyledReceiptProps {
+  receipt: StyledReceiptData;
+  style: ReceiptTemplateStyle;
+  branch: StyledReceiptBranch | null;
+  /** Adds a UPI QR for `amount` beside the totals */
+  upi?: { payee: UpiPayee; amount: number } | null;
+}
+
+/**
+ * Self-contained "digital receipt" built from the template's colours and font,
+ * for patients who receive the receipt on screen rather than on the printed pad.
+ */
+const StyledReceipt = ({ receipt, style, branch, upi }: StyledReceiptProps) => {
+  const summary = taxSummary(receipt.items).filter((row) => row.tax_rate > 0);
+  const interState = receipt.supply_type === "inter";
+  const showHsn = receipt.items.some((item) => item.hsn_sac);
+  // Line discounts show in the Disc. column and come off each Amount; the
+  // bill discount shows as its own line under the subtotal
+  const showDiscount = receipt.items.some((item) => Number(item.discount_amount) > 0);
+  const lineDiscounts = receipt.items.reduce((total, item) => total + Number(item.discount_amount || 0), 0);
+  const billDiscount = Number(receipt.discount_amount || 0) - lineDiscounts;
+  const details: [string, string | null][] = [
+    ["Patient", receipt.customer_name],
+    ["Age", receipt.age],
+    ["Mobile", receipt.mobile_number],
+    ["Address", receipt.address],
+    ["BP", receipt.bp],
+    ["Pulse", receipt.pulse],
+  ];
+
+  return (
+    <div
+      className="styled-receipt relative mx-auto w-full overflow-hidden rounded-lg border shadow-strong"
+      style={{
+        maxWidth: '794px',
+        backgroundColor: style.body_bg_color,
+        color: style.body_text_color,
+        fontFamily: style.font_family,
+      }}
+    >
+      {/* Header */}
+      <div
+        className="flex flex-wrap items-start justify-between gap-4 px-8 py-6"
+        style={{ backgroundColor: style.header_bg_color, color: style.header_text_color }}
+      >
+        <div>
+          <h2 className="text-2xl font-bold">{branch?.name || receipt.branch}</h2>
+          {branch?.address && <p className="mt-1 text-sm opacity-80">{branch.address}</p>}
+          {branch?.phone && <p className="text-sm opacity-80">Phone: {branch.phone}</p>}
+          {branch?.gstin && <p className="text-sm opacity-80">GSTIN: {branch.gstin}</p>}
+        </div>
+        <div className="text-right">
+          <p className="text-xl font-bold tracking-widest">RECEIPT</p>
+          <p className="mt-1 text-sm">No. {receipt.receipt_number}</p>
+          <p className="text-sm">{new Date(receipt.receipt_date).toLocaleDateString('en-GB')}</p>
+        </div>
+      </div>
+
+      <div className="space-y-6 px-8 py-6">
+        {/* Patient details */}
+        <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm md:grid-cols-3">
+          {details.map(([label, value]) => (
+            <div key={label}>
+              <span className="block text-xs uppercase tracking-wide opacity-60">{label}</span>
+              <span className="font-semibold">{value || '-'}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Items */}
+        <table className="w-full text-sm">
+          <thead>
+            <tr style={{ borderBottom: `2px solid ${style.accent_color}` }}>
+              <th className="py-2 text-left font-semibold">#</th>
+              <th className="py-2 text-left font-semibold">Item</th>
+              {showHsn && <th className="py-2 text-left font-semibold">HSN/SAC</th>}
+              <th className="py-2 text-center font-semibold">Qty</th>
+              <th className="py-2 text-right font-semibold">Price</th>
+              {showDiscount && <th className="py-2 text-right font-semibold">Disc.</th>}
+              <th className="py-2 text-right font-semibold">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {receipt.items.map((item, index) => (
+              <tr key={index} style={{ borderBottom: `1px solid ${style.body_text_color}1a` }}>
+                <td className="py-2">{index + 1}</td>
+                <td className="py-2">{item.name}</td>
+                {showHsn && <td className="py-2">{item.hsn_sac}</td>}
+                <td className="py-2 text-center">{item.quantity}</td>
+                <td className="py-2 text-right">{formatInr(item.price)}</td>
+                {showDiscount && (
+                  <td className="py-2 text-right">
+                    {Number(item.discount_amount) > 0 ? `-${formatInr(item.discount_amount)}` : '-'}
+                  </td>
+                )}
+                <td className="py-2 text-right">
+                  {formatInr(item.quantity * item.price - Number(item.discount_amount || 0))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Tax summary per HSN/SAC code and rate */}
+        {summary.length > 0 && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr style={{ borderBottom: `1px solid ${style.accent_color}` }}>
+                <th className="py-1 text-left font-semibold">HSN/SAC</th>
+                <th className="py-1 text-right font-semibold">Taxable</th>
+                {interState ? (
+                  <th className="py-1 text-right font-semibold">IGST</th>
+                ) : (
+                  <>
+                    <th className="py-1 text-right font-semibold">CGST</th>
+                    <th className="py-1 text-right font-semibold">SGST</th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map((row) => (
+                <tr key={`${row.hsn_sac}-${row.tax_rate}`}>
+                  <td className="py-1">{row.hsn_sac || '-'}</td>
+                  <td className="py-1 text-right">{formatInr(row.taxable_value)}</td>
+                  {interState ? (
+                    <td className="py-1 text-right">
+                      {row.tax_rate}% {formatInr(row.igst_amount)}
+                    </td>
+                  ) : (
+                    <>
+                      <td className="py-1 text-right">
+                        {row.tax_rate / 2}% {formatInr(row.cgst_amount)}
+                      </td>
+                      <td className="py-1 text-right">
+                        {row.tax_rate / 2}% {formatInr(row.sgst_amount)}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {/* Totals, with the payment QR on the left while a balance is due */}
+        <div className="flex flex-wrap items-start justify-between gap-6">
+          {upi ? (
+            <UpiQrCode payee={upi.payee} amount={upi.amount} receiptNumber={receipt.receipt_number} className="w-36" />
+          ) : (
+            <div />
+          )}
+          <div className="w-full max-w-xs space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>{formatInr(receipt.subtotal - lineDiscounts)}</span>
+            </div>
+            {billDiscount >= 0.01 && (
+              <div className="flex justify-between">
+                <span>Discount</span>
+                <span>-{formatInr(billDiscount)}</span>
+              </div>
+            )}
+            {Number(receipt.discount_amount) > 0 && receipt.discount_reason && (
+              <p className="text-xs opacity-60">Discount: {receipt.discount_reason}</p>
+            )}
+            {receipt.cgst_amount === undefined ? (
+              <div className="flex justify-between">
+                <span>Tax</span>
+                <span>{formatInr(receipt.tax_amount)}</span>
+              </div>
+            ) : interState ? (
+              <div className="flex justify-between">
+                <span>IGST</span>
+                <span>{formatInr(receipt.igst_amount)}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span>CGST</span>
+                  <span>{formatInr(receipt.cgst_amount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>SGST</span>
+                  <span>{formatInr(receipt.sgst_amount)}</span>
+                </div>
+              </>
+            )}
+            {Number(receipt.round_off) !== 0 && (
+              <div className="flex justify-between">
+                <span>Round off</span>
+                <span>{formatAdjustment(receipt.round_off)}</span>
+              </div>
+            )}
+            <div
+              className="flex justify-between border-t pt-2 text-lg font-bold"
+              style={{ borderColor: style.accent_color, color: style.accent_color }}
+            >
+              <span>Total</span>
+              <span>{formatInr(receipt.total_amount)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="text-sm">
+          <p className="font-medium">{amountInWords(receipt.total_amount)}</p>
+          <p className="opacity-60">{amountInWords(receipt.total_amount, "hi")}</p>
+        </div>
+
+        <p className="pt-4 text-center text-xs opacity-60">Thank you for your visit.</p>
+      </div>
+
+      {receipt.cancelled_at && <CancelledStamp reason={receipt.cancellation_reason} />}
+    </div>
+  );
+};
+
+export default StyledReceipt;
@@ -0,0 +1,86 @@
+import { useState, type ChangeEvent } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ImageUp, RotateCcw } from "lucide-react";
+import { templateBackgroundUrl } from "@/lib/receipt-pdf";
+
+interface TemplateBackgroundPickerProps {
+  id: string;
+  value: string | null;
+  onChange: (url: string | null) => void;
+}
+
+/** Uploads a letterhead image to the `templates` bucket; empty means the bundled prescription pad. */
+const TemplateBackgroundPicker = ({ id, value, onChange }: TemplateBackgroundPickerProps) => {
+  const [uploading, setUploading] = useState(false);
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      const fileExt = file.name.split('.').pop();
+      const fileName = `backgrounds/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('templates')
+        .upload(fileName, file, { upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('templates')
+        .getPublicUrl(fileName);
+
+      onChange(publicUrl);
+      toast.success("Background uploaded");
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <img
+        src={templateBackgroundUrl(value)}
+        alt="Template background"
+        className="h-24 w-[68px] rounded border object-cover"
+      />
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          {value ? "Custom letterhead" : "Default prescription pad"}
+        </p>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" disabled={uploading} asChild>
+            <label htmlFor={id} className="cursor-pointer">
+              <ImageUp className="mr-2 h-4 w-4" />
+              {uploading ? "Uploading..." : "Upload Image"}
+              <input
+                id={id}
+                type="file"
+                accept="image/jpeg,image/png"
+                className="hidden"
+                onChange={handleUpload}
+                disabled={uploading}
+              />
+            </label>
+          </Button>
+          {value && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Use Default
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">JPEG or PNG, A4 portrait.</p>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateBackgroundPicker;
@@ -0,0 +1,342 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, QrCode, RotateCcw, Trash2 } from "lucide-react";
+import prescriptionTemplate from "@/assets/prescription-template.jpg";
+import {
+  DEFAULT_RECEIPT_LAYOUT,
+  FIELD_FONT_PX,
+  ITEM_FONT_PX,
+  RECEIPT_LAYOUT_FIELDS,
+  UPI_QR_WIDTH,
+  type LayoutPosition,
+  type ReceiptFieldKey,
+  type ReceiptLayout,
+} from "@shared/receipt-layout";
+import { formatInr } from "@shared/money";
+
+interface TemplateLayoutEditorProps {
+  layout: ReceiptLayout;
+  onChange: (layout: ReceiptLayout) => void;
+  backgroundUrl?: string;
+}
+
+// Element ids: "field:<key>", "items", "upi_qr" or "text:<id>"
+type ElementId = string;
+
+interface DragState {
+  id: ElementId;
+  pointerX: number;
+  pointerY: number;
+  origin: LayoutPosition & { right?: number };
+}
+
+const SAMPLE_VALUES: Record<ReceiptFieldKey, string> = {
+  receipt_number: "No. SCB/2026-27/000123",
+  customer_name: "Patient Name",
+  age: "35",
+  receipt_date: "19/10/2026",
+  address: "Address line",
+  bp: "120/80",
+  pulse: "72",
+};
+
+// Width of the on-screen receipt that font sizes are specified against
+const SCREEN_WIDTH_PX = 794;
+
+const clamp = (value: number, min = 0, max = 100) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const TemplateLayoutEditor = ({ layout, onChange, backgroundUrl = prescriptionTemplate }: TemplateLayoutEditorProps) => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [scale, setScale] = useState(1);
+  const [selected, setSelected] = useState<ElementId | null>(null);
+
+  // Font sizes are in screen pixels, so scale them with the preview's width
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => setScale(entry.contentRect.width / SCREEN_WIDTH_PX));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const positionOf = (id: ElementId): (LayoutPosition & { right?: number }) | null => {
+    if (id === "items") return layout.items;
+    if (id === "upi_qr") return layout.upi_qr;
+    if (id.startsWith("field:")) return layout.fields[id.slice(6) as ReceiptFieldKey];
+    return layout.custom_texts.find((t) => `text:${t.id}` === id) || null;
+  };
+
+  const moveElement = (id: ElementId, top: number, left: number, origin: DragState["origin"]): ReceiptLayout => {
+    if (id === "items") {
+      // The items block keeps its width, so left and right move together
+      const width = 100 - origin.left - (origin.right ?? 0);
+      const boundedLeft = clamp(left, 0, 100 - width);
+      return { ...layout, items: { top: round(top), left: round(boundedLeft), right: round(100 - width - boundedLeft) } };
+    }
+    if (id === "upi_qr") {
+      return { ...layout, upi_qr: { top: round(top), left: round(clamp(left, 0, 100 - UPI_QR_WIDTH)) } };
+    }
+    if (id.startsWith("field:")) {
+      const key = id.slice(6) as ReceiptFieldKey;
+      return { ...layout, fields: { ...layout.fields, [key]: { top: round(top), left: round(left) } } };
+    }
+    return {
+      ...layout,
+      custom_texts: layout.custom_texts.map((t) => (`text:${t.id}` === id ? { ...t, top: round(top), left: round(left) } : t)),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>, id: ElementId) => {
+    const origin = positionOf(id);
+    if (!origin) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { id, pointerX: e.clientX, pointerY: e.clientY, origin: { ...origin } };
+    setSelected(id);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const canvas = canvasRef.current;
+    if (!drag || !canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const left = clamp(drag.origin.left + ((e.clientX - drag.pointerX) / rect.width) * 100);
+    const top = clamp(drag.origin.top + ((e.clientY - drag.pointerY) / rect.height) * 100);
+    onChange(moveElement(drag.id, top, left, drag.origin));
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const setSelectedPosition = (axis: "top" | "left", value: string) => {
+    if (!selected) return;
+    const current = positionOf(selected);
+    const number = parseFloat(value);
+    if (!current || !Number.isFinite(number)) return;
+    const next = { ...current, [axis]: clamp(number) };
+    onChange(moveElement(selected, next.top, next.left, current));
+  };
+
+  const addCustomText = () => {
+    const id = crypto.randomUUID();
+    onChange({
+      ...layout,
+      custom_texts: [...layout.custom_texts, { id, text: "Custom text", top: 50, left: 40, color: "#000000", font_size: 14 }],
+    });
+    setSelected(`text:${id}`);
+  };
+
+  const updateCustomText = (id: string, changes: Partial<ReceiptLayout["custom_texts"][number]>) => {
+    onChange({ ...layout, custom_texts: layout.custom_texts.map((t) => (t.id === id ? { ...t, ...changes } : t)) });
+  };
+
+  const removeCustomText = (id: string) => {
+    onChange({ ...layout, custom_texts: layout.custom_texts.filter((t) => t.id !== id) });
+    if (selected === `text:${id}`) setSelected(null);
+  };
+
+  const labelOf = (id: ElementId) => {
+    if (id === "items") return "Items";
+    if (id === "upi_qr") return "UPI QR (printed while a balance is due)";
+    if (id.startsWith("field:")) return RECEIPT_LAYOUT_FIELDS.find((f) => `field:${f.key}` === id)?.label;
+    return layout.custom_texts.find((t) => `text:${t.id}` === id)?.text || "Custom text";
+  };
+
+  const handleProps = (id: ElementId) => ({
+    onPointerDown: (e: PointerEvent<HTMLDivElement>) => handlePointerDown(e, id),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    className: `absolute cursor-move touch-none select-none whitespace-nowrap rounded-sm font-semibold outline-dashed outline-1 ${
+      selected === id ? "bg-primary/15 outline-primary" : "outline-muted-foreground/50 hover:bg-primary/10"
+    }`,
+  });
+
+  const selectedPosition = selected ? positionOf(selected) : null;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_280px]">
+      <div
+        ref={canvasRef}
+        className="relative mx-auto w-full max-w-[560px] overflow-hidden rounded border bg-white"
+        style={{ aspectRatio: '210/297' }}
+        onPointerDown={(e) => {
+          if (e.target === e.currentTarget) setSelected(null);
+        }}
+      >
+        <img src={backgroundUrl} alt="Prescription Template" className="pointer-events-none absolute inset-0 h-full w-full object-fill" />
+
+        {RECEIPT_LAYOUT_FIELDS.map(({ key }) => (
+          <div
+            key={key}
+            {...handleProps(`field:${key}`)}
+            style={{
+              top: `${layout.fields[key].top}%`,
+              left: `${layout.fields[key].left}%`,
+              fontSize: `${FIELD_FONT_PX * scale}px`,
+              color: '#000',
+            }}
+          >
+            {SAMPLE_VALUES[key]}
+          </div>
+        ))}
+
+        <div
+          {...handleProps("items")}
+          style={{
+            top: `${layout.items.top}%`,
+            left: `${layout.items.left}%`,
+            right: `${layout.items.right}%`,
+            fontSize: `${ITEM_FONT_PX * scale}px`,
+            color: '#000',
+          }}
+        >
+          {["Medicine A", "Consultation"].map((name, index) => (
+            <div key={name} className="flex justify-between" style={{ marginBottom: `${8 * scale}px` }}>
+              <span style={{ width: '50%' }}>{name}</span>
+              <span style={{ width: '20%', textAlign: 'center' }}>Qty: {index + 1}</span>
+              <span style={{ width: '30%', textAlign: 'right' }}>{formatInr(250 * (index + 1))}</span>
+            </div>
+          ))}
+        </div>
+
+        <div
+          {...handleProps("upi_qr")}
+          style={{
+            top: `${layout.upi_qr.top}%`,
+            left: `${layout.upi_qr.left}%`,
+            width: `${UPI_QR_WIDTH}%`,
+            aspectRatio: '1',
+            fontSize: `${FIELD_FONT_PX * scale}px`,
+            color: '#000',
+          }}
+        >
+          <div className="flex h-full w-full flex-col items-center justify-center gap-1 bg-white/70">
+            <QrCode className="h-1/2 w-1/2" />
+            UPI QR
+          </div>
+        </div>
+
+        {layout.custom_texts.map((text) => (
+          <div
+            key={text.id}
+            {...handleProps(`text:${text.id}`)}
+            style={{
+              top: `${text.top}%`,
+              left: `${text.left}%`,
+              color: text.color,
+              fontSize: `${text.font_size * scale}px`,
+            }}
+          >
+            {text.text || "(empty)"}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <h3 className="font-semibold text-foreground">Position</h3>
+          {selected && selectedPosition ? (
+            <>
+              <p className="text-sm text-muted-foreground">{labelOf(selected)}</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="layout-left">Left (%)</Label>
+                  <Input
+                    id="layout-left"
+                    type="number"
+                    step="0.1"
+                    value={selectedPosition.left}
+                    onChange={(e) => setSelectedPosition("left", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="layout-top">Top (%)</Label>
+                  <Input
+                    id="layout-top"
+                    type="number"
+                    step="0.1"
+                    value={selectedPosition.top}
+                    onChange={(e) => setSelectedPosition("top", e.target.value)}
+                  />
+                </div>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">Drag a field on the prescription, or click one to fine-tune it.</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-foreground">Custom Text</h3>
+            <Button type="button" variant="outline" size="sm" onClick={addCustomText}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {layout.custom_texts.length === 0 && (
+            <p className="text-sm text-muted-foreground">No custom text boxes.</p>
+          )}
+          {layout.custom_texts.map((text) => (
+            <div
+              key={text.id}
+              className={`space-y-2 rounded-lg border p-3 ${selected === `text:${text.id}` ? "border-primary" : ""}`}
+              onFocus={() => setSelected(`text:${text.id}`)}
+            >
+              <Input
+                value={text.text}
+                onChange={(e) => updateCustomText(text.id, { text: e.target.value })}
+                placeholder="Text to show on the receipt"
+              />
+              <div className="flex items-center gap-2">
+                <Input
+                  type="color"
+                  value={text.color}
+                  onChange={(e) => updateCustomText(text.id, { color: e.target.value })}
+                  className="w-14"
+                />
+                <Input
+                  type="number"
+                  min="8"
+                  max="72"
+                  value={text.font_size}
+                  onChange={(e) => updateCustomText(text.id, { font_size: Number(e.target.value) || 14 })}
+                  className="w-20"
+                  aria-label="Font size (px)"
+                />
+                <span className="text-xs text-muted-foreground">px</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => removeCustomText(text.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange({ ...DEFAULT_RECEIPT_LAYOUT, custom_texts: layout.custom_texts })}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset Field Positions
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLayoutEditor;
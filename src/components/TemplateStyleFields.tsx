@@ -0,0 +1,64 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TEMPLATE_COLOR_FIELDS, TEMPLATE_FONTS, type ReceiptTemplateStyle } from "@/lib/template-style";
+
+interface TemplateStyleFieldsProps {
+  idPrefix: string;
+  value: ReceiptTemplateStyle;
+  onChange: (value: ReceiptTemplateStyle) => void;
+}
+
+/** Colour and font inputs for the digital receipt, with a small live preview. */
+const TemplateStyleFields = ({ idPrefix, value, onChange }: TemplateStyleFieldsProps) => (
+  <div className="space-y-4">
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {TEMPLATE_COLOR_FIELDS.map(({ key, label }) => (
+        <div key={key}>
+          <Label htmlFor={`${idPrefix}-${key}`}>{label}</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${idPrefix}-${key}`}
+              type="color"
+              value={value[key]}
+              onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+              className="w-16"
+            />
+            <Input value={value[key]} onChange={(e) => onChange({ ...value, [key]: e.target.value })} />
+          </div>
+        </div>
+      ))}
+      <div>
+        <Label htmlFor={`${idPrefix}-font`}>Font</Label>
+        <Select value={value.font_family} onValueChange={(font_family) => onChange({ ...value, font_family })}>
+          <SelectTrigger id={`${idPrefix}-font`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[...new Set([value.font_family, ...TEMPLATE_FONTS])].map((font) => (
+              <SelectItem key={font} value={font} style={{ fontFamily: font }}>
+                {font}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+
+    <div
+      className="overflow-hidden rounded-lg border text-sm"
+      style={{ backgroundColor: value.body_bg_color, color: value.body_text_color, fontFamily: value.font_family }}
+    >
+      <div className="flex justify-between px-4 py-3" style={{ backgroundColor: value.header_bg_color, color: value.header_text_color }}>
+        <span className="font-bold">Branch Name</span>
+        <span className="font-bold tracking-widest">RECEIPT</span>
+      </div>
+      <div className="flex justify-between px-4 py-3">
+        <span>Consultation × 1</span>
+        <span className="font-bold" style={{ color: value.accent_color }}>Total ₹500.00</span>
+      </div>
+    </div>
+  </div>
+);
+
+export default TemplateStyleFields;
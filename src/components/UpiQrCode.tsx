@@ -0,0 +1,39 @@
+import type { CSSProperties } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { upiPaymentUri, type UpiPayee } from "@/lib/upi";
+import { formatInr } from "@shared/money";
+
+interface UpiQrCodeProps {
+  payee: UpiPayee;
+  amount: number;
+  receiptNumber: string;
+  /** Text size of the caption, in px */
+  fontSize?: number;
+  className?: string;
+  style?: CSSProperties;
+}
+
+/**
+ * Scan-to-pay QR for the amount still due, drawn as SVG in the browser so it
+ * prints sharply and nothing leaves the device. Fills the width of its parent.
+ */
+const UpiQrCode = ({ payee, amount, receiptNumber, fontSize = 11, className, style }: UpiQrCodeProps) => (
+  <div
+    className={className}
+    style={{ fontSize: `${fontSize}px`, lineHeight: 1.3, textAlign: 'center', color: '#000', ...style }}
+  >
+    <div style={{ background: '#fff', padding: '4%' }}>
+      <QRCodeSVG
+        value={upiPaymentUri(payee, amount, `Receipt ${receiptNumber}`)}
+        size={256}
+        level="M"
+        marginSize={0}
+        style={{ display: 'block', width: '100%', height: 'auto' }}
+      />
+    </div>
+    <div className="mt-1 font-semibold">Scan to pay {formatInr(amount)}</div>
+    <div style={{ wordBreak: 'break-all' }}>{payee.vpa}</div>
+  </div>
+);
+
+export default UpiQrCode;
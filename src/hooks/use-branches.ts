@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Branch = Tables<"branches">;
+
+/**
+ * Loads the clinic branches from the `branches` table, sorted by name.
+ * Retired branches are included so that old receipts can still be filtered
+ * by them; use `activeBranches` for anything that creates new records.
+ */
+export function useBranches() {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const { data } = await supabase
+      .from("branches")
+      .select("*")
+      .order("name", { ascending: true });
+    setBranches(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const activeBranches = useMemo(() => branches.filter((b) => b.is_active), [branches]);
+
+  return {
+    branches,
+    activeBranches,
+    loading,
+    refetch,
+  };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CatalogItem = Tables<"catalog_items">;
+
+/**
+ * Loads the product and service catalog, sorted by name. Inactive items are
+ * kept so old receipts can still be grouped under them; only offer
+ * `activeItems` when picking items for a new receipt.
+ */
+export function useCatalog() {
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const { data } = await supabase
+      .from("catalog_items")
+      .select("*")
+      .order("name", { ascending: true });
+    setItems(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const activeItems = useMemo(() => items.filter((i) => i.is_active), [items]);
+
+  return {
+    items,
+    activeItems,
+    loading,
+    refetch,
+  };
+}
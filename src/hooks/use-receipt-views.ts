@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ReceiptView } from "@/lib/receipt-search";
+
+/**
+ * The signed-in user's saved receipt views from `receipt_views`, pinned ones
+ * first and then by name. `pinnedViews` holds just the pinned ones.
+ */
+export function useReceiptViews() {
+  const [views, setViews] = useState<ReceiptView[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const { data } = await supabase
+      .from("receipt_views")
+      .select("*")
+      .order("pinned", { ascending: false })
+      .order("name", { ascending: true });
+    setViews(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const pinnedViews = useMemo(() => views.filter((v) => v.pinned), [views]);
+
+  return {
+    views,
+    pinnedViews,
+    loading,
+    refetch,
+  };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { StockBatchLevel } from "@/lib/stock";
+
+/**
+ * Batches that still hold stock, earliest expiry first, from the
+ * `stock_batch_levels` view. Includes batches that have already expired.
+ */
+export function useStockBatches() {
+  const [batches, setBatches] = useState<StockBatchLevel[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const { data } = await supabase
+      .from("stock_batch_levels")
+      .select("*")
+      .gt("on_hand", 0)
+      .order("expiry_date", { ascending: true });
+    setBatches(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    batches,
+    loading,
+    refetch,
+  };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { stockStatus, type StockLevel } from "@/lib/stock";
+
+/**
+ * Current stock of every stock-tracked catalog item at every branch, from the
+ * `stock_levels` view. `lowStock` holds the rows at or below their reorder level.
+ */
+export function useStockLevels() {
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    const { data } = await supabase
+      .from("stock_levels")
+      .select("*")
+      .order("name", { ascending: true });
+    setLevels(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  const lowStock = useMemo(() => levels.filter((l) => stockStatus(l) !== "ok"), [levels]);
+
+  return {
+    levels,
+    lowStock,
+    loading,
+    refetch,
+  };
+}
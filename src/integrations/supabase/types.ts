@@ -14,29 +14,238 @@ export type Database = {
   }
   public: {
     Tables: {
-      contacts: {
+      branches: {
         Row: {
+          address: string
+          code: string
           created_at: string | null
-          customer_name: string
+          gstin: string
           id: string
-          mobile_number: string
+          is_active: boolean
+          name: string
+          phone: string
+          state_code: string
           updated_at: string | null
-          user_id: string
+          upi_payee_name: string
+          upi_vpa: string
         }
         Insert: {
+          address?: string
+          code: string
           created_at?: string | null
-          customer_name: string
+          gstin?: string
           id?: string
-          mobile_number: string
+          is_active?: boolean
+          name: string
+          phone?: string
+          state_code?: string
           updated_at?: string | null
-          user_id: string
+          upi_payee_name?: string
+          upi_vpa?: string
         }
         Update: {
+          address?: string
+          code?: string
           created_at?: string | null
-          customer_name?: string
+          gstin?: string
           id?: string
-          mobile_number?: string
+          is_active?: boolean
+          name?: string
+          phone?: string
+          state_code?: string
+          updated_at?: string | null
+          upi_payee_name?: string
+          upi_vpa?: string
+        }
+        Relationships: []
+      }
+      catalog_items: {
+        Row: {
+          created_at: string | null
+          default_price: number
+          hsn_sac: string
+          id: string
+          is_active: boolean
+          kind: string
+          name: string
+          reorder_level: number
+          tax_rate: number
+          track_stock: boolean
+          unit: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          default_price?: number
+          hsn_sac?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name: string
+          reorder_level?: number
+          tax_rate?: number
+          track_stock?: boolean
+          unit?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          default_price?: number
+          hsn_sac?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          name?: string
+          reorder_level?: number
+          tax_rate?: number
+          track_stock?: boolean
+          unit?: string
           updated_at?: string | null
+        }
+        Relationships: []
+      }
+      credit_notes: {
+        Row: {
+          amount: number
+          branch_id: string | null
+          created_at: string
+          created_by: string
+          credit_note_number: string
+          id: string
+          note_date: string
+          reason: string
+          receipt_id: string
+          refund_mode: string
+        }
+        Insert: {
+          amount: number
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string
+          credit_note_number: string
+          id?: string
+          note_date?: string
+          reason: string
+          receipt_id: string
+          refund_mode?: string
+        }
+        Update: {
+          amount?: number
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string
+          credit_note_number?: string
+          id?: string
+          note_date?: string
+          reason?: string
+          receipt_id?: string
+          refund_mode?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_logs: {
+        Row: {
+          body: string
+          channel: string
+          created_at: string
+          error: string | null
+          id: string
+          provider: string
+          provider_message_id: string | null
+          receipt_id: string | null
+          recipient: string
+          sent_by: string
+          status: string
+        }
+        Insert: {
+          body: string
+          channel: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider: string
+          provider_message_id?: string | null
+          receipt_id?: string | null
+          recipient: string
+          sent_by: string
+          status: string
+        }
+        Update: {
+          body?: string
+          channel?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider?: string
+          provider_message_id?: string | null
+          receipt_id?: string | null
+          recipient?: string
+          sent_by?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_logs_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patients: {
+        Row: {
+          address: string
+          age: string | null
+          created_at: string
+          date_of_birth: string | null
+          gender: string | null
+          id: string
+          mobile_number: string
+          name: string
+          notes: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address?: string
+          age?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          gender?: string | null
+          id?: string
+          mobile_number: string
+          name: string
+          notes?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          age?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          gender?: string | null
+          id?: string
+          mobile_number?: string
+          name?: string
+          notes?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
@@ -50,6 +259,8 @@ export type Database = {
           phone: string | null
           profile_image_url: string | null
           updated_at: string | null
+          upi_payee_name: string
+          upi_vpa: string
         }
         Insert: {
           created_at?: string | null
@@ -59,6 +270,8 @@ export type Database = {
           phone?: string | null
           profile_image_url?: string | null
           updated_at?: string | null
+          upi_payee_name?: string
+          upi_vpa?: string
         }
         Update: {
           created_at?: string | null
@@ -68,12 +281,158 @@ export type Database = {
           phone?: string | null
           profile_image_url?: string | null
           updated_at?: string | null
+          upi_payee_name?: string
+          upi_vpa?: string
         }
         Relationships: []
       }
+      receipt_number_sequences: {
+        Row: {
+          branch_id: string
+          financial_year: string
+          last_value: number
+        }
+        Insert: {
+          branch_id: string
+          financial_year: string
+          last_value?: number
+        }
+        Update: {
+          branch_id?: string
+          financial_year?: string
+          last_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_number_sequences_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string
+          id: string
+          mode: string
+          paid_on: string
+          receipt_id: string
+          reference: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string
+          id?: string
+          mode: string
+          paid_on?: string
+          receipt_id: string
+          reference?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string
+          id?: string
+          mode?: string
+          paid_on?: string
+          receipt_id?: string
+          reference?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_payments_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_revisions: {
+        Row: {
+          created_at: string | null
+          edited_by: string | null
+          id: string
+          receipt_id: string | null
+          receipt_number: string | null
+          revision_number: number
+          snapshot: Json
+        }
+        Insert: {
+          created_at?: string | null
+          edited_by?: string | null
+          id?: string
+          receipt_id?: string | null
+          receipt_number?: string | null
+          revision_number: number
+          snapshot: Json
+        }
+        Update: {
+          created_at?: string | null
+          edited_by?: string | null
+          id?: string
+          receipt_id?: string | null
+          receipt_number?: string | null
+          revision_number?: number
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_revisions_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_share_links: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          receipt_id: string
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          expires_at: string
+          id?: string
+          receipt_id: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          receipt_id?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_share_links_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       receipt_templates: {
         Row: {
           accent_color: string | null
+          background_image_url: string | null
           body_bg_color: string | null
           body_text_color: string | null
           created_at: string | null
@@ -87,11 +446,13 @@ export type Database = {
           header_text_color: string | null
           id: string
           is_default: boolean | null
+          layout: Json
           name: string
           updated_at: string | null
         }
         Insert: {
           accent_color?: string | null
+          background_image_url?: string | null
           body_bg_color?: string | null
           body_text_color?: string | null
           created_at?: string | null
@@ -105,11 +466,13 @@ export type Database = {
           header_text_color?: string | null
           id?: string
           is_default?: boolean | null
+          layout?: Json
           name: string
           updated_at?: string | null
         }
         Update: {
           accent_color?: string | null
+          background_image_url?: string | null
           body_bg_color?: string | null
           body_text_color?: string | null
           created_at?: string | null
@@ -123,25 +486,76 @@ export type Database = {
           header_text_color?: string | null
           id?: string
           is_default?: boolean | null
+          layout?: Json
           name?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      receipt_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          pinned: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          pinned?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          pinned?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       receipts: {
         Row: {
           address: string
           age: string | null
+          amount_paid: number
+          bill_discount_type: string
+          bill_discount_value: number
           bp: string | null
           branch: string
+          branch_id: string | null
+          cancellation_reason: string
+          cancelled_at: string | null
+          cancelled_by: string | null
+          cgst_amount: number
           created_at: string | null
           customer_name: string
+          discount_amount: number
+          discount_reason: string
           id: string
+          igst_amount: number
           items: Json
           mobile_number: string
+          patient_id: string | null
+          payment_status: string | null
+          place_of_supply: string
           pulse: string | null
           receipt_date: string
+          receipt_number: string
+          round_off: number
+          rounding_mode: string
+          search_text: string | null
+          sgst_amount: number
           subtotal: number
+          supply_type: string
           tax_amount: number
           template_id: string | null
           total_amount: number
@@ -151,16 +565,35 @@ export type Database = {
         Insert: {
           address?: string
           age?: string | null
+          amount_paid?: number
+          bill_discount_type?: string
+          bill_discount_value?: number
           bp?: string | null
-          branch?: string
+          branch: string
+          branch_id?: string | null
+          cancellation_reason?: string
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cgst_amount?: number
           created_at?: string | null
           customer_name: string
+          discount_amount?: number
+          discount_reason?: string
           id?: string
+          igst_amount?: number
           items: Json
           mobile_number: string
+          patient_id?: string | null
+          payment_status?: never
+          place_of_supply?: string
           pulse?: string | null
           receipt_date: string
+          receipt_number?: string
+          round_off?: number
+          rounding_mode?: string
+          sgst_amount?: number
           subtotal: number
+          supply_type?: string
           tax_amount: number
           template_id?: string | null
           total_amount: number
@@ -170,16 +603,35 @@ export type Database = {
         Update: {
           address?: string
           age?: string | null
+          amount_paid?: number
+          bill_discount_type?: string
+          bill_discount_value?: number
           bp?: string | null
           branch?: string
+          branch_id?: string | null
+          cancellation_reason?: string
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cgst_amount?: number
           created_at?: string | null
           customer_name?: string
+          discount_amount?: number
+          discount_reason?: string
           id?: string
+          igst_amount?: number
           items?: Json
           mobile_number?: string
+          patient_id?: string | null
+          payment_status?: never
+          place_of_supply?: string
           pulse?: string | null
           receipt_date?: string
+          receipt_number?: string
+          round_off?: number
+          rounding_mode?: string
+          sgst_amount?: number
           subtotal?: number
+          supply_type?: string
           tax_amount?: number
           template_id?: string | null
           total_amount?: number
@@ -187,6 +639,20 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "receipts_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "receipts_template_id_fkey"
             columns: ["template_id"]
@@ -217,6 +683,119 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_batches: {
+        Row: {
+          batch_number: string
+          branch_id: string
+          catalog_item_id: string
+          created_at: string
+          expiry_date: string
+          id: string
+        }
+        Insert: {
+          batch_number: string
+          branch_id: string
+          catalog_item_id: string
+          created_at?: string
+          expiry_date: string
+          id?: string
+        }
+        Update: {
+          batch_number?: string
+          branch_id?: string
+          catalog_item_id?: string
+          created_at?: string
+          expiry_date?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_batches_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_batches_catalog_item_id_fkey"
+            columns: ["catalog_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalog_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          batch_id: string | null
+          branch_id: string
+          catalog_item_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: string
+          note: string
+          quantity: number
+          receipt_id: string | null
+          receipt_number: string | null
+        }
+        Insert: {
+          batch_id?: string | null
+          branch_id: string
+          catalog_item_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: string
+          note?: string
+          quantity: number
+          receipt_id?: string | null
+          receipt_number?: string | null
+        }
+        Update: {
+          batch_id?: string | null
+          branch_id?: string
+          catalog_item_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: string
+          note?: string
+          quantity?: number
+          receipt_id?: string | null
+          receipt_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "stock_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_catalog_item_id_fkey"
+            columns: ["catalog_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalog_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -240,9 +819,48 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      stock_batch_levels: {
+        Row: {
+          batch_id: string | null
+          batch_number: string | null
+          branch_id: string | null
+          catalog_item_id: string | null
+          expiry_date: string | null
+          name: string | null
+          on_hand: number | null
+          unit: string | null
+        }
+        Relationships: []
+      }
+      stock_levels: {
+        Row: {
+          branch_id: string | null
+          catalog_item_id: string | null
+          name: string | null
+          on_hand: number | null
+          reorder_level: number | null
+          unit: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      cancel_receipt: {
+        Args: { _reason: string; _receipt_id: string }
+        Returns: undefined
+      }
+      financial_year_label: { Args: { _date: string }; Returns: string }
+      format_receipt_number: {
+        Args: {
+          _branch_code: string
+          _date: string
+          _financial_year: string
+          _format: string
+          _seq: number
+        }
+        Returns: string
+      }
+      get_shared_receipt: { Args: { _token: string }; Returns: Json }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -250,10 +868,77 @@ export type Database = {
         }
         Returns: boolean
       }
+      issue_credit_note: {
+        Args: {
+          _amount: number
+          _reason: string
+          _receipt_id: string
+          _refund_mode?: string
+        }
+        Returns: Database["public"]["Tables"]["credit_notes"]["Row"]
+      }
       make_user_admin_by_email: {
         Args: { user_email: string }
         Returns: undefined
       }
+      next_receipt_number: {
+        Args: { _branch_id: string; _date: string }
+        Returns: string
+      }
+      price_receipt_items: {
+        Args: {
+          _bill_discount_type: string
+          _bill_discount_value: number
+          _items: Json
+          _supply_type: string
+        }
+        Returns: Json
+      }
+      record_stock_movement: {
+        Args: {
+          _batch_number?: string
+          _branch_id: string
+          _catalog_item_id: string
+          _expiry_date?: string
+          _movement_type: string
+          _note?: string
+          _quantity: number
+        }
+        Returns: string
+      }
+      receipt_item_names: { Args: { _items: Json }; Returns: string }
+      save_receipt: {
+        Args: {
+          _patient: Json
+          _payment?: Json
+          _receipt: Json
+          _receipt_id?: string
+        }
+        Returns: string
+      }
+      search_receipts: {
+        Args: {
+          _amount_max?: number
+          _amount_min?: number
+          _branch_id?: string
+          _catalog_item_id?: string
+          _created_by?: string
+          _date_from?: string
+          _date_to?: string
+          _item_name?: string
+          _search?: string
+          _status?: string
+          _taxed?: boolean
+          _template_id?: string
+        }
+        Returns: Database["public"]["Tables"]["receipts"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "receipts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,26 @@
+export interface BulkFailure<T> {
+  item: T;
+  message: string;
+}
+
+/**
+ * Runs `action` on each item in turn, reporting how many are done after each
+ * one. A failure doesn't stop the run; the failed items come back with their
+ * error messages.
+ */
+export async function runBulk<T>(
+  items: T[],
+  action: (item: T) => Promise<void>,
+  onProgress: (done: number) => void,
+): Promise<BulkFailure<T>[]> {
+  const failures: BulkFailure<T>[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      await action(item);
+    } catch (error) {
+      failures.push({ item, message: (error as Error).message });
+    }
+    onProgress(index + 1);
+  }
+  return failures;
+}
@@ -0,0 +1,73 @@
+import type { CatalogItem } from "@/hooks/use-catalog";
+import type { GstLineTax } from "@shared/gst";
+import type { DiscountType } from "@/lib/discount";
+
+/**
+ * A line in receipts.items. catalog_item_id is absent for free-text items; the
+ * discounts (see @/lib/discount) and GST breakdown (see @shared/gst) are
+ * stamped on when the receipt is saved.
+ */
+export interface ReceiptLineItem extends Partial<GstLineTax> {
+  name: string;
+  quantity: number;
+  price: number;
+  catalog_item_id?: string | null;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  discount_amount?: number;
+  bill_discount_share?: number;
+}
+
+export const CATALOG_KINDS = [
+  { value: "product", label: "Product" },
+  { value: "service", label: "Service" },
+];
+
+export function findCatalogItemByName(items: CatalogItem[], name: string) {
+  const key = name.trim().toLowerCase();
+  return key ? items.find((i) => i.name.toLowerCase() === key) : undefined;
+}
+
+export interface ItemSales {
+  key: string;
+  name: string;
+  catalog_item_id: string | null;
+  quantity: number;
+  amount: number;
+  receipts: number;
+}
+
+/**
+ * Totals receipt lines per catalog item. Free-text lines are grouped by their
+ * trimmed, case-insensitive name so "Paracetamol" and "paracetamol " count once.
+ */
+export function groupReceiptItems(receipts: { items: unknown }[], catalog: CatalogItem[]): ItemSales[] {
+  const catalogById = new Map(catalog.map((c) => [c.id, c]));
+  const groups = new Map<string, ItemSales>();
+
+  for (const receipt of receipts) {
+    const lines = (Array.isArray(receipt.items) ? receipt.items : []) as ReceiptLineItem[];
+    const seen = new Set<string>();
+    for (const line of lines) {
+      const catalogItem = line.catalog_item_id ? catalogById.get(line.catalog_item_id) : undefined;
+      const key = catalogItem ? catalogItem.id : `name:${(line.name || "").trim().toLowerCase()}`;
+      const group = groups.get(key) || {
+        key,
+        name: catalogItem?.name || (line.name || "").trim(),
+        catalog_item_id: catalogItem?.id ?? null,
+        quantity: 0,
+        amount: 0,
+        receipts: 0,
+      };
+      group.quantity += Number(line.quantity) || 0;
+      group.amount += (Number(line.quantity) || 0) * (Number(line.price) || 0);
+      if (!seen.has(key)) {
+        group.receipts += 1;
+        seen.add(key);
+      }
+      groups.set(key, group);
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,24 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { PAYMENT_MODES } from "@/lib/payments";
+
+export type CreditNote = Tables<"credit_notes">;
+
+/** How the credited amount went back to the patient. */
+export const REFUND_MODES: Record<string, string> = {
+  none: "No refund",
+  ...PAYMENT_MODES,
+};
+
+/** Sum of credit note amounts, to two decimals. */
+export function creditedTotal(notes: { amount: number }[]) {
+  return Math.round(notes.reduce((sum, note) => sum + Number(note.amount), 0) * 100) / 100;
+}
+
+/**
+ * What a receipt counts towards income: nothing once cancelled, otherwise its
+ * total less any credit notes against it.
+ */
+export function netReceiptAmount(receipt: { total_amount: number; cancelled_at?: string | null }, credited = 0) {
+  if (receipt.cancelled_at) return 0;
+  return Math.max(Number(receipt.total_amount) - credited, 0);
+}
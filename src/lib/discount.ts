@@ -0,0 +1,67 @@
+import { formatInr } from "@shared/money";
+
+/**
+ * Receipt discounts. Each line may have its own percentage or flat discount,
+ * and the bill may have one more on top, spread over the lines in proportion
+ * to their value after line discounts. Both are taken off before GST (see
+ * applyGst in @shared/gst), which reads discount_amount and
+ * bill_discount_share from every line.
+ */
+
+export type DiscountType = "percent" | "flat";
+
+export const DISCOUNT_TYPES: { value: DiscountType; label: string }[] = [
+  { value: "percent", label: "%" },
+  { value: "flat", label: "₹" },
+];
+
+export interface DiscountLine {
+  quantity: number;
+  price: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/** Rupees off `gross`, never more than `gross` itself. */
+export function discountOn(gross: number, type: DiscountType | undefined, value: number | undefined) {
+  const amount = type === "flat" ? Number(value) || 0 : (gross * (Number(value) || 0)) / 100;
+  return round2(Math.min(Math.max(amount, 0), Math.max(gross, 0)));
+}
+
+/**
+ * Stamps each line with its own discount_amount and its bill_discount_share.
+ * Shares are rounded to the paisa and the remainder lands on the last line
+ * with any value, so they always add up to the bill discount.
+ */
+export function applyDiscounts<T extends DiscountLine>(lines: T[], billType: DiscountType, billValue: number) {
+  const discounted = lines.map((line) => {
+    const gross = round2(Number(line.quantity) * Number(line.price));
+    const discount_amount = discountOn(gross, line.discount_type, line.discount_value);
+    return { ...line, discount_amount, net: round2(gross - discount_amount) };
+  });
+  const netTotal = round2(discounted.reduce((total, line) => total + line.net, 0));
+  const billDiscount = discountOn(netTotal, billType, billValue);
+  const lastIndex = discounted.map((line) => line.net > 0).lastIndexOf(true);
+
+  let allocated = 0;
+  return discounted.map(({ net, ...line }, index) => {
+    let share = 0;
+    if (billDiscount > 0 && net > 0) {
+      share = index === lastIndex ? round2(billDiscount - allocated) : round2((billDiscount * net) / netTotal);
+      allocated = round2(allocated + share);
+    }
+    return { ...line, bill_discount_share: share };
+  });
+}
+
+/** A stored line's total discount (own plus bill share), 0 for receipts saved before discounts. */
+export function lineDiscount(line: { discount_amount?: number; bill_discount_share?: number }) {
+  return round2(Number(line.discount_amount || 0) + Number(line.bill_discount_share || 0));
+}
+
+/** "10%" or "₹50.00", for showing what was entered. */
+export function describeDiscount(type: DiscountType | string | undefined, value: number | undefined) {
+  return type === "flat" ? formatInr(value || 0) : `${Number(value || 0)}%`;
+}
@@ -0,0 +1,383 @@
+import type { ReceiptLineItem } from "@/lib/catalog";
+
+/**
+ * GSTR-1 sections built from a month of receipts at one branch. Every receipt
+ * is a sale to an unregistered patient (B2C): large inter-state invoices are
+ * reported one by one (B2CL), everything else as rate-wise totals per place
+ * of supply (B2CS). Credit notes issued in the month are netted out of B2CS,
+ * or reported on their own (CDNUR) when the receipt was a B2CL invoice; either
+ * way they reduce the HSN summary.
+ */
+
+/** Inter-state B2C invoices above this value are reported individually. */
+export const B2CL_THRESHOLD = 100000;
+
+/** Version string the offline tool expects in imported JSON. */
+export const GSTR1_VERSION = "GST3.1.6";
+
+export interface Gstr1Receipt {
+  receipt_number: string;
+  receipt_date: string;
+  total_amount: number;
+  supply_type: string;
+  place_of_supply: string;
+  items: ReceiptLineItem[];
+  cancelled_at?: string | null;
+}
+
+/** A credit note with the receipt it reverses, which may be from an earlier month. */
+export interface Gstr1CreditNote {
+  credit_note_number: string;
+  note_date: string;
+  amount: number;
+  receipt: Gstr1Receipt;
+}
+
+export interface B2csRow {
+  sply_ty: "INTRA" | "INTER";
+  pos: string;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+}
+
+export interface B2clInvoice {
+  pos: string;
+  inum: string;
+  idt: string;
+  val: number;
+  rates: { rt: number; txval: number; iamt: number }[];
+}
+
+export interface CdnurNote {
+  typ: "B2CL";
+  ntty: "C";
+  nt_num: string;
+  nt_dt: string;
+  val: number;
+  pos: string;
+  rates: { rt: number; txval: number; iamt: number }[];
+}
+
+export interface HsnRow {
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  rt: number;
+  qty: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+}
+
+export interface DocSummary {
+  from: string;
+  to: string;
+  totnum: number;
+  cancel: number;
+  net_issue: number;
+}
+
+export interface Gstr1Report {
+  b2cs: B2csRow[];
+  b2cl: B2clInvoice[];
+  cdnur: CdnurNote[];
+  hsn: HsnRow[];
+  docs: DocSummary | null;
+  creditNoteDocs: DocSummary | null;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Units of quantity code from the GST portal's list; anything else is OTH
+const UQC_BY_UNIT: Record<string, string> = {
+  nos: "NOS",
+  pcs: "PCS",
+  box: "BOX",
+  btl: "BTL",
+  bottle: "BTL",
+  kg: "KGS",
+  gm: "GMS",
+  ml: "MLT",
+  ltr: "LTR",
+  tab: "TBS",
+  tablet: "TBS",
+  strip: "OTH",
+};
+
+/** SAC codes (services) start with 99 and are reported without a quantity. */
+const isServiceCode = (code: string) => code.startsWith("99");
+
+const uqcFor = (code: string, unit: string | undefined) =>
+  isServiceCode(code) ? "NA" : UQC_BY_UNIT[(unit || "").toLowerCase()] || "OTH";
+
+/** Return period of a "2027-03" month as the offline tool wants it: MMYYYY. */
+export function returnPeriod(month: string) {
+  const [year, mm] = month.split("-");
+  return `${mm}${year}`;
+}
+
+/** dd-mm-yyyy, the invoice date format used in GSTR-1 JSON. */
+const invoiceDate = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split("-");
+  return `${day}-${month}-${year}`;
+};
+
+type TaxLine = ReceiptLineItem & { taxable_value: number };
+
+const taxLines = (receipt: Gstr1Receipt) =>
+  (Array.isArray(receipt.items) ? receipt.items : []).filter((line): line is TaxLine => line.taxable_value !== undefined);
+
+/**
+ * A credit note's share of each line of its receipt. Notes are for an amount,
+ * not for items, so the taxable value and tax are reduced in proportion.
+ */
+const creditedLines = (note: Gstr1CreditNote): TaxLine[] => {
+  const total = Number(note.receipt.total_amount);
+  const share = total > 0 ? Math.min(Number(note.amount) / total, 1) : 0;
+  return taxLines(note.receipt).map((line) => ({
+    ...line,
+    taxable_value: round2(Number(line.taxable_value) * share),
+    cgst_amount: round2(Number(line.cgst_amount || 0) * share),
+    sgst_amount: round2(Number(line.sgst_amount || 0) * share),
+    igst_amount: round2(Number(line.igst_amount || 0) * share),
+  }));
+};
+
+const rateTotals = (lines: TaxLine[]) => {
+  const rates = new Map<number, { rt: number; txval: number; iamt: number }>();
+  for (const line of lines) {
+    const rate = rates.get(Number(line.tax_rate)) || { rt: Number(line.tax_rate), txval: 0, iamt: 0 };
+    rate.txval = round2(rate.txval + Number(line.taxable_value));
+    rate.iamt = round2(rate.iamt + Number(line.igst_amount || 0));
+    rates.set(rate.rt, rate);
+  }
+  return Array.from(rates.values());
+};
+
+const docSummary = (numbers: string[], cancelled: number): DocSummary | null => {
+  if (numbers.length === 0) return null;
+  const sorted = [...numbers].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return {
+    from: sorted[0],
+    to: sorted[sorted.length - 1],
+    totnum: sorted.length,
+    cancel: cancelled,
+    net_issue: sorted.length - cancelled,
+  };
+};
+
+/**
+ * Builds the report. `branchState` is the branch's GST state code, used as the
+ * place of supply for intra-state sales; `unitOf` looks up the catalog unit of
+ * an HSN code for the UQC column.
+ */
+export function buildGstr1(
+  receipts: Gstr1Receipt[],
+  creditNotes: Gstr1CreditNote[],
+  branchState: string,
+  unitOf: (hsn: string) => string | undefined
+): Gstr1Report {
+  const b2cs = new Map<string, B2csRow>();
+  const hsn = new Map<string, HsnRow>();
+  const b2cl: B2clInvoice[] = [];
+  const cdnur: CdnurNote[] = [];
+
+  const placeOf = (receipt: Gstr1Receipt) => (receipt.supply_type === "inter" && receipt.place_of_supply) || branchState;
+  const isB2cl = (receipt: Gstr1Receipt) => receipt.supply_type === "inter" && Number(receipt.total_amount) > B2CL_THRESHOLD;
+
+  // `sign` is -1 for credit notes, which take their value back off the totals
+  const addToB2cs = (receipt: Gstr1Receipt, lines: TaxLine[], sign: number) => {
+    const inter = receipt.supply_type === "inter";
+    const pos = placeOf(receipt);
+    for (const line of lines) {
+      const rt = Number(line.tax_rate) || 0;
+      const key = `${inter ? "INTER" : "INTRA"}|${pos}|${rt}`;
+      const row = b2cs.get(key) || { sply_ty: inter ? "INTER" : "INTRA", pos, rt, txval: 0, iamt: 0, camt: 0, samt: 0 };
+      row.txval = round2(row.txval + sign * Number(line.taxable_value));
+      row.iamt = round2(row.iamt + sign * Number(line.igst_amount || 0));
+      row.camt = round2(row.camt + sign * Number(line.cgst_amount || 0));
+      row.samt = round2(row.samt + sign * Number(line.sgst_amount || 0));
+      b2cs.set(key, row);
+    }
+  };
+
+  // Credit notes have no quantity, so they reduce only the values
+  const addToHsn = (lines: TaxLine[], sign: number) => {
+    for (const line of lines) {
+      const rt = Number(line.tax_rate) || 0;
+      const code = line.hsn_sac || "";
+      const hsnKey = `${code}|${rt}`;
+      const hsnRow = hsn.get(hsnKey) || {
+        hsn_sc: code,
+        desc: line.name,
+        uqc: uqcFor(code, unitOf(code)),
+        rt,
+        qty: 0,
+        txval: 0,
+        iamt: 0,
+        camt: 0,
+        samt: 0,
+      };
+      if (!isServiceCode(code) && sign > 0) hsnRow.qty = round2(hsnRow.qty + Number(line.quantity));
+      hsnRow.txval = round2(hsnRow.txval + sign * Number(line.taxable_value));
+      hsnRow.iamt = round2(hsnRow.iamt + sign * Number(line.igst_amount || 0));
+      hsnRow.camt = round2(hsnRow.camt + sign * Number(line.cgst_amount || 0));
+      hsnRow.samt = round2(hsnRow.samt + sign * Number(line.sgst_amount || 0));
+      hsn.set(hsnKey, hsnRow);
+    }
+  };
+
+  // Cancelled receipts count only in the document summary
+  for (const receipt of receipts.filter((r) => !r.cancelled_at)) {
+    const lines = taxLines(receipt);
+    if (isB2cl(receipt)) {
+      b2cl.push({
+        pos: placeOf(receipt),
+        inum: receipt.receipt_number,
+        idt: invoiceDate(receipt.receipt_date),
+        val: Number(receipt.total_amount),
+        rates: rateTotals(lines),
+      });
+    } else {
+      addToB2cs(receipt, lines, 1);
+    }
+    addToHsn(lines, 1);
+  }
+
+  for (const note of creditNotes) {
+    const lines = creditedLines(note);
+    if (isB2cl(note.receipt)) {
+      cdnur.push({
+        typ: "B2CL",
+        ntty: "C",
+        nt_num: note.credit_note_number,
+        nt_dt: invoiceDate(note.note_date),
+        val: Number(note.amount),
+        pos: placeOf(note.receipt),
+        rates: rateTotals(lines),
+      });
+    } else {
+      addToB2cs(note.receipt, lines, -1);
+    }
+    addToHsn(lines, -1);
+  }
+
+  return {
+    b2cs: Array.from(b2cs.values()).sort((a, b) => a.pos.localeCompare(b.pos) || a.rt - b.rt),
+    b2cl,
+    cdnur,
+    hsn: Array.from(hsn.values()).sort((a, b) => a.hsn_sc.localeCompare(b.hsn_sc) || a.rt - b.rt),
+    docs: docSummary(
+      receipts.map((r) => r.receipt_number),
+      receipts.filter((r) => r.cancelled_at).length
+    ),
+    creditNoteDocs: docSummary(
+      creditNotes.map((n) => n.credit_note_number),
+      0
+    ),
+  };
+}
+
+/** The report in the JSON layout the GST offline tool imports. */
+export function gstr1Json(report: Gstr1Report, gstin: string, month: string) {
+  return {
+    gstin,
+    fp: returnPeriod(month),
+    version: GSTR1_VERSION,
+    hash: "hash",
+    b2cs: report.b2cs.map((row) => ({ ...row, typ: "OE", csamt: 0 })),
+    b2cl: Object.values(
+      report.b2cl.reduce<Record<string, { pos: string; inv: unknown[] }>>((groups, invoice) => {
+        const group = groups[invoice.pos] || { pos: invoice.pos, inv: [] };
+        group.inv.push({
+          inum: invoice.inum,
+          idt: invoice.idt,
+          val: invoice.val,
+          itms: invoice.rates.map((rate, index) => ({
+            num: index + 1,
+            itm_det: { rt: rate.rt, txval: rate.txval, iamt: rate.iamt, csamt: 0 },
+          })),
+        });
+        groups[invoice.pos] = group;
+        return groups;
+      }, {})
+    ),
+    cdnur: report.cdnur.map((note) => ({
+      typ: note.typ,
+      ntty: note.ntty,
+      nt_num: note.nt_num,
+      nt_dt: note.nt_dt,
+      val: note.val,
+      pos: note.pos,
+      itms: note.rates.map((rate, index) => ({
+        num: index + 1,
+        itm_det: { rt: rate.rt, txval: rate.txval, iamt: rate.iamt, csamt: 0 },
+      })),
+    })),
+    hsn: {
+      data: report.hsn.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsn_sc,
+        desc: row.desc,
+        uqc: row.uqc,
+        qty: row.qty,
+        rt: row.rt,
+        txval: row.txval,
+        iamt: row.iamt,
+        camt: row.camt,
+        samt: row.samt,
+        csamt: 0,
+      })),
+    },
+    doc_issue: {
+      // Document types 1 and 5 are invoices and credit notes in the portal's list
+      doc_det: [
+        ...(report.docs ? [{ doc_num: 1, docs: [{ num: 1, ...report.docs }] }] : []),
+        ...(report.creditNoteDocs ? [{ doc_num: 5, docs: [{ num: 1, ...report.creditNoteDocs }] }] : []),
+      ],
+    },
+  };
+}
+
+const csvCell = (value: string | number) => (typeof value === "number" ? String(value) : `"${value.replace(/"/g, '""')}"`);
+
+const toCsv = (header: string[], rows: (string | number)[][]) =>
+  [header.join(","), ...rows.map((row) => row.map(csvCell).join(","))].join("\n");
+
+/** One CSV per section, with the column names of the offline tool's Excel template. */
+export function gstr1Csv(report: Gstr1Report, stateName: (code: string) => string) {
+  const pos = (code: string) => `${code}-${stateName(code)}`;
+  return {
+    b2cs: toCsv(
+      ["Type", "Place Of Supply", "Rate", "Taxable Value", "Integrated Tax", "Central Tax", "State/UT Tax", "Cess Amount"],
+      report.b2cs.map((r) => ["OE", pos(r.pos), r.rt, r.txval, r.iamt, r.camt, r.samt, 0])
+    ),
+    b2cl: toCsv(
+      ["Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply", "Rate", "Taxable Value", "Cess Amount"],
+      report.b2cl.flatMap((inv) => inv.rates.map((r) => [inv.inum, inv.idt, inv.val, pos(inv.pos), r.rt, r.txval, 0]))
+    ),
+    cdnur: toCsv(
+      ["UR Type", "Note Number", "Note Date", "Note Type", "Place Of Supply", "Note Value", "Rate", "Taxable Value", "Cess Amount"],
+      report.cdnur.flatMap((note) =>
+        note.rates.map((r) => [note.typ, note.nt_num, note.nt_dt, note.ntty, pos(note.pos), note.val, r.rt, r.txval, 0])
+      )
+    ),
+    hsn: toCsv(
+      ["HSN", "Description", "UQC", "Total Quantity", "Rate", "Taxable Value", "Integrated Tax Amount", "Central Tax Amount", "State/UT Tax Amount", "Cess Amount"],
+      report.hsn.map((r) => [r.hsn_sc, r.desc, r.uqc, r.qty, r.rt, r.txval, r.iamt, r.camt, r.samt, 0])
+    ),
+    docs: toCsv(
+      ["Nature of Document", "Sr. No. From", "Sr. No. To", "Total Number", "Cancelled"],
+      [
+        ...(report.docs ? [["Invoices for outward supply", report.docs.from, report.docs.to, report.docs.totnum, report.docs.cancel]] : []),
+        ...(report.creditNoteDocs
+          ? [["Credit Note", report.creditNoteDocs.from, report.creditNoteDocs.to, report.creditNoteDocs.totnum, 0]]
+          : []),
+      ]
+    ),
+  };
+}
@@ -0,0 +1,31 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Patient = Tables<"patients">;
+
+export const GENDER_OPTIONS = [
+  { value: "male", label: "Male" },
+  { value: "female", label: "Female" },
+  { value: "other", label: "Other" },
+];
+
+export function genderLabel(gender: string | null) {
+  return GENDER_OPTIONS.find((g) => g.value === gender)?.label ?? "";
+}
+
+/** Age in whole years on `onDate` (YYYY-MM-DD), for a date of birth in the same format. */
+export function ageFromDateOfBirth(dateOfBirth: string, onDate = new Date().toISOString().slice(0, 10)) {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split("-").map(Number);
+  const [year, month, day] = onDate.split("-").map(Number);
+  let age = year - birthYear;
+  if (month < birthMonth || (month === birthMonth && day < birthDay)) age--;
+  return Math.max(age, 0);
+}
+
+/**
+ * The age to print on a receipt: worked out from the date of birth when we
+ * have one, so it stays right on later visits, otherwise the age as recorded.
+ */
+export function patientAge(patient: Pick<Patient, "age" | "date_of_birth">, onDate?: string) {
+  if (patient.date_of_birth) return String(ageFromDateOfBirth(patient.date_of_birth, onDate));
+  return patient.age || "";
+}
@@ -0,0 +1,23 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ReceiptPayment = Tables<"receipt_payments">;
+
+export const PAYMENT_MODES: Record<string, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+};
+
+export type PaymentStatus = "paid" | "partial" | "due";
+
+/** Labels and badge variants for receipts.payment_status. */
+export const PAYMENT_STATUSES: Record<PaymentStatus, { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  paid: { label: "Paid", variant: "secondary" },
+  partial: { label: "Partially paid", variant: "outline" },
+  due: { label: "Due", variant: "destructive" },
+};
+
+/** What is still owed on a receipt, never negative. */
+export function balanceDue(receipt: { total_amount: number; amount_paid: number }) {
+  return Math.max(Math.round((Number(receipt.total_amount) - Number(receipt.amount_paid)) * 100) / 100, 0);
+}
@@ -0,0 +1,31 @@
+// Client-side mirror of the receipt numbering SQL functions. Numbers are
+// always issued by the database; this is only used to preview a format in Admin.
+
+export const DEFAULT_RECEIPT_NUMBER_FORMAT = "{BRANCH}/{FY}/{SEQ:6}";
+
+/** Indian financial year label (April to March), e.g. "2026-27". */
+export function financialYearLabel(date: Date) {
+  const year = date.getFullYear();
+  const start = date.getMonth() >= 3 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatReceiptNumber(format: string, branchCode: string, date: Date, seq: number) {
+  const pad = Number(format.match(/\{SEQ:(\d+)\}/)?.[1] ?? 1);
+  return format
+    .replace(/\{BRANCH\}/g, () => branchCode)
+    .replace(/\{FY\}/g, financialYearLabel(date))
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{SEQ(:\d+)?\}/g, String(seq).padStart(pad, "0"));
+}
+
+/**
+ * Why a format can't be used, or null if it can. Counters run per branch and
+ * financial year, so a number missing either token would repeat.
+ */
+export function receiptNumberFormatError(format: string) {
+  if (!/\{SEQ(:\d+)?\}/.test(format)) return "Format must include {SEQ} or {SEQ:n}";
+  if (!format.includes("{BRANCH}")) return "Format must include {BRANCH}, as each branch has its own counter";
+  if (!format.includes("{FY}")) return "Format must include {FY}, as numbers restart every financial year";
+  return null;
+}
@@ -0,0 +1,68 @@
+import { jsPDF } from "jspdf";
+import html2canvas from "html2canvas";
+import { drawReceipts, type PdfReceipt } from "@shared/receipt-pdf";
+import type { ReceiptLayout } from "@shared/receipt-layout";
+import prescriptionTemplate from "@/assets/prescription-template.jpg";
+
+export interface ReceiptPdfRequest {
+  receipt: PdfReceipt;
+  layout?: ReceiptLayout | null;
+  /** The template's uploaded letterhead; the bundled prescription pad when empty. */
+  backgroundUrl?: string | null;
+}
+
+const loadImageAsDataUrl = async (url: string) => {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/** Background image for a template: its uploaded letterhead, or the bundled prescription pad. */
+export const templateBackgroundUrl = (backgroundImageUrl?: string | null) => backgroundImageUrl || prescriptionTemplate;
+
+/** Renders the receipts to an A4 PDF (one page each) and starts a download. */
+export async function downloadReceiptPdf(
+  receipts: ReceiptPdfRequest[],
+  fileName: string,
+  { includeBackground }: { includeBackground: boolean },
+) {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  // Templates are shared between many receipts, so load each background only once
+  const backgrounds = new Map<string, Promise<string>>();
+  const loadBackground = (url: string) => {
+    if (!backgrounds.has(url)) backgrounds.set(url, loadImageAsDataUrl(url));
+    return backgrounds.get(url);
+  };
+  const pages = await Promise.all(
+    receipts.map(async ({ receipt, layout, backgroundUrl }) => ({
+      receipt,
+      layout,
+      background: includeBackground ? await loadBackground(templateBackgroundUrl(backgroundUrl)) : null,
+    })),
+  );
+  drawReceipts(doc, pages);
+  doc.save(fileName);
+}
+
+/**
+ * Captures an on-screen element (the styled digital receipt) as an image on an
+ * A4 page. Used for render modes that don't map onto the pad layout.
+ */
+export async function downloadElementPdf(element: HTMLElement, fileName: string) {
+  const canvas = await html2canvas(element, { scale: 2, useCORS: true, backgroundColor: null });
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const width = pageWidth;
+  const height = Math.min(pageHeight, (canvas.height * width) / canvas.width);
+  doc.addImage(canvas.toDataURL("image/png"), "PNG", 0, 0, width, height);
+  doc.save(fileName);
+}
+
+/** Receipt numbers contain slashes, which are not valid in file names. */
+export const receiptPdfFileName = (receiptNumber: string) => `receipt-${receiptNumber.replace(/[^A-Za-z0-9-]+/g, "-")}.pdf`;
@@ -0,0 +1,159 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type ReceiptView = Tables<"receipt_views">;
+
+/** Columns the history can be sorted by, with their header labels. */
+export const RECEIPT_SORTS = {
+  receipt_date: "Date",
+  receipt_number: "Receipt No.",
+  customer_name: "Customer",
+  branch: "Branch",
+  total_amount: "Amount",
+} as const;
+
+export type ReceiptSort = keyof typeof RECEIPT_SORTS;
+
+/** Options for the tax filter. */
+export const TAX_FILTERS = {
+  all: "Taxed or not",
+  taxed: "With GST",
+  untaxed: "Without GST",
+} as const;
+
+/**
+ * Receipt history filters, as kept in the page URL and in saved views.
+ * "all" and "" mean no filter; `min` and `max` are rupee amounts.
+ */
+export interface ReceiptFilters {
+  q: string;
+  branch: string;
+  item: string;
+  name: string;
+  status: string;
+  from: string;
+  to: string;
+  min: string;
+  max: string;
+  template: string;
+  tax: string;
+  creator: string;
+  sort: ReceiptSort;
+  dir: "asc" | "desc";
+}
+
+export const DEFAULT_RECEIPT_FILTERS: ReceiptFilters = {
+  q: "",
+  branch: "all",
+  item: "all",
+  name: "",
+  status: "all",
+  from: "",
+  to: "",
+  min: "",
+  max: "",
+  template: "all",
+  tax: "all",
+  creator: "all",
+  sort: "receipt_date",
+  dir: "desc",
+};
+
+export const RECEIPT_PAGE_SIZE = 25;
+
+// PostgREST returns at most this many rows per request
+export const FETCH_CHUNK = 1000;
+const ID_CHUNK = 100;
+
+export function filtersFromSearchParams(params: URLSearchParams): ReceiptFilters {
+  return resolveReceiptFilters(Object.fromEntries(params.entries()));
+}
+
+/** Fills in defaults and drops unknown keys, e.g. for a saved view's filters. */
+export function resolveReceiptFilters(value: Json | Record<string, string> | null): ReceiptFilters {
+  const source = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const filters = { ...DEFAULT_RECEIPT_FILTERS };
+  (Object.keys(DEFAULT_RECEIPT_FILTERS) as (keyof ReceiptFilters)[]).forEach((key) => {
+    if (typeof source[key] === "string" && source[key] !== "") (filters as Record<string, string>)[key] = source[key] as string;
+  });
+  if (!(filters.sort in RECEIPT_SORTS)) filters.sort = DEFAULT_RECEIPT_FILTERS.sort;
+  if (filters.dir !== "asc") filters.dir = "desc";
+  return filters;
+}
+
+/** Whether any filter is set, ignoring the sort order. */
+export function hasReceiptFilters(filters: ReceiptFilters) {
+  return (Object.keys(DEFAULT_RECEIPT_FILTERS) as (keyof ReceiptFilters)[])
+    .filter((key) => key !== "sort" && key !== "dir")
+    .some((key) => filters[key] !== DEFAULT_RECEIPT_FILTERS[key]);
+}
+
+/** The filters that differ from the defaults, for storing in a saved view. */
+export function compactReceiptFilters(filters: ReceiptFilters) {
+  return Object.fromEntries(filtersToSearchParams(filters).entries());
+}
+
+/** Only what differs from the defaults goes in the URL, so links stay short. */
+export function filtersToSearchParams(filters: ReceiptFilters, page = 1) {
+  const params = new URLSearchParams();
+  (Object.keys(DEFAULT_RECEIPT_FILTERS) as (keyof ReceiptFilters)[]).forEach((key) => {
+    if (filters[key] && filters[key] !== DEFAULT_RECEIPT_FILTERS[key]) params.set(key, filters[key]);
+  });
+  if (page > 1) params.set("page", String(page));
+  return params;
+}
+
+/**
+ * Receipts matching `filters` through the search_receipts RPC, sorted. Chain
+ * `.range()` for a page; pass `count: "exact"` to also get the total.
+ */
+export function searchReceipts(filters: ReceiptFilters, columns: string, options: { count?: "exact" } = {}) {
+  return supabase
+    .rpc(
+      "search_receipts",
+      {
+        _search: filters.q.trim(),
+        _branch_id: filters.branch === "all" ? null : filters.branch,
+        _catalog_item_id: filters.item === "all" ? null : filters.item,
+        _status: filters.status === "all" ? null : filters.status,
+        _date_from: filters.from || null,
+        _date_to: filters.to || null,
+        _amount_min: filters.min === "" ? null : Number(filters.min),
+        _amount_max: filters.max === "" ? null : Number(filters.max),
+        _template_id: filters.template === "all" ? null : filters.template,
+        _item_name: filters.name.trim(),
+        _taxed: filters.tax === "all" ? null : filters.tax === "taxed",
+        _created_by: filters.creator === "all" ? null : filters.creator,
+      },
+      options,
+    )
+    .select(columns)
+    .order(filters.sort, { ascending: filters.dir === "asc" })
+    .order("created_at", { ascending: filters.dir === "asc" });
+}
+
+/** Every receipt matching `filters`, fetched in chunks, for exports. */
+export async function fetchAllReceipts<T>(filters: ReceiptFilters, columns: string): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += FETCH_CHUNK) {
+    const { data, error } = await searchReceipts(filters, columns).range(offset, offset + FETCH_CHUNK - 1);
+    if (error) throw error;
+    rows.push(...(data as unknown as T[]));
+    if (!data || data.length < FETCH_CHUNK) return rows;
+  }
+}
+
+/** The receipts with these ids, in the order given, fetched in chunks. */
+export async function fetchReceiptsById<T extends { id: string }>(ids: string[], columns: string): Promise<T[]> {
+  const rows = new Map<string, T>();
+  // Ids go in the query string, so keep each request's URL short
+  for (let offset = 0; offset < ids.length; offset += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("receipts")
+      .select(columns)
+      .in("id", ids.slice(offset, offset + ID_CHUNK));
+    if (error) throw error;
+    (data as unknown as T[]).forEach((row) => rows.set(row.id, row));
+  }
+  return ids.map((id) => rows.get(id)).filter((row): row is T => Boolean(row));
+}
@@ -0,0 +1,91 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type StockLevel = Tables<"stock_levels">;
+export type StockMovement = Tables<"stock_movements">;
+
+export const MOVEMENT_TYPES: Record<string, string> = {
+  opening: "Opening stock",
+  purchase: "Purchase",
+  sale: "Sale",
+  sale_reversal: "Sale reversed",
+  adjustment: "Adjustment",
+};
+
+/** Movement types staff can record by hand; sales come from receipts. */
+export const MANUAL_MOVEMENT_TYPES = ["purchase", "opening", "adjustment"];
+
+export type StockStatus = "out" | "low" | "ok";
+
+export function stockStatus(level: Pick<StockLevel, "on_hand" | "reorder_level">): StockStatus {
+  const onHand = Number(level.on_hand);
+  if (onHand <= 0) return "out";
+  if (onHand <= Number(level.reorder_level)) return "low";
+  return "ok";
+}
+
+export type StockBatchLevel = Tables<"stock_batch_levels">;
+
+/** Days-to-expiry windows shown on the dashboard and the expiry report. */
+export const EXPIRY_WINDOWS = [30, 60, 90];
+
+/** Whole days from today until `date` (YYYY-MM-DD); negative once expired. */
+export function daysUntil(date: string) {
+  const today = new Date();
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - start) / 86400000);
+}
+
+/** Expiry as printed on medicine strips, e.g. 03/2027. */
+export function formatExpiry(date: string) {
+  const [year, month] = date.split("-");
+  return `${month}/${year}`;
+}
+
+export interface ReceiptBatchMovement {
+  catalog_item_id: string;
+  quantity: number;
+  catalog_items: { name: string } | null;
+  stock_batches: { batch_number: string; expiry_date: string } | null;
+}
+
+/**
+ * Builds "Batch B123 · Exp 03/2027" per catalog item from a receipt's stock
+ * movements. Sales and reversals are netted, so an edited receipt only shows
+ * the batches its current lines were taken from.
+ */
+export function receiptBatchLabels(movements: ReceiptBatchMovement[]) {
+  const outstanding = new Map<string, ReceiptBatchMovement & { net: number }>();
+  for (const m of movements) {
+    if (!m.stock_batches) continue;
+    const key = `${m.catalog_item_id}:${m.stock_batches.batch_number}`;
+    const current = outstanding.get(key) || { ...m, net: 0 };
+    current.net += Number(m.quantity);
+    outstanding.set(key, current);
+  }
+
+  const labels = new Map<string, { name: string; label: string }>();
+  for (const m of outstanding.values()) {
+    if (m.net >= 0 || !m.stock_batches) continue;
+    const batch = `Batch ${m.stock_batches.batch_number} · Exp ${formatExpiry(m.stock_batches.expiry_date)}`;
+    const existing = labels.get(m.catalog_item_id);
+    labels.set(m.catalog_item_id, {
+      name: m.catalog_items?.name || "",
+      label: existing ? `${existing.label}, ${batch}` : batch,
+    });
+  }
+  return labels;
+}
+
+/** Appends the batch label to each receipt line sold from a batch. */
+export function withBatchLabels<T extends { name: string; catalog_item_id?: string | null }>(
+  items: T[],
+  labels: Map<string, { name: string; label: string }>
+): T[] {
+  return items.map((item) => {
+    const match =
+      (item.catalog_item_id && labels.get(item.catalog_item_id)) ||
+      Array.from(labels.values()).find((l) => l.name.toLowerCase() === item.name.trim().toLowerCase());
+    return match ? { ...item, name: `${item.name} (${match.label})` } : item;
+  });
+}
@@ -0,0 +1,41 @@
+// Colours and font of the "digital receipt" render mode, stored on receipt_templates.
+
+export interface ReceiptTemplateStyle {
+  header_bg_color: string;
+  header_text_color: string;
+  body_bg_color: string;
+  body_text_color: string;
+  accent_color: string;
+  font_family: string;
+}
+
+/** Same as the column defaults on receipt_templates; used when a receipt has no template. */
+export const DEFAULT_TEMPLATE_STYLE: ReceiptTemplateStyle = {
+  header_bg_color: "#1a1a1a",
+  header_text_color: "#ffffff",
+  body_bg_color: "#ffffff",
+  body_text_color: "#000000",
+  accent_color: "#3b82f6",
+  font_family: "Arial",
+};
+
+/** Web-safe fonts offered in Admin, so receipts look the same on every device and in print. */
+export const TEMPLATE_FONTS = ["Arial", "Verdana", "Trebuchet MS", "Georgia", "Times New Roman", "Courier New"];
+
+export const TEMPLATE_COLOR_FIELDS: { key: Exclude<keyof ReceiptTemplateStyle, "font_family">; label: string }[] = [
+  { key: "header_bg_color", label: "Header Background" },
+  { key: "header_text_color", label: "Header Text" },
+  { key: "body_bg_color", label: "Body Background" },
+  { key: "body_text_color", label: "Body Text" },
+  { key: "accent_color", label: "Accent" },
+];
+
+export function resolveTemplateStyle(
+  template?: Partial<Record<keyof ReceiptTemplateStyle, string | null>> | null,
+): ReceiptTemplateStyle {
+  const style = { ...DEFAULT_TEMPLATE_STYLE };
+  for (const key of Object.keys(style) as (keyof ReceiptTemplateStyle)[]) {
+    if (template?.[key]) style[key] = template[key] as string;
+  }
+  return style;
+}
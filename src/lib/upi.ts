@@ -0,0 +1,26 @@
+/** Who UPI payments for a receipt go to. */
+export interface UpiPayee {
+  vpa: string;
+  name: string;
+}
+
+/** handle@bank, as NPCI allows it. Matches the CHECK on branches and profiles. */
+export function isValidVpa(vpa: string) {
+  return /^[A-Za-z0-9._-]{2,256}@[A-Za-z][A-Za-z0-9]{1,63}$/.test(vpa);
+}
+
+/**
+ * The UPI deep link a payment app opens when the QR is scanned, e.g.
+ * upi://pay?pa=clinic@okaxis&pn=City%20Clinic&am=250.00&cu=INR&tn=Receipt%20SCB%2F000123
+ * Parameters are percent-encoded by hand because some UPI apps read "+" literally.
+ */
+export function upiPaymentUri(payee: UpiPayee, amount: number, note: string) {
+  const params: [string, string][] = [
+    ["pa", payee.vpa],
+    ["pn", payee.name || payee.vpa],
+    ["am", amount.toFixed(2)],
+    ["cu", "INR"],
+    ["tn", note.slice(0, 80)],
+  ];
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join("&")}`;
+}
@@ -8,12 +8,28 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
-import { ArrowLeft, Shield, Users, FileText, Palette, Trash2, Save, Edit, Ban, Unlock, Eye, LogIn, ArrowRightLeft, Wrench, RotateCcw, Send } from "lucide-react";
+import { ArrowLeft, Shield, Users, FileText, Palette, Trash2, Save, Edit, Ban, Unlock, Eye, LogIn, ArrowRightLeft, Wrench, RotateCcw, Send, Building2, Plus, Archive, ArchiveRestore, MessageCircle, Package } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useBranches, type Branch } from "@/hooks/use-branches";
+import { DEFAULT_RECEIPT_NUMBER_FORMAT, formatReceiptNumber, receiptNumberFormatError } from "@/lib/receipt-number";
+import TemplateLayoutEditor from "@/components/TemplateLayoutEditor";
+import TemplateBackgroundPicker from "@/components/TemplateBackgroundPicker";
+import TemplateStyleFields from "@/components/TemplateStyleFields";
+import CatalogManager from "@/components/CatalogManager";
+import { resolveTemplateStyle } from "@/lib/template-style";
+import { templateBackgroundUrl } from "@/lib/receipt-pdf";
+import { DEFAULT_RECEIPT_LAYOUT, resolveReceiptLayout, type ReceiptLayout } from "@shared/receipt-layout";
+import { DEFAULT_PATIENT_MESSAGE_TEMPLATE, PATIENT_MESSAGE_PLACEHOLDERS } from "@shared/patient-message";
+import { GST_STATES, gstStateName, isValidGstin } from "@shared/gst";
+import { formatAdjustment, formatInr, roundOff, ROUNDING_MODES } from "@shared/money";
+import { isValidVpa } from "@/lib/upi";
+import type { Json, Tables } from "@/integrations/supabase/types";
 
 interface User {
   id: string;
@@ -35,11 +51,8 @@ interface Template {
   accent_color: string;
   font_family: string;
   is_default: boolean;
-  custom_text: string;
-  custom_text_left: string;
-  custom_text_top: string;
-  custom_text_color: string;
-  custom_text_font_size: string;
+  layout: ReceiptLayout;
+  background_image_url: string | null;
 }
 
 const Admin = () => {
@@ -56,12 +69,10 @@ const Admin = () => {
     body_text_color: "#000000",
     accent_color: "#3b82f6",
     font_family: "Arial",
-    custom_text: "",
-    custom_text_left: "50",
-    custom_text_top: "50",
-    custom_text_color: "#000000",
-    custom_text_font_size: "14",
+    background_image_url: null,
   });
+  const [newTemplateLayout, setNewTemplateLayout] = useState<ReceiptLayout>(DEFAULT_RECEIPT_LAYOUT);
+  const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [editEmail, setEditEmail] = useState("");
   const [editPassword, setEditPassword] = useState("");
@@ -81,6 +92,13 @@ const Admin = () => {
   const [credUser, setCredUser] = useState<User | null>(null);
   const [credPassword, setCredPassword] = useState("");
   const [sendingCred, setSendingCred] = useState(false);
+  const { branches, refetch: fetchBranches } = useBranches();
+  const [newBranch, setNewBranch] = useState({ name: "", code: "", address: "", phone: "", gstin: "", state_code: "", upi_vpa: "", upi_payee_name: "" });
+  const [receiptNumberFormat, setReceiptNumberFormat] = useState(DEFAULT_RECEIPT_NUMBER_FORMAT);
+  const [receiptRounding, setReceiptRounding] = useState("rupee");
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [patientMessageTemplate, setPatientMessageTemplate] = useState(DEFAULT_PATIENT_MESSAGE_TEMPLATE);
+  const [messageLogs, setMessageLogs] = useState<Tables<"message_logs">[]>([]);
 
   useEffect(() => {
     checkAdminAndFetchData();
@@ -108,7 +126,7 @@ const Admin = () => {
       }
 
       setIsAdmin(true);
-      await Promise.all([fetchUsers(), fetchTemplates(), fetchMaintenanceMode(), fetchRegistrationEnabled()]);
+      await Promise.all([fetchUsers(), fetchTemplates(), fetchMaintenanceMode(), fetchRegistrationEnabled(), fetchReceiptNumberFormat(), fetchReceiptRounding(), fetchPatientMessageTemplate(), fetchMessageLogs()]);
     } catch (error: any) {
       toast.error(error.message);
     } finally {
@@ -329,7 +347,7 @@ const Admin = () => {
       .select("*")
       .order("created_at", { ascending: false });
 
-    if (data) setTemplates(data);
+    if (data) setTemplates(data.map((t) => ({ ...t, layout: resolveReceiptLayout(t.layout) })) as Template[]);
   };
 
   const fetchMaintenanceMode = async () => {
@@ -379,6 +397,88 @@ const Admin = () => {
     }
   };
 
+  const fetchReceiptNumberFormat = async () => {
+    const { data } = await supabase
+      .from("site_settings")
+      .select("value")
+      .eq("key", "receipt_number_format")
+      .maybeSingle();
+    if (data?.value) setReceiptNumberFormat(data.value);
+  };
+
+  const saveReceiptNumberFormat = async () => {
+    const formatError = receiptNumberFormatError(receiptNumberFormat);
+    if (formatError) {
+      toast.error(formatError);
+      return;
+    }
+    try {
+      const { error } = await supabase
+        .from("site_settings")
+        .upsert({ key: "receipt_number_format", value: receiptNumberFormat, updated_at: new Date().toISOString() }, { onConflict: "key" });
+      if (error) throw error;
+      toast.success("Receipt number format saved");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const fetchReceiptRounding = async () => {
+    const { data } = await supabase
+      .from("site_settings")
+      .select("value")
+      .eq("key", "receipt_rounding")
+      .maybeSingle();
+    if (data?.value) setReceiptRounding(data.value);
+  };
+
+  const saveReceiptRounding = async (value: string) => {
+    try {
+      const { error } = await supabase
+        .from("site_settings")
+        .upsert({ key: "receipt_rounding", value, updated_at: new Date().toISOString() }, { onConflict: "key" });
+      if (error) throw error;
+      setReceiptRounding(value);
+      toast.success("Rounding saved; it applies to receipts created from now on");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const fetchPatientMessageTemplate = async () => {
+    const { data } = await supabase
+      .from("site_settings")
+      .select("value")
+      .eq("key", "patient_message_template")
+      .maybeSingle();
+    if (data?.value) setPatientMessageTemplate(data.value);
+  };
+
+  const savePatientMessageTemplate = async () => {
+    if (!patientMessageTemplate.includes("{LINK}")) {
+      toast.error("Message must include {LINK}");
+      return;
+    }
+    try {
+      const { error } = await supabase
+        .from("site_settings")
+        .upsert({ key: "patient_message_template", value: patientMessageTemplate, updated_at: new Date().toISOString() }, { onConflict: "key" });
+      if (error) throw error;
+      toast.success("Patient message saved");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const fetchMessageLogs = async () => {
+    const { data } = await supabase
+      .from("message_logs")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(50);
+    setMessageLogs(data || []);
+  };
+
   const handleCreateTemplate = async () => {
     if (!newTemplate.name) {
       toast.error("Template name is required");
@@ -394,11 +494,8 @@ const Admin = () => {
         body_text_color: newTemplate.body_text_color || "#000000",
         accent_color: newTemplate.accent_color || "#3b82f6",
         font_family: newTemplate.font_family || "Arial",
-        custom_text: newTemplate.custom_text || "",
-        custom_text_left: (newTemplate.custom_text_left || "50") + "%",
-        custom_text_top: (newTemplate.custom_text_top || "50") + "%",
-        custom_text_color: newTemplate.custom_text_color || "#000000",
-        custom_text_font_size: (newTemplate.custom_text_font_size || "14") + "px",
+        layout: newTemplateLayout as unknown as Json,
+        background_image_url: newTemplate.background_image_url || null,
       };
 
       const { error } = await supabase
@@ -416,17 +513,35 @@ const Admin = () => {
         body_text_color: "#000000",
         accent_color: "#3b82f6",
         font_family: "Arial",
-        custom_text: "",
-        custom_text_left: "50",
-        custom_text_top: "50",
-        custom_text_color: "#000000",
-        custom_text_font_size: "14",
+        background_image_url: null,
       });
+      setNewTemplateLayout(DEFAULT_RECEIPT_LAYOUT);
     } catch (error: any) {
       toast.error(error.message);
     }
   };
 
+  const handleUpdateTemplate = async () => {
+    if (!editingTemplate) return;
+    try {
+      const { error } = await supabase
+        .from("receipt_templates")
+        .update({
+          ...resolveTemplateStyle(editingTemplate),
+          layout: editingTemplate.layout as unknown as Json,
+          background_image_url: editingTemplate.background_image_url,
+        })
+        .eq("id", editingTemplate.id);
+
+      if (error) throw error;
+      toast.success("Template saved");
+      setEditingTemplate(null);
+      fetchTemplates();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
   const handleDeleteTemplate = async (id: string) => {
     try {
       const { error } = await supabase
@@ -442,6 +557,91 @@ const Admin = () => {
     }
   };
 
+  const handleCreateBranch = async () => {
+    if (!newBranch.name.trim() || !newBranch.code.trim()) {
+      toast.error("Branch name and code are required");
+      return;
+    }
+    if (newBranch.gstin.trim() && !isValidGstin(newBranch.gstin.trim().toUpperCase(), newBranch.state_code)) {
+      toast.error("GSTIN is not valid for the selected state");
+      return;
+    }
+    if (newBranch.upi_vpa.trim() && !isValidVpa(newBranch.upi_vpa.trim())) {
+      toast.error("Enter a UPI ID like name@bank");
+      return;
+    }
+    try {
+      const { error } = await supabase.from("branches").insert({
+        name: newBranch.name.trim(),
+        code: newBranch.code.trim().toUpperCase(),
+        address: newBranch.address.trim(),
+        phone: newBranch.phone.trim(),
+        gstin: newBranch.gstin.trim().toUpperCase(),
+        state_code: newBranch.state_code,
+        upi_vpa: newBranch.upi_vpa.trim(),
+        upi_payee_name: newBranch.upi_payee_name.trim(),
+      });
+      if (error) throw error;
+      toast.success("Branch added successfully");
+      setNewBranch({ name: "", code: "", address: "", phone: "", gstin: "", state_code: "", upi_vpa: "", upi_payee_name: "" });
+      fetchBranches();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleUpdateBranch = async () => {
+    if (!editingBranch) return;
+    if (!editingBranch.name.trim() || !editingBranch.code.trim()) {
+      toast.error("Branch name and code are required");
+      return;
+    }
+    if (editingBranch.gstin.trim() && !isValidGstin(editingBranch.gstin.trim().toUpperCase(), editingBranch.state_code)) {
+      toast.error("GSTIN is not valid for the selected state");
+      return;
+    }
+    if (editingBranch.upi_vpa.trim() && !isValidVpa(editingBranch.upi_vpa.trim())) {
+      toast.error("Enter a UPI ID like name@bank");
+      return;
+    }
+    try {
+      const { error } = await supabase
+        .from("branches")
+        .update({
+          name: editingBranch.name.trim(),
+          code: editingBranch.code.trim().toUpperCase(),
+          address: editingBranch.address.trim(),
+          phone: editingBranch.phone.trim(),
+          gstin: editingBranch.gstin.trim().toUpperCase(),
+          state_code: editingBranch.state_code,
+          upi_vpa: editingBranch.upi_vpa.trim(),
+          upi_payee_name: editingBranch.upi_payee_name.trim(),
+        })
+        .eq("id", editingBranch.id);
+      if (error) throw error;
+      toast.success("Branch updated successfully");
+      setEditingBranch(null);
+      fetchBranches();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  // Branches are retired rather than deleted so existing receipts keep their branch
+  const handleToggleBranchActive = async (branch: Branch) => {
+    try {
+      const { error } = await supabase
+        .from("branches")
+        .update({ is_active: !branch.is_active })
+        .eq("id", branch.id);
+      if (error) throw error;
+      toast.success(branch.is_active ? `${branch.name} retired` : `${branch.name} reactivated`);
+      fetchBranches();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -508,6 +708,18 @@ const Admin = () => {
               <Palette className="mr-2 h-4 w-4" />
               Receipt Templates
             </TabsTrigger>
+            <TabsTrigger value="branches">
+              <Building2 className="mr-2 h-4 w-4" />
+              Branches
+            </TabsTrigger>
+            <TabsTrigger value="catalog">
+              <Package className="mr-2 h-4 w-4" />
+              Catalog
+            </TabsTrigger>
+            <TabsTrigger value="messaging">
+              <MessageCircle className="mr-2 h-4 w-4" />
+              Messaging
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="users">
@@ -833,7 +1045,7 @@ const Admin = () => {
                 <DialogHeader>
                   <DialogTitle>Transfer User Data</DialogTitle>
                   <DialogDescription>
-                    एक user का सारा data (receipts + contacts) दूसरे user को transfer करें। यह action irreversible है।
+                    एक user का सारा data (receipts + patients) दूसरे user को transfer करें। यह action irreversible है।
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4 py-4">
@@ -893,7 +1105,7 @@ const Admin = () => {
                 <DialogHeader>
                   <DialogTitle>🔄 Data Reset (Backup + Delete)</DialogTitle>
                   <DialogDescription>
-                    पहले सारा data email पर भेजा जाएगा, फिर receipts और contacts delete होंगे। जब तक email नहीं जाएगा, data delete नहीं होगा।
+                    पहले सारा data email पर भेजा जाएगा, फिर receipts और patients delete होंगे। जब तक email नहीं जाएगा, data delete नहीं होगा।
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4 py-4">
@@ -967,96 +1179,37 @@ const Admin = () => {
                     />
                   </div>
 
-                  {/* Custom Text Overlay Section */}
                   <div>
-                    <h3 className="font-semibold mb-3 text-foreground">Custom Text Overlay (Receipt)</h3>
-                    <div className="grid gap-4 md:grid-cols-2">
-                      <div className="md:col-span-2">
-                        <Label htmlFor="customText">Custom Text</Label>
-                        <Input
-                          id="customText"
-                          value={newTemplate.custom_text}
-                          onChange={(e) => setNewTemplate({ ...newTemplate, custom_text: e.target.value })}
-                          placeholder="Enter custom text to show on receipt"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="customLeft">Left Position (%)</Label>
-                        <Input
-                          id="customLeft"
-                          type="number"
-                          min="0"
-                          max="100"
-                          value={newTemplate.custom_text_left}
-                          onChange={(e) => setNewTemplate({ ...newTemplate, custom_text_left: e.target.value })}
-                          placeholder="50"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="customTop">Top Position (%)</Label>
-                        <Input
-                          id="customTop"
-                          type="number"
-                          min="0"
-                          max="100"
-                          value={newTemplate.custom_text_top}
-                          onChange={(e) => setNewTemplate({ ...newTemplate, custom_text_top: e.target.value })}
-                          placeholder="50"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="customColor">Text Color</Label>
-                        <div className="flex gap-2">
-                          <Input
-                            id="customColor"
-                            type="color"
-                            value={newTemplate.custom_text_color}
-                            onChange={(e) => setNewTemplate({ ...newTemplate, custom_text_color: e.target.value })}
-                            className="w-16"
-                          />
-                          <Input
-                            value={newTemplate.custom_text_color}
-                            onChange={(e) => setNewTemplate({ ...newTemplate, custom_text_color: e.target.value })}
-                          />
-                        </div>
-                      </div>
-                      <div>
-                        <Label htmlFor="customFontSize">Font Size (px)</Label>
-                        <Input
-                          id="customFontSize"
-                          type="number"
-                          min="8"
-                          max="72"
-                          value={newTemplate.custom_text_font_size}
-                          onChange={(e) => setNewTemplate({ ...newTemplate, custom_text_font_size: e.target.value })}
-                          placeholder="14"
-                        />
-                      </div>
-                    </div>
+                    <h3 className="font-semibold mb-1 text-foreground">Digital Receipt Style</h3>
+                    <p className="mb-3 text-sm text-muted-foreground">
+                      Used when a receipt is shown as a digital receipt instead of on the prescription pad.
+                    </p>
+                    <TemplateStyleFields
+                      idPrefix="newTemplate"
+                      value={resolveTemplateStyle(newTemplate)}
+                      onChange={(style) => setNewTemplate({ ...newTemplate, ...style })}
+                    />
+                  </div>
 
-                    {/* Live Preview Box */}
-                    {newTemplate.custom_text && (
-                      <div className="mt-4">
-                        <Label>Preview</Label>
-                        <div
-                          className="relative mt-2 rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20"
-                          style={{ width: '100%', height: '200px' }}
-                        >
-                          <span
-                            className="absolute font-semibold whitespace-nowrap"
-                            style={{
-                              left: `${newTemplate.custom_text_left || 50}%`,
-                              top: `${newTemplate.custom_text_top || 50}%`,
-                              color: newTemplate.custom_text_color || '#000000',
-                              fontSize: `${newTemplate.custom_text_font_size || 14}px`,
-                              transform: 'translate(-50%, -50%)',
-                            }}
-                          >
-                            {newTemplate.custom_text}
-                          </span>
-                        </div>
-                      </div>
-                    )}
+                  <div>
+                    <h3 className="font-semibold mb-3 text-foreground">Background</h3>
+                    <TemplateBackgroundPicker
+                      id="newTemplateBackground"
+                      value={newTemplate.background_image_url || null}
+                      onChange={(url) => setNewTemplate({ ...newTemplate, background_image_url: url })}
+                    />
+                  </div>
+
+                  <div>
+                    <h3 className="font-semibold mb-1 text-foreground">Field Layout</h3>
+                    <p className="mb-3 text-sm text-muted-foreground">
+                      Drag each field to where it should print on the prescription pad.
+                    </p>
+                    <TemplateLayoutEditor
+                      layout={newTemplateLayout}
+                      onChange={setNewTemplateLayout}
+                      backgroundUrl={templateBackgroundUrl(newTemplate.background_image_url)}
+                    />
                   </div>
                   <Button onClick={handleCreateTemplate}>
                     <Save className="mr-2 h-4 w-4" />
@@ -1072,48 +1225,496 @@ const Admin = () => {
                 <CardContent>
                   <div className="space-y-4">
                     {templates.map((template) => (
-                      <div key={template.id} className="flex items-center justify-between rounded-lg border p-4">
+                      <div key={template.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                        <img
+                          src={templateBackgroundUrl(template.background_image_url)}
+                          alt=""
+                          className="h-16 w-[45px] rounded border object-cover"
+                        />
                         <div className="flex-1">
                           <h3 className="font-semibold">{template.name}</h3>
-                          {template.custom_text && (
-                            <div className="mt-2 text-sm text-muted-foreground">
-                              Text: "<span className="font-medium" style={{ color: template.custom_text_color }}>{template.custom_text}</span>" 
-                              — Left: {template.custom_text_left}, Top: {template.custom_text_top}, Size: {template.custom_text_font_size}
-                            </div>
-                          )}
-                          {/* Preview */}
-                          {template.custom_text && (
-                            <div className="relative mt-2 rounded border border-dashed border-muted-foreground/30 bg-muted/10" style={{ width: '100%', height: '120px' }}>
-                              <span
-                                className="absolute font-semibold whitespace-nowrap"
-                                style={{
-                                  left: template.custom_text_left || '50%',
-                                  top: template.custom_text_top || '50%',
-                                  color: template.custom_text_color || '#000',
-                                  fontSize: template.custom_text_font_size || '14px',
-                                  transform: 'translate(-50%, -50%)',
-                                }}
-                              >
-                                {template.custom_text}
-                              </span>
-                            </div>
-                          )}
+                          <p className="mt-1 text-sm text-muted-foreground">
+                            {template.layout.custom_texts.length === 0
+                              ? "No custom text"
+                              : `Custom text: ${template.layout.custom_texts.map((t) => `"${t.text}"`).join(", ")}`}
+                          </p>
                         </div>
-                        {!template.is_default && (
+                        <div className="flex gap-2">
                           <Button
-                            variant="destructive"
+                            variant="outline"
                             size="sm"
-                            onClick={() => handleDeleteTemplate(template.id)}
+                            onClick={() => setEditingTemplate(template)}
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <Edit className="mr-2 h-4 w-4" />
+                            Edit Layout
                           </Button>
-                        )}
+                          {!template.is_default && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDeleteTemplate(template.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
                 </CardContent>
               </Card>
             </div>
+
+            <Dialog open={!!editingTemplate} onOpenChange={(open) => !open && setEditingTemplate(null)}>
+              <DialogContent className="max-h-[90vh] max-w-5xl overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Edit Template</DialogTitle>
+                  <DialogDescription>{editingTemplate?.name}</DialogDescription>
+                </DialogHeader>
+                {editingTemplate && (
+                  <>
+                    <TemplateStyleFields
+                      idPrefix="editTemplate"
+                      value={resolveTemplateStyle(editingTemplate)}
+                      onChange={(style) => setEditingTemplate({ ...editingTemplate, ...style })}
+                    />
+                    <TemplateBackgroundPicker
+                      id="editTemplateBackground"
+                      value={editingTemplate.background_image_url}
+                      onChange={(url) => setEditingTemplate({ ...editingTemplate, background_image_url: url })}
+                    />
+                    <TemplateLayoutEditor
+                      layout={editingTemplate.layout}
+                      onChange={(layout) => setEditingTemplate({ ...editingTemplate, layout })}
+                      backgroundUrl={templateBackgroundUrl(editingTemplate.background_image_url)}
+                    />
+                  </>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setEditingTemplate(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleUpdateTemplate}>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Template
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </TabsContent>
+
+          <TabsContent value="branches">
+            <div className="grid gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Add Branch</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <div>
+                      <Label htmlFor="branchName">Branch Name *</Label>
+                      <Input
+                        id="branchName"
+                        value={newBranch.name}
+                        onChange={(e) => setNewBranch({ ...newBranch, name: e.target.value })}
+                        placeholder="Near Shivaji Chowk Banka"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="branchCode">Receipt Prefix *</Label>
+                      <Input
+                        id="branchCode"
+                        value={newBranch.code}
+                        onChange={(e) => setNewBranch({ ...newBranch, code: e.target.value.replace(/[^A-Za-z0-9]/g, "").toUpperCase() })}
+                        placeholder="SCB"
+                        maxLength={6}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="branchAddress">Address</Label>
+                      <Input
+                        id="branchAddress"
+                        value={newBranch.address}
+                        onChange={(e) => setNewBranch({ ...newBranch, address: e.target.value })}
+                        placeholder="Full clinic address"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="branchPhone">Phone</Label>
+                      <Input
+                        id="branchPhone"
+                        value={newBranch.phone}
+                        onChange={(e) => setNewBranch({ ...newBranch, phone: e.target.value })}
+                        placeholder="9876543210"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="branchState">GST State</Label>
+                      <Select value={newBranch.state_code} onValueChange={(state_code) => setNewBranch({ ...newBranch, state_code })}>
+                        <SelectTrigger id="branchState">
+                          <SelectValue placeholder="Select state" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {GST_STATES.map((state) => (
+                            <SelectItem key={state.code} value={state.code}>
+                              {state.code} - {state.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="branchGstin">GSTIN</Label>
+                      <Input
+                        id="branchGstin"
+                        value={newBranch.gstin}
+                        onChange={(e) => setNewBranch({ ...newBranch, gstin: e.target.value.toUpperCase() })}
+                        placeholder="10ABCDE1234F1Z5"
+                        maxLength={15}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="branchUpiVpa">UPI ID</Label>
+                      <Input
+                        id="branchUpiVpa"
+                        value={newBranch.upi_vpa}
+                        onChange={(e) => setNewBranch({ ...newBranch, upi_vpa: e.target.value.trim() })}
+                        placeholder="clinic@okaxis"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="branchUpiPayee">UPI Payee Name</Label>
+                      <Input
+                        id="branchUpiPayee"
+                        value={newBranch.upi_payee_name}
+                        onChange={(e) => setNewBranch({ ...newBranch, upi_payee_name: e.target.value })}
+                        placeholder="Defaults to the branch name"
+                      />
+                    </div>
+                  </div>
+                  <Button onClick={handleCreateBranch}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Branch
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Receipt Numbering</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div>
+                      <Label htmlFor="receiptNumberFormat">Number Format</Label>
+                      <Input
+                        id="receiptNumberFormat"
+                        value={receiptNumberFormat}
+                        onChange={(e) => setReceiptNumberFormat(e.target.value)}
+                        placeholder={DEFAULT_RECEIPT_NUMBER_FORMAT}
+                        className="font-mono"
+                      />
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {"{BRANCH}"} = branch prefix, {"{FY}"} = financial year (2026-27), {"{YYYY}"} = year,
+                        {" {SEQ:6}"} = running number padded to 6 digits. Numbers restart every April for each branch, so {"{BRANCH}"} and {"{FY}"} are required.
+                      </p>
+                    </div>
+                    <div>
+                      <Label>Preview</Label>
+                      <div className="mt-2 rounded-md border bg-muted/30 px-3 py-2 font-mono text-sm">
+                        {formatReceiptNumber(receiptNumberFormat, branches[0]?.code || "SCB", new Date(), 123)}
+                      </div>
+                    </div>
+                  </div>
+                  <Button onClick={saveReceiptNumberFormat}>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Format
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Total Rounding</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div>
+                      <Label htmlFor="receiptRounding">Round Totals To</Label>
+                      <Select value={receiptRounding} onValueChange={saveReceiptRounding}>
+                        <SelectTrigger id="receiptRounding">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROUNDING_MODES.map((mode) => (
+                            <SelectItem key={mode.value} value={mode.value}>
+                              {mode.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        The difference is printed as a Round off line above the total.
+                      </p>
+                    </div>
+                    <div>
+                      <Label>Example</Label>
+                      <div className="mt-2 rounded-md border bg-muted/30 px-3 py-2 text-sm">
+                        {formatInr(1234.6)} → {formatInr(roundOff(1234.6, receiptRounding).rounded)} (round off{" "}
+                        {formatAdjustment(roundOff(1234.6, receiptRounding).adjustment)})
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>All Branches</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Prefix</TableHead>
+                        <TableHead>Address</TableHead>
+                        <TableHead>Phone</TableHead>
+                        <TableHead>GSTIN</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {branches.map((branch) => (
+                        <TableRow key={branch.id}>
+                          <TableCell className="font-medium">{branch.name}</TableCell>
+                          <TableCell className="font-mono">{branch.code}</TableCell>
+                          <TableCell>{branch.address || "Not set"}</TableCell>
+                          <TableCell>{branch.phone || "Not set"}</TableCell>
+                          <TableCell>
+                            <span className="font-mono">{branch.gstin || "Not set"}</span>
+                            {branch.state_code && (
+                              <span className="block text-xs text-muted-foreground">{gstStateName(branch.state_code)}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {branch.is_active ? (
+                              <Badge variant="secondary">Active</Badge>
+                            ) : (
+                              <Badge variant="outline">Retired</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditingBranch({ ...branch })}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleToggleBranchActive(branch)}
+                                title={branch.is_active ? "Retire branch" : "Reactivate branch"}
+                              >
+                                {branch.is_active ? (
+                                  <Archive className="h-4 w-4" />
+                                ) : (
+                                  <ArchiveRestore className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Edit Branch Dialog */}
+            <Dialog open={!!editingBranch} onOpenChange={(open) => !open && setEditingBranch(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Edit Branch</DialogTitle>
+                  <DialogDescription>
+                    Renaming a branch does not change the branch printed on receipts already issued.
+                  </DialogDescription>
+                </DialogHeader>
+                {editingBranch && (
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-branch-name">Branch Name</Label>
+                      <Input
+                        id="edit-branch-name"
+                        value={editingBranch.name}
+                        onChange={(e) => setEditingBranch({ ...editingBranch, name: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-branch-code">Receipt Prefix</Label>
+                      <Input
+                        id="edit-branch-code"
+                        value={editingBranch.code}
+                        onChange={(e) => setEditingBranch({ ...editingBranch, code: e.target.value.replace(/[^A-Za-z0-9]/g, "").toUpperCase() })}
+                        maxLength={6}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Changing the prefix only affects receipts issued from now on.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-branch-address">Address</Label>
+                      <Input
+                        id="edit-branch-address"
+                        value={editingBranch.address}
+                        onChange={(e) => setEditingBranch({ ...editingBranch, address: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-branch-phone">Phone</Label>
+                      <Input
+                        id="edit-branch-phone"
+                        value={editingBranch.phone}
+                        onChange={(e) => setEditingBranch({ ...editingBranch, phone: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="edit-branch-state">GST State</Label>
+                        <Select
+                          value={editingBranch.state_code}
+                          onValueChange={(state_code) => setEditingBranch({ ...editingBranch, state_code })}
+                        >
+                          <SelectTrigger id="edit-branch-state">
+                            <SelectValue placeholder="Select state" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {GST_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>
+                                {state.code} - {state.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="edit-branch-gstin">GSTIN</Label>
+                        <Input
+                          id="edit-branch-gstin"
+                          value={editingBranch.gstin}
+                          onChange={(e) => setEditingBranch({ ...editingBranch, gstin: e.target.value.toUpperCase() })}
+                          maxLength={15}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="edit-branch-upi">UPI ID</Label>
+                        <Input
+                          id="edit-branch-upi"
+                          value={editingBranch.upi_vpa}
+                          onChange={(e) => setEditingBranch({ ...editingBranch, upi_vpa: e.target.value.trim() })}
+                          placeholder="clinic@okaxis"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="edit-branch-upi-payee">UPI Payee Name</Label>
+                        <Input
+                          id="edit-branch-upi-payee"
+                          value={editingBranch.upi_payee_name}
+                          onChange={(e) => setEditingBranch({ ...editingBranch, upi_payee_name: e.target.value })}
+                          placeholder={editingBranch.name}
+                        />
+                      </div>
+                    </div>
+                    <Button onClick={handleUpdateBranch} className="w-full">
+                      <Save className="mr-2 h-4 w-4" />
+                      Save Branch
+                    </Button>
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+          </TabsContent>
+
+          <TabsContent value="catalog">
+            <CatalogManager />
+          </TabsContent>
+
+          <TabsContent value="messaging">
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Patient Message</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="patientMessageTemplate">Default Message</Label>
+                    <Textarea
+                      id="patientMessageTemplate"
+                      rows={4}
+                      value={patientMessageTemplate}
+                      onChange={(e) => setPatientMessageTemplate(e.target.value)}
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {PATIENT_MESSAGE_PLACEHOLDERS.map((p) => `${p.token} = ${p.description.toLowerCase()}`).join(", ")}.
+                      Staff can still edit the message before sending.
+                    </p>
+                  </div>
+                  <Button onClick={savePatientMessageTemplate}>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save Message
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recent Messages</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Sent</TableHead>
+                        <TableHead>Channel</TableHead>
+                        <TableHead>Provider</TableHead>
+                        <TableHead>Recipient</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {messageLogs.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center text-muted-foreground">
+                            No messages sent yet
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {messageLogs.map((log) => (
+                        <TableRow key={log.id}>
+                          <TableCell>{new Date(log.created_at).toLocaleString()}</TableCell>
+                          <TableCell className="uppercase">{log.channel}</TableCell>
+                          <TableCell>{log.provider}</TableCell>
+                          <TableCell>+{log.recipient}</TableCell>
+                          <TableCell>
+                            <Badge variant={log.status === "failed" ? "destructive" : log.status === "sent" ? "default" : "secondary"}>
+                              {log.status === "link_created" ? "opened" : log.status}
+                            </Badge>
+                            {log.error && <p className="mt-1 text-xs text-destructive">{log.error}</p>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
           </TabsContent>
         </Tabs>
       </div>
@@ -8,9 +8,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import { ArrowLeft, Eye, Search } from "lucide-react";
+import { formatInr } from "@shared/money";
 
 interface Receipt {
   id: string;
+  receipt_number: string;
   customer_name: string;
   mobile_number: string;
   total_amount: number;
@@ -32,6 +34,7 @@ const AdminUserReceipts = () => {
     const matchBranch = branchFilter === "all" || r.branch === branchFilter;
     const matchSearch =
       !searchTerm ||
+      r.receipt_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
       r.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       r.mobile_number.includes(searchTerm);
     return matchBranch && matchSearch;
@@ -74,7 +77,7 @@ const AdminUserReceipts = () => {
 
       const { data: receiptsData } = await supabase
         .from("receipts")
-        .select("id, customer_name, mobile_number, total_amount, receipt_date, branch")
+        .select("id, receipt_number, customer_name, mobile_number, total_amount, receipt_date, branch")
         .eq("user_id", userId)
         .order("receipt_date", { ascending: false });
 
@@ -136,6 +139,7 @@ const AdminUserReceipts = () => {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead>Receipt No.</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Customer</TableHead>
                   <TableHead>Mobile</TableHead>
@@ -147,11 +151,12 @@ const AdminUserReceipts = () => {
               <TableBody>
                 {filteredReceipts.map((receipt) => (
                   <TableRow key={receipt.id}>
+                    <TableCell className="font-mono text-sm">{receipt.receipt_number}</TableCell>
                     <TableCell>{new Date(receipt.receipt_date).toLocaleDateString()}</TableCell>
                     <TableCell>{receipt.customer_name}</TableCell>
                     <TableCell>{receipt.mobile_number}</TableCell>
                     <TableCell>{receipt.branch}</TableCell>
-                    <TableCell>₹{parseFloat(receipt.total_amount.toString()).toFixed(2)}</TableCell>
+                    <TableCell>{formatInr(receipt.total_amount)}</TableCell>
                     <TableCell>
                       <Button
                         variant="ghost"
@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowLeft, Printer } from "lucide-react";
+import ReceiptOverlay, { type OverlayReceipt } from "@/components/ReceiptOverlay";
+import { useBranches } from "@/hooks/use-branches";
+import { balanceDue } from "@/lib/payments";
+import { templateBackgroundUrl } from "@/lib/receipt-pdf";
+import { DEFAULT_RECEIPT_FILTERS, fetchAllReceipts, fetchReceiptsById } from "@/lib/receipt-search";
+import type { UpiPayee } from "@/lib/upi";
+import { DEFAULT_RECEIPT_LAYOUT, resolveReceiptLayout, type ReceiptLayout } from "@shared/receipt-layout";
+
+interface PrintReceipt extends OverlayReceipt {
+  id: string;
+  branch_id: string | null;
+  user_id: string;
+  template_id: string | null;
+  total_amount: number;
+  amount_paid: number;
+}
+
+interface PrintPage {
+  receipt: PrintReceipt;
+  layout: ReceiptLayout;
+  backgroundUrl: string | null;
+  upi: { payee: UpiPayee; amount: number } | null;
+}
+
+/**
+ * Prints many receipts as one job, one A4 pad page each. Takes `?ids=` (comma
+ * separated), or `?date=` and/or `?branch=`; with neither, today's receipts.
+ * Cancelled receipts are left out unless asked for by id.
+ */
+const BatchPrint = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const idsParam = searchParams.get("ids") || "";
+  const ids = idsParam.split(",").filter(Boolean);
+  const branch = searchParams.get("branch") || "all";
+  const date =
+    searchParams.get("date") || (ids.length === 0 && branch === "all" ? new Date().toISOString().slice(0, 10) : "");
+  const [pages, setPages] = useState<PrintPage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { branches } = useBranches();
+
+  useEffect(() => {
+    const fetchPages = async () => {
+      const ids = idsParam.split(",").filter(Boolean);
+      setLoading(true);
+      try {
+        const receipts =
+          ids.length > 0
+            ? await fetchReceiptsById<PrintReceipt>(ids, "*")
+            : (
+                await fetchAllReceipts<PrintReceipt>(
+                  { ...DEFAULT_RECEIPT_FILTERS, branch, from: date, to: date, sort: "receipt_date", dir: "asc" },
+                  "*"
+                )
+              ).filter((r) => !r.cancelled_at);
+
+        // Each receipt prints with its own template's layout, like ReceiptDisplay
+        const templateIds = [...new Set(receipts.map((r) => r.template_id).filter(Boolean))];
+        const { data: templates } = templateIds.length
+          ? await supabase.from("receipt_templates").select("id, layout, background_image_url").in("id", templateIds)
+          : { data: [] };
+        const templateById = new Map((templates || []).map((t) => [t.id, t]));
+
+        // UPI payee: the branch's VPA, else that of whoever issued the receipt
+        const branchIds = [...new Set(receipts.map((r) => r.branch_id).filter(Boolean))];
+        const { data: branchRows } = branchIds.length
+          ? await supabase.from("branches").select("id, name, upi_vpa, upi_payee_name").in("id", branchIds)
+          : { data: [] };
+        const branchPayees = new Map(
+          (branchRows || [])
+            .filter((b) => b.upi_vpa)
+            .map((b) => [b.id, { vpa: b.upi_vpa, name: b.upi_payee_name || b.name } as UpiPayee])
+        );
+        const ownerIds = [...new Set(receipts.filter((r) => !branchPayees.has(r.branch_id)).map((r) => r.user_id))];
+        const { data: owners } = ownerIds.length
+          ? await supabase.from("profiles").select("id, full_name, upi_vpa, upi_payee_name").in("id", ownerIds)
+          : { data: [] };
+        const ownerPayees = new Map(
+          (owners || [])
+            .filter((o) => o.upi_vpa)
+            .map((o) => [o.id, { vpa: o.upi_vpa, name: o.upi_payee_name || o.full_name || "" } as UpiPayee])
+        );
+
+        setPages(
+          receipts.map((receipt) => {
+            const template = templateById.get(receipt.template_id);
+            const payee = branchPayees.get(receipt.branch_id) || ownerPayees.get(receipt.user_id);
+            const amountDue = receipt.cancelled_at ? 0 : balanceDue(receipt);
+            return {
+              receipt,
+              layout: template ? resolveReceiptLayout(template.layout) : DEFAULT_RECEIPT_LAYOUT,
+              backgroundUrl: template?.background_image_url || null,
+              upi: payee && amountDue > 0 ? { payee, amount: amountDue } : null,
+            };
+          })
+        );
+      } catch (error) {
+        toast.error((error as Error).message);
+        setPages([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchPages();
+  }, [idsParam, branch, date]);
+
+  const updateQuery = (changes: { date?: string; branch?: string }) => {
+    const next = new URLSearchParams();
+    const nextDate = changes.date ?? date;
+    const nextBranch = changes.branch ?? branch;
+    if (nextDate) next.set("date", nextDate);
+    if (nextBranch !== "all") next.set("branch", nextBranch);
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-4 no-print">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/history")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              History
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {ids.length === 0 && (
+              <>
+                <Input
+                  type="date"
+                  aria-label="Receipt date"
+                  value={date}
+                  onChange={(e) => updateQuery({ date: e.target.value })}
+                  className="w-[160px]"
+                />
+                <Select value={branch} onValueChange={(value) => updateQuery({ branch: value })}>
+                  <SelectTrigger className="w-[220px]">
+                    <SelectValue placeholder="All Branches" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Branches</SelectItem>
+                    {branches.map((b) => (
+                      <SelectItem key={b.id} value={b.id}>
+                        {b.name}{b.is_active ? "" : " (retired)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+            <span className="px-2 text-sm text-muted-foreground">
+              {loading ? "Loading..." : `${pages.length} receipt${pages.length === 1 ? "" : "s"}`}
+            </span>
+            <Button onClick={() => window.print()} disabled={loading || pages.length === 0}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print All
+            </Button>
+          </div>
+        </div>
+
+        {!loading && pages.length === 0 && (
+          <div className="rounded-lg border bg-card p-12 text-center no-print">
+            <p className="text-muted-foreground">No receipts to print</p>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {pages.map(({ receipt, layout, backgroundUrl, upi }) => (
+            <div
+              key={receipt.id}
+              className="receipt-container relative mx-auto"
+              style={{ width: '100%', maxWidth: '794px', aspectRatio: '210/297' }}
+            >
+              {/* Background image - visible on screen, hidden on print */}
+              <img
+                src={templateBackgroundUrl(backgroundUrl)}
+                alt="Prescription Template"
+                className="print-bg absolute inset-0 h-full w-full object-fill"
+              />
+              <ReceiptOverlay receipt={receipt} layout={layout} upi={upi} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <style>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 0;
+          }
+          html, body {
+            margin: 0 !important;
+            padding: 0 !important;
+            width: 210mm;
+          }
+          .no-print {
+            display: none !important;
+          }
+          .min-h-screen {
+            min-height: auto !important;
+            padding: 0 !important;
+            background: white !important;
+          }
+          .mx-auto {
+            max-width: none !important;
+            margin: 0 !important;
+          }
+          .space-y-6 > * {
+            margin: 0 !important;
+          }
+          /* Hide background image on print - only text prints */
+          .print-bg {
+            display: none !important;
+          }
+          /* Each receipt fills its own page */
+          .receipt-container {
+            width: 210mm !important;
+            height: 297mm !important;
+            max-width: none !important;
+            margin: 0 !important;
+            overflow: hidden;
+            break-inside: avoid;
+            page-break-after: always;
+          }
+          .receipt-container:last-child {
+            page-break-after: auto;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default BatchPrint;
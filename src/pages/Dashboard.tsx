@@ -1,17 +1,32 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
-import { Plus, FileText, User, LogOut, TrendingUp, Users } from "lucide-react";
+import { Plus, FileText, User, LogOut, TrendingUp, Users, Package, AlertTriangle, CalendarClock, Landmark, BadgePercent, IndianRupee } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCatalog } from "@/hooks/use-catalog";
+import { useBranches } from "@/hooks/use-branches";
+import { useStockBatches } from "@/hooks/use-stock-batches";
+import { useStockLevels } from "@/hooks/use-stock-levels";
+import { groupReceiptItems } from "@/lib/catalog";
+import { creditedTotal, netReceiptAmount } from "@/lib/credit-notes";
+import { daysUntil, EXPIRY_WINDOWS } from "@/lib/stock";
+import { formatInr } from "@shared/money";
 
 interface Receipt {
   total_amount: number;
+  discount_amount: number;
+  user_id: string;
   receipt_date: string;
   branch: string;
+  branch_id: string | null;
+  branches: { name: string } | null;
+  credit_notes: { amount: number }[];
+  items: unknown;
 }
 
 interface DashboardStats {
@@ -19,9 +34,38 @@ interface DashboardStats {
   totalReceipts: number;
   branchData: { branch: string; amount: number; count: number }[];
   monthlyData: { month: string; amount: number }[];
+  totalDiscount: number;
+  discountsByBranch: DiscountRow[];
+  discountsByUser: DiscountRow[];
 }
 
-const COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))'];
+interface DiscountRow {
+  key: string;
+  name: string;
+  amount: number;
+  count: number;
+}
+
+/** Discount totals per key, largest first, counting only receipts that had one. */
+const groupDiscounts = (receipts: Receipt[], keyOf: (r: Receipt) => string, nameOf: (r: Receipt) => string) => {
+  const groups = new Map<string, DiscountRow>();
+  receipts
+    .filter((r) => Number(r.discount_amount) > 0)
+    .forEach((r) => {
+      const key = keyOf(r);
+      const current = groups.get(key) || { key, name: nameOf(r), amount: 0, count: 0 };
+      groups.set(key, { ...current, amount: current.amount + Number(r.discount_amount), count: current.count + 1 });
+    });
+  return Array.from(groups.values()).sort((a, b) => b.amount - a.amount);
+};
+
+const COLORS = [
+  'hsl(var(--chart-1))',
+  'hsl(var(--chart-2))',
+  'hsl(var(--chart-3))',
+  'hsl(var(--chart-4))',
+  'hsl(var(--chart-5))',
+];
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -29,9 +73,36 @@ const Dashboard = () => {
     totalIncome: 0,
     totalReceipts: 0,
     branchData: [],
-    monthlyData: []
+    monthlyData: [],
+    totalDiscount: 0,
+    discountsByBranch: [],
+    discountsByUser: []
   });
   const [loading, setLoading] = useState(true);
+  const [receiptItems, setReceiptItems] = useState<{ items: unknown }[]>([]);
+  const { items: catalog } = useCatalog();
+  const { activeBranches } = useBranches();
+  const { lowStock } = useStockLevels();
+  const lowStockAlerts = lowStock.filter((l) => activeBranches.some((b) => b.id === l.branch_id));
+  const { batches } = useStockBatches();
+
+  // Distinct items per window, so several batches of one medicine count once
+  const expiryCounts = useMemo(() => {
+    const inStock = batches
+      .filter((b) => activeBranches.some((branch) => branch.id === b.branch_id))
+      .map((b) => ({ itemId: b.catalog_item_id, days: daysUntil(b.expiry_date || "") }));
+    const countItems = (match: (days: number) => boolean) =>
+      new Set(inStock.filter((b) => match(b.days)).map((b) => b.itemId)).size;
+    return {
+      expired: countItems((days) => days < 0),
+      windows: EXPIRY_WINDOWS.map((window) => ({
+        window,
+        count: countItems((days) => days >= 0 && days <= window),
+      })),
+    };
+  }, [batches, activeBranches]);
+
+  const topItems = useMemo(() => groupReceiptItems(receiptItems, catalog).slice(0, 10), [receiptItems, catalog]);
 
   useEffect(() => {
     fetchDashboardData();
@@ -41,42 +112,61 @@ const Dashboard = () => {
     try {
       const { data, error } = await supabase
         .from("receipts")
-        .select("total_amount, receipt_date, branch");
+        .select("total_amount, discount_amount, user_id, receipt_date, branch, branch_id, branches(name), credit_notes(amount), items")
+        .is("cancelled_at", null);
 
       if (error) throw error;
 
-      const receipts = data as Receipt[];
-      const totalIncome = receipts.reduce((sum, r) => sum + Number(r.total_amount), 0);
+      const receipts = data as unknown as Receipt[];
+      // Income is what was kept: cancelled receipts are left out and credit notes come off their receipt
+      const income = (r: Receipt) => netReceiptAmount(r, creditedTotal(r.credit_notes || []));
+      const totalIncome = receipts.reduce((sum, r) => sum + income(r), 0);
 
-      const branchMap = new Map<string, { amount: number; count: number }>();
+      // Group by branch id so renamed branches stay a single slice
+      const branchMap = new Map<string, { branch: string; amount: number; count: number }>();
       receipts.forEach(r => {
-        const current = branchMap.get(r.branch) || { amount: 0, count: 0 };
-        branchMap.set(r.branch, {
-          amount: current.amount + Number(r.total_amount),
+        const key = r.branch_id || r.branch;
+        const current = branchMap.get(key) || { branch: r.branches?.name || r.branch, amount: 0, count: 0 };
+        branchMap.set(key, {
+          branch: current.branch,
+          amount: current.amount + income(r),
           count: current.count + 1
         });
       });
-      const branchData = Array.from(branchMap.entries()).map(([branch, data]) => ({
-        branch,
-        amount: data.amount,
-        count: data.count
-      }));
+      const branchData = Array.from(branchMap.values());
 
       const monthMap = new Map<string, number>();
       receipts.forEach(r => {
         const date = new Date(r.receipt_date);
         const monthKey = date.toLocaleString('default', { month: 'short', year: 'numeric' });
-        monthMap.set(monthKey, (monthMap.get(monthKey) || 0) + Number(r.total_amount));
+        monthMap.set(monthKey, (monthMap.get(monthKey) || 0) + income(r));
       });
       const monthlyData = Array.from(monthMap.entries())
         .map(([month, amount]) => ({ month, amount }))
         .slice(-6);
 
+      // Only the caller's own profile is visible to regular users; admins see everyone.
+      const userIds = [...new Set(receipts.filter((r) => Number(r.discount_amount) > 0).map((r) => r.user_id))];
+      const userNames: Record<string, string> = {};
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, full_name, email")
+          .in("id", userIds);
+        for (const profile of profiles || []) {
+          userNames[profile.id] = profile.full_name || profile.email || "Unknown user";
+        }
+      }
+
+      setReceiptItems(receipts);
       setStats({
         totalIncome,
         totalReceipts: receipts.length,
         branchData,
-        monthlyData
+        monthlyData,
+        totalDiscount: receipts.reduce((sum, r) => sum + Number(r.discount_amount), 0),
+        discountsByBranch: groupDiscounts(receipts, (r) => r.branch_id || r.branch, (r) => r.branches?.name || r.branch),
+        discountsByUser: groupDiscounts(receipts, (r) => r.user_id, (r) => userNames[r.user_id] || "Unknown user")
       });
     } catch (error) {
       toast.error("Failed to load dashboard data");
@@ -103,7 +193,7 @@ const Dashboard = () => {
       <div className="mx-auto max-w-7xl flex-1">
         <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
           <h1 className="text-3xl font-bold text-primary">Dashboard</h1>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
             <Button onClick={() => navigate("/receipt-form")}>
               <Plus className="mr-2 h-4 w-4" />
               New Receipt
@@ -112,9 +202,21 @@ const Dashboard = () => {
               <FileText className="mr-2 h-4 w-4" />
               History
             </Button>
-            <Button variant="outline" onClick={() => navigate("/contacts")}>
+            <Button variant="outline" onClick={() => navigate("/patients")}>
               <Users className="mr-2 h-4 w-4" />
-              Contacts
+              Patients
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/dues")}>
+              <IndianRupee className="mr-2 h-4 w-4" />
+              Dues
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/stock")}>
+              <Package className="mr-2 h-4 w-4" />
+              Stock
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/gst-report")}>
+              <Landmark className="mr-2 h-4 w-4" />
+              GST Return
             </Button>
             <Button variant="outline" onClick={() => navigate("/profile")}>
               <User className="mr-2 h-4 w-4" />
@@ -127,15 +229,32 @@ const Dashboard = () => {
           </div>
         </div>
 
+        {lowStockAlerts.length > 0 && (
+          <button
+            onClick={() => navigate("/stock")}
+            className="mb-6 flex w-full items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-left text-sm"
+          >
+            <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+            <span>
+              <span className="font-semibold">Low stock:</span>{" "}
+              {lowStockAlerts
+                .slice(0, 5)
+                .map((l) => `${l.name} (${activeBranches.find((b) => b.id === l.branch_id)?.name}: ${Number(l.on_hand)})`)
+                .join(", ")}
+              {lowStockAlerts.length > 5 && ` and ${lowStockAlerts.length - 5} more`}
+            </span>
+          </button>
+        )}
+
         {/* Stats Cards */}
-        <div className="mb-6 grid gap-4 md:grid-cols-3">
+        <div className={`mb-6 grid gap-4 ${batches.length > 0 ? "md:grid-cols-4" : "md:grid-cols-3"}`}>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Income</CardTitle>
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">₹{stats.totalIncome.toFixed(2)}</div>
+              <div className="text-2xl font-bold">{formatInr(stats.totalIncome)}</div>
             </CardContent>
           </Card>
           <Card>
@@ -154,10 +273,33 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                ₹{stats.totalReceipts > 0 ? (stats.totalIncome / stats.totalReceipts).toFixed(2) : '0.00'}
+                {formatInr(stats.totalReceipts > 0 ? stats.totalIncome / stats.totalReceipts : 0)}
               </div>
             </CardContent>
           </Card>
+          {batches.length > 0 && (
+            <Card className="cursor-pointer" onClick={() => navigate("/stock?tab=expiry")}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Expiring Stock</CardTitle>
+                <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-2">
+                  {expiryCounts.windows.map(({ window, count }) => (
+                    <div key={window}>
+                      <div className="text-2xl font-bold">{count}</div>
+                      <p className="text-xs text-muted-foreground">≤ {window} days</p>
+                    </div>
+                  ))}
+                </div>
+                {expiryCounts.expired > 0 && (
+                  <p className="mt-2 text-xs font-medium text-destructive">
+                    {expiryCounts.expired} {expiryCounts.expired === 1 ? "item has" : "items have"} expired stock
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Charts */}
@@ -239,6 +381,76 @@ const Dashboard = () => {
             </CardContent>
           </Card>
         </div>
+
+        {topItems.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Top Items</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Receipts</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {topItems.map((item) => (
+                    <TableRow key={item.key}>
+                      <TableCell className="font-medium">
+                        {item.name}
+                        {!item.catalog_item_id && <span className="ml-2 text-xs text-muted-foreground">(not in catalog)</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{item.receipts}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatInr(item.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {stats.totalDiscount > 0 && (
+          <Card className="mt-6">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Discounts Given</CardTitle>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <BadgePercent className="h-4 w-4" />
+                <span className="font-semibold text-foreground">{formatInr(stats.totalDiscount)}</span> in total
+              </div>
+            </CardHeader>
+            <CardContent className="grid gap-6 md:grid-cols-2">
+              {[
+                { title: "Branch", rows: stats.discountsByBranch },
+                { title: "Given by", rows: stats.discountsByUser },
+              ].map(({ title, rows }) => (
+                <Table key={title}>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{title}</TableHead>
+                      <TableHead className="text-right">Receipts</TableHead>
+                      <TableHead className="text-right">Discount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell className="font-medium">{row.name}</TableCell>
+                        <TableCell className="text-right">{row.count}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatInr(row.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ))}
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Developer Credit Section */}
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { ArrowLeft, IndianRupee, Search } from "lucide-react";
+import PaymentStatusBadge from "@/components/PaymentStatusBadge";
+import { useBranches } from "@/hooks/use-branches";
+import { balanceDue } from "@/lib/payments";
+import { formatInr } from "@shared/money";
+
+interface DueReceipt {
+  id: string;
+  receipt_number: string;
+  receipt_date: string;
+  customer_name: string;
+  mobile_number: string;
+  patient_id: string | null;
+  branch: string;
+  branch_id: string | null;
+  total_amount: number;
+  amount_paid: number;
+  payment_status: string | null;
+}
+
+interface PatientDues {
+  key: string;
+  patientId: string | null;
+  name: string;
+  mobile: string;
+  balance: number;
+  oldest: string;
+  receipts: DueReceipt[];
+}
+
+/**
+ * Patients with unpaid or part-paid receipts, largest balance first. Receipts
+ * without a linked patient are grouped by name and mobile number.
+ */
+const Dues = () => {
+  const navigate = useNavigate();
+  const [receipts, setReceipts] = useState<DueReceipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [branchFilter, setBranchFilter] = useState("all");
+  const { branches } = useBranches();
+
+  useEffect(() => {
+    const fetchDues = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("receipts")
+          .select("id, receipt_number, receipt_date, customer_name, mobile_number, patient_id, branch, branch_id, total_amount, amount_paid, payment_status")
+          .in("payment_status", ["due", "partial"])
+          .is("cancelled_at", null)
+          .order("receipt_date", { ascending: true });
+
+        if (error) throw error;
+        setReceipts(data || []);
+      } catch {
+        toast.error("Failed to load dues");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchDues();
+  }, []);
+
+  const patients = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const groups = new Map<string, PatientDues>();
+    receipts
+      .filter((r) => branchFilter === "all" || r.branch_id === branchFilter)
+      .forEach((r) => {
+        const key = r.patient_id || `${r.customer_name.trim().toLowerCase()}|${r.mobile_number}`;
+        const group = groups.get(key) || {
+          key,
+          patientId: r.patient_id,
+          name: r.customer_name,
+          mobile: r.mobile_number,
+          balance: 0,
+          oldest: r.receipt_date,
+          receipts: [],
+        };
+        group.balance += balanceDue(r);
+        group.receipts.push(r);
+        groups.set(key, group);
+      });
+    return Array.from(groups.values())
+      .filter((p) => !term || p.name.toLowerCase().includes(term) || p.mobile.includes(term))
+      .sort((a, b) => b.balance - a.balance);
+  }, [receipts, branchFilter, search]);
+
+  const totalDue = patients.reduce((sum, p) => sum + p.balance, 0);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <IndianRupee className="h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Dues</h1>
+              <p className="text-sm text-muted-foreground">Patients with outstanding balances</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Dashboard
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <div className="relative min-w-[200px] flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by name or mobile..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select value={branchFilter} onValueChange={setBranchFilter}>
+            <SelectTrigger className="w-[250px]">
+              <SelectValue placeholder="Filter by branch" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Branches</SelectItem>
+              {branches.map((b) => (
+                <SelectItem key={b.id} value={b.id}>
+                  {b.name}{b.is_active ? "" : " (retired)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {patients.length} {patients.length === 1 ? "patient" : "patients"} · {formatInr(totalDue)} due
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {patients.length === 0 ? (
+              <p className="py-6 text-center text-muted-foreground">No outstanding dues</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Mobile</TableHead>
+                    <TableHead>Receipts</TableHead>
+                    <TableHead>Oldest</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {patients.map((patient) => (
+                    <TableRow key={patient.key} className="align-top">
+                      <TableCell className="font-semibold">
+                        {patient.patientId ? (
+                          <button className="text-left hover:underline" onClick={() => navigate(`/patients/${patient.patientId}`)}>
+                            {patient.name}
+                          </button>
+                        ) : (
+                          patient.name
+                        )}
+                      </TableCell>
+                      <TableCell>{patient.mobile}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {patient.receipts.map((receipt) => (
+                            <div key={receipt.id} className="flex flex-wrap items-center gap-2 text-sm">
+                              <button
+                                className="font-mono hover:underline"
+                                onClick={() => navigate(`/receipt/${receipt.id}`)}
+                              >
+                                {receipt.receipt_number}
+                              </button>
+                              <span className="text-muted-foreground">{formatInr(balanceDue(receipt))}</span>
+                              <PaymentStatusBadge status={receipt.payment_status} />
+                            </div>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{new Date(patient.oldest).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatInr(patient.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Dues;
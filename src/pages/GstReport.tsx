@@ -0,0 +1,375 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { AlertTriangle, ArrowLeft, FileDown, Landmark } from "lucide-react";
+import { useBranches } from "@/hooks/use-branches";
+import { useCatalog } from "@/hooks/use-catalog";
+import { buildGstr1, gstr1Csv, gstr1Json, returnPeriod, type Gstr1CreditNote, type Gstr1Receipt } from "@/lib/gstr1";
+import { DEFAULT_RECEIPT_FILTERS, FETCH_CHUNK, fetchAllReceipts } from "@/lib/receipt-search";
+import { gstStateName } from "@shared/gst";
+import { formatInr } from "@shared/money";
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+
+/** Month-wise GSTR-1 sections for one branch, for the accountant to import or file. */
+const GstReport = () => {
+  const navigate = useNavigate();
+  const { branches } = useBranches();
+  const { items: catalog } = useCatalog();
+  const [branchId, setBranchId] = useState("");
+  const [month, setMonth] = useState(() => {
+    // Returns are usually filed for the month that has just ended
+    const d = new Date();
+    d.setDate(0);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+  });
+  const [receipts, setReceipts] = useState<Gstr1Receipt[]>([]);
+  const [creditNotes, setCreditNotes] = useState<Gstr1CreditNote[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!branchId && branches.length > 0) setBranchId(branches[0].id);
+  }, [branchId, branches]);
+
+  useEffect(() => {
+    if (!branchId || !month) return;
+    const fetchReceipts = async () => {
+      setLoading(true);
+      try {
+        const [year, mm] = month.split("-").map(Number);
+        const lastDay = `${month}-${String(new Date(year, mm, 0).getDate()).padStart(2, "0")}`;
+        // Notes issued this month, whatever month their receipt is from
+        const fetchCreditNotes = async () => {
+          const rows: Gstr1CreditNote[] = [];
+          for (let offset = 0; ; offset += FETCH_CHUNK) {
+            const { data, error } = await supabase
+              .from("credit_notes")
+              .select(
+                "credit_note_number, note_date, amount, receipt:receipts(receipt_number, receipt_date, total_amount, supply_type, place_of_supply, cancelled_at, items)"
+              )
+              .eq("branch_id", branchId)
+              .gte("note_date", `${month}-01`)
+              .lte("note_date", lastDay)
+              .order("note_date")
+              .order("credit_note_number")
+              .range(offset, offset + FETCH_CHUNK - 1);
+            if (error) throw error;
+            rows.push(...(data as unknown as Gstr1CreditNote[]));
+            if (!data || data.length < FETCH_CHUNK) return rows;
+          }
+        };
+        const [receiptRows, noteRows] = await Promise.all([
+          fetchAllReceipts<Gstr1Receipt>(
+            { ...DEFAULT_RECEIPT_FILTERS, branch: branchId, from: `${month}-01`, to: lastDay, sort: "receipt_date", dir: "asc" },
+            "receipt_number, receipt_date, total_amount, supply_type, place_of_supply, cancelled_at, items"
+          ),
+          fetchCreditNotes(),
+        ]);
+        setReceipts(receiptRows);
+        setCreditNotes(noteRows);
+      } catch (error) {
+        toast.error((error as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReceipts();
+  }, [branchId, month]);
+
+  const branch = branches.find((b) => b.id === branchId);
+  const report = useMemo(() => {
+    const units = new Map(catalog.filter((c) => c.hsn_sac).map((c) => [c.hsn_sac, c.unit]));
+    return buildGstr1(receipts, creditNotes, branch?.state_code || "", (hsn) => units.get(hsn));
+  }, [receipts, creditNotes, branch, catalog]);
+
+  const fileBase = `GSTR1-${branch?.code || "branch"}-${returnPeriod(month)}`;
+  const missingHsn = report.hsn.filter((row) => !row.hsn_sc).length;
+
+  const handleDownloadJson = () => {
+    if (!branch?.gstin) {
+      toast.error("Set the branch GSTIN in Admin first");
+      return;
+    }
+    downloadFile(`${fileBase}.json`, JSON.stringify(gstr1Json(report, branch.gstin, month), null, 2), "application/json");
+  };
+
+  const handleDownloadCsv = (section: keyof ReturnType<typeof gstr1Csv>) => {
+    const csv = gstr1Csv(report, gstStateName)[section];
+    downloadFile(`${fileBase}-${section}.csv`, csv, "text/csv");
+  };
+
+  const csvButton = (section: keyof ReturnType<typeof gstr1Csv>) => (
+    <Button variant="outline" size="sm" onClick={() => handleDownloadCsv(section)}>
+      <FileDown className="mr-2 h-4 w-4" />
+      CSV
+    </Button>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <Landmark className="h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">GST Return (GSTR-1)</h1>
+              <p className="text-sm text-muted-foreground">B2C, credit note, HSN-wise and document summaries for a month</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleDownloadJson} disabled={receipts.length === 0 && creditNotes.length === 0}>
+              <FileDown className="mr-2 h-4 w-4" />
+              JSON for Offline Tool
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="gst-branch">Branch</Label>
+            <Select value={branchId} onValueChange={setBranchId}>
+              <SelectTrigger id="gst-branch" className="w-[250px]">
+                <SelectValue placeholder="Select branch" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches.map((b) => (
+                  <SelectItem key={b.id} value={b.id}>
+                    {b.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gst-month">Month</Label>
+            <Input id="gst-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="w-[180px]" />
+          </div>
+          {branch && (
+            <p className="pb-2 text-sm text-muted-foreground">
+              GSTIN <span className="font-mono text-foreground">{branch.gstin || "not set"}</span>
+              {branch.state_code && ` · ${branch.state_code}-${gstStateName(branch.state_code)}`}
+            </p>
+          )}
+        </div>
+
+        {(!branch?.gstin || !branch?.state_code || missingHsn > 0) && (receipts.length > 0 || creditNotes.length > 0) && (
+          <div className="flex items-start gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+            <div>
+              {(!branch?.gstin || !branch?.state_code) && <p>Set this branch's GSTIN and state in Admin before filing.</p>}
+              {missingHsn > 0 && <p>Some items were billed without an HSN/SAC code; add codes in the catalog.</p>}
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+          </div>
+        ) : receipts.length === 0 && creditNotes.length === 0 ? (
+          <div className="rounded-lg border bg-card p-12 text-center text-muted-foreground">No receipts in this month</div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>B2C (Small) - Table 7</CardTitle>
+                {csvButton("b2cs")}
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Supply</TableHead>
+                      <TableHead>Place of Supply</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Taxable</TableHead>
+                      <TableHead className="text-right">IGST</TableHead>
+                      <TableHead className="text-right">CGST</TableHead>
+                      <TableHead className="text-right">SGST</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.b2cs.map((row) => (
+                      <TableRow key={`${row.sply_ty}-${row.pos}-${row.rt}`}>
+                        <TableCell>{row.sply_ty === "INTER" ? "Inter-state" : "Intra-state"}</TableCell>
+                        <TableCell>
+                          {row.pos ? `${row.pos}-${gstStateName(row.pos)}` : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">{row.rt}%</TableCell>
+                        <TableCell className="text-right">{formatInr(row.txval)}</TableCell>
+                        <TableCell className="text-right">{formatInr(row.iamt)}</TableCell>
+                        <TableCell className="text-right">{formatInr(row.camt)}</TableCell>
+                        <TableCell className="text-right">{formatInr(row.samt)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {report.b2cl.length > 0 && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>B2C (Large) - Table 5</CardTitle>
+                  {csvButton("b2cl")}
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Receipt No.</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.b2cl.map((invoice) => (
+                        <TableRow key={invoice.inum}>
+                          <TableCell className="font-mono text-sm">{invoice.inum}</TableCell>
+                          <TableCell>{invoice.idt}</TableCell>
+                          <TableCell>{`${invoice.pos}-${gstStateName(invoice.pos)}`}</TableCell>
+                          <TableCell className="text-right">{formatInr(invoice.val)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            {report.cdnur.length > 0 && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>Credit Notes (Unregistered) - Table 9B</CardTitle>
+                  {csvButton("cdnur")}
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Note No.</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Place of Supply</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.cdnur.map((note) => (
+                        <TableRow key={note.nt_num}>
+                          <TableCell className="font-mono text-sm">{note.nt_num}</TableCell>
+                          <TableCell>{note.nt_dt}</TableCell>
+                          <TableCell>{`${note.pos}-${gstStateName(note.pos)}`}</TableCell>
+                          <TableCell className="text-right">{formatInr(note.val)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>HSN-wise Summary - Table 12</CardTitle>
+                {csvButton("hsn")}
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>HSN/SAC</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>UQC</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Taxable</TableHead>
+                      <TableHead className="text-right">IGST</TableHead>
+                      <TableHead className="text-right">CGST</TableHead>
+                      <TableHead className="text-right">SGST</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.hsn.map((row) => (
+                      <TableRow key={`${row.hsn_sc}-${row.rt}`}>
+                        <TableCell className="font-mono">{row.hsn_sc || "—"}</TableCell>
+                        <TableCell>{row.desc}</TableCell>
+                        <TableCell>{row.uqc}</TableCell>
+                        <TableCell className="text-right">{row.qty}</TableCell>
+                        <TableCell className="text-right">{row.rt}%</TableCell>
+                        <TableCell className="text-right">{formatInr(row.txval)}</TableCell>
+                        <TableCell className="text-right">{formatInr(row.iamt)}</TableCell>
+                        <TableCell className="text-right">{formatInr(row.camt)}</TableCell>
+                        <TableCell className="text-right">{formatInr(row.samt)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {(report.docs || report.creditNoteDocs) && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>Documents Issued - Table 13</CardTitle>
+                  {csvButton("docs")}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {[
+                    { label: "Invoices", docs: report.docs },
+                    { label: "Credit notes", docs: report.creditNoteDocs },
+                  ]
+                    .filter((row) => row.docs)
+                    .map(({ label, docs }) => (
+                      <div key={label} className="grid gap-4 text-sm sm:grid-cols-5">
+                        <p className="font-medium">{label}</p>
+                        <div>
+                          <p className="text-muted-foreground">From</p>
+                          <p className="font-mono font-medium">{docs.from}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">To</p>
+                          <p className="font-mono font-medium">{docs.to}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Total</p>
+                          <p className="font-medium">{docs.totnum}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Cancelled</p>
+                          <p className="font-medium">{docs.cancel}</p>
+                        </div>
+                      </div>
+                    ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GstReport;
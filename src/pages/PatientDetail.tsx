@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { ArrowLeft, Eye, Pencil, Phone, Plus, User } from "lucide-react";
+import PatientFormDialog from "@/components/PatientFormDialog";
+import PaymentStatusBadge from "@/components/PaymentStatusBadge";
+import { genderLabel, patientAge, type Patient } from "@/lib/patient";
+import { balanceDue } from "@/lib/payments";
+import { formatInr } from "@shared/money";
+
+interface PatientReceipt {
+  id: string;
+  receipt_number: string;
+  receipt_date: string;
+  branch: string;
+  total_amount: number;
+  amount_paid: number;
+  payment_status: string | null;
+  cancelled_at: string | null;
+}
+
+const PatientDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [receipts, setReceipts] = useState<PatientReceipt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchPatient = async () => {
+      try {
+        const [{ data: patientData, error }, { data: receiptData }] = await Promise.all([
+          supabase.from("patients").select("*").eq("id", id).single(),
+          supabase
+            .from("receipts")
+            .select("id, receipt_number, receipt_date, branch, total_amount, amount_paid, payment_status, cancelled_at")
+            .eq("patient_id", id)
+            .order("receipt_date", { ascending: false }),
+        ]);
+
+        if (error) throw error;
+        setPatient(patientData);
+        setReceipts(receiptData || []);
+      } catch {
+        toast.error("Patient not found");
+        navigate("/patients");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchPatient();
+  }, [id, navigate]);
+
+  if (loading || !patient) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const billed = receipts.filter((r) => !r.cancelled_at);
+  const totalBilled = billed.reduce((sum, r) => sum + Number(r.total_amount), 0);
+  const totalDue = billed.reduce((sum, r) => sum + balanceDue(r), 0);
+  const age = patientAge(patient);
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <User className="h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">{patient.name}</h1>
+              <a
+                href={`tel:${patient.mobile_number}`}
+                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-primary"
+              >
+                <Phone className="h-3 w-3" />
+                {patient.mobile_number}
+              </a>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => navigate(`/receipt-form?patient=${patient.id}`)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Receipt
+            </Button>
+            <PatientFormDialog
+              patient={patient}
+              trigger={
+                <Button variant="outline">
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
+                </Button>
+              }
+              onSaved={setPatient}
+            />
+            <Button variant="outline" onClick={() => navigate("/patients")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Patients
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="grid gap-4 p-6 text-sm sm:grid-cols-2">
+            <div>
+              <p className="text-muted-foreground">Age</p>
+              <p className="font-medium">
+                {age ? `${age} yrs` : "—"}
+                {patient.date_of_birth && (
+                  <span className="text-muted-foreground"> (born {new Date(patient.date_of_birth).toLocaleDateString()})</span>
+                )}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Gender</p>
+              <p className="font-medium">{genderLabel(patient.gender) || "—"}</p>
+            </div>
+            <div className="sm:col-span-2">
+              <p className="text-muted-foreground">Address</p>
+              <p className="font-medium">{patient.address || "—"}</p>
+            </div>
+            {patient.notes && (
+              <div className="sm:col-span-2">
+                <p className="text-muted-foreground">Notes</p>
+                <p className="whitespace-pre-wrap font-medium">{patient.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Receipts ({receipts.length}) · {formatInr(totalBilled)}
+              {totalDue > 0 && <span className="text-destructive"> · {formatInr(totalDue)} due</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {receipts.length === 0 ? (
+              <p className="py-6 text-center text-muted-foreground">No receipts for this patient yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Receipt No.</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Branch</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipts.map((receipt) => (
+                    <TableRow key={receipt.id}>
+                      <TableCell className="font-mono text-sm">{receipt.receipt_number}</TableCell>
+                      <TableCell>{new Date(receipt.receipt_date).toLocaleDateString()}</TableCell>
+                      <TableCell>{receipt.branch}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatInr(receipt.total_amount)}</TableCell>
+                      <TableCell>
+                        <PaymentStatusBadge status={receipt.payment_status} cancelled={Boolean(receipt.cancelled_at)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => navigate(`/receipt/${receipt.id}`)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PatientDetail;
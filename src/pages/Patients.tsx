@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import {
   ArrowLeft, LogOut, Search, Trash2, Users, Phone, User,
-  Download, Mail, FileSpreadsheet, CalendarDays
+  Download, Mail, FileSpreadsheet, CalendarDays, Plus
 } from "lucide-react";
 import {
   Dialog,
@@ -23,77 +23,106 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useBranches } from "@/hooks/use-branches";
+import PatientFormDialog from "@/components/PatientFormDialog";
+import { genderLabel, patientAge, type Patient } from "@/lib/patient";
+import { useReceiptViews } from "@/hooks/use-receipt-views";
+import { DEFAULT_RECEIPT_FILTERS, fetchAllReceipts, resolveReceiptFilters, type ReceiptFilters } from "@/lib/receipt-search";
 
 interface Contact {
-  id: string;
   customer_name: string;
   mobile_number: string;
-  created_at: string;
+  branch: string;
 }
 
-interface Receipt {
-  customer_name: string;
-  mobile_number: string;
-  branch: string;
+interface Receipt extends Contact {
+  receipt_number: string;
   receipt_date: string;
+  subtotal: number;
+  discount_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  round_off: number;
   total_amount: number;
+  cancelled_at: string | null;
   items: any;
 }
 
-const Contacts = () => {
+const CONTACT_COLUMNS = "customer_name, mobile_number, branch";
+const RECEIPT_COLUMNS =
+  "receipt_number, customer_name, mobile_number, branch, receipt_date, subtotal, discount_amount, cgst_amount, sgst_amount, igst_amount, round_off, total_amount, cancelled_at, items";
+
+/** One contact per mobile number, in the order the receipts came. */
+const uniqueContacts = (receipts: Contact[]) => {
+  const seen = new Set<string>();
+  return receipts.filter((r) => {
+    if (seen.has(r.mobile_number)) return false;
+    seen.add(r.mobile_number);
+    return true;
+  });
+};
+
+/** "yyyy-mm" for every month from `since` to this month, newest first. */
+const monthsSince = (since: string) => {
+  const months: string[] = [];
+  const cursor = new Date(Number(since.slice(0, 4)), Number(since.slice(5, 7)) - 1, 1);
+  const now = new Date();
+  while (cursor <= now) {
+    months.unshift(`${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, "0")}`);
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return months;
+};
+
+const Patients = () => {
   const navigate = useNavigate();
-  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
   const [showExport, setShowExport] = useState(false);
-  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [exportData, setExportData] = useState<Contact[]>([]);
+  const [months, setMonths] = useState<string[]>([]);
   const [selectedBranch, setSelectedBranch] = useState("all");
   const [selectedMonth, setSelectedMonth] = useState("all");
   const [sending, setSending] = useState(false);
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
+  // "filters" uses the branch, month and dates below; otherwise a saved view's id
+  const [exportSource, setExportSource] = useState("filters");
+  const { branches } = useBranches();
+  const { views } = useReceiptViews();
+  const sourceView = views.find((view) => view.id === exportSource);
 
   useEffect(() => {
-    fetchContacts();
-    fetchReceipts();
+    fetchPatients();
   }, []);
 
-  const fetchContacts = async () => {
+  const fetchPatients = async () => {
     try {
       const { data, error } = await supabase
-        .from("contacts")
+        .from("patients")
         .select("*")
-        .order("customer_name", { ascending: true });
+        .order("name", { ascending: true });
 
       if (error) throw error;
-      setContacts(data || []);
+      setPatients(data || []);
     } catch {
-      toast.error("Failed to load contacts");
+      toast.error("Failed to load patients");
     } finally {
       setLoading(false);
     }
   };
 
-  const fetchReceipts = async () => {
+  // Receipts of a deleted patient are kept; they just lose the link
+  const deletePatient = async (id: string) => {
     try {
-      const { data, error } = await supabase
-        .from("receipts")
-        .select("customer_name, mobile_number, branch, receipt_date, total_amount, items");
+      const { error } = await supabase.from("patients").delete().eq("id", id);
       if (error) throw error;
-      setReceipts(data || []);
+      setPatients(patients.filter((p) => p.id !== id));
+      toast.success("Patient deleted");
     } catch {
-      // silent
-    }
-  };
-
-  const deleteContact = async (id: string) => {
-    try {
-      const { error } = await supabase.from("contacts").delete().eq("id", id);
-      if (error) throw error;
-      setContacts(contacts.filter((c) => c.id !== id));
-      toast.success("Contact deleted");
-    } catch {
-      toast.error("Failed to delete contact");
+      toast.error("Failed to delete patient");
     }
   };
 
@@ -102,43 +131,51 @@ const Contacts = () => {
     navigate("/auth");
   };
 
-  // Get unique branches & months from receipts
-  const branches = [...new Set(receipts.map((r) => r.branch))];
-  const months = [...new Set(receipts.map((r) => {
-    const d = new Date(r.receipt_date);
-    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
-  }))].sort().reverse();
-
-  // Filter contacts based on receipts for branch/month/date range
-  const getFilteredExportData = () => {
-    let filtered = receipts;
-    if (selectedBranch !== "all") {
-      filtered = filtered.filter((r) => r.branch === selectedBranch);
-    }
+  // The export's branch, month and date range as receipt search filters
+  const exportFilters = useCallback((): ReceiptFilters => {
+    if (sourceView) return resolveReceiptFilters(sourceView.filters);
+    let from = dateFrom;
+    let to = dateTo;
     if (selectedMonth !== "all") {
-      filtered = filtered.filter((r) => {
-        const d = new Date(r.receipt_date);
-        const m = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
-        return m === selectedMonth;
-      });
-    }
-    if (dateFrom) {
-      filtered = filtered.filter((r) => r.receipt_date >= dateFrom);
+      const [year, month] = selectedMonth.split("-").map(Number);
+      const monthStart = `${selectedMonth}-01`;
+      const monthEnd = `${selectedMonth}-${String(new Date(year, month, 0).getDate()).padStart(2, "0")}`;
+      from = from > monthStart ? from : monthStart;
+      to = to && to < monthEnd ? to : monthEnd;
     }
-    if (dateTo) {
-      filtered = filtered.filter((r) => r.receipt_date <= dateTo);
-    }
-    // Deduplicate by mobile number
-    const seen = new Set<string>();
-    return filtered.filter((r) => {
-      if (seen.has(r.mobile_number)) return false;
-      seen.add(r.mobile_number);
-      return true;
-    });
-  };
+    return { ...DEFAULT_RECEIPT_FILTERS, branch: selectedBranch, from, to };
+  }, [sourceView, selectedBranch, selectedMonth, dateFrom, dateTo]);
+
+  // Months to offer run from the oldest receipt to now
+  useEffect(() => {
+    if (!showExport) return;
+    const fetchMonths = async () => {
+      const { data } = await supabase
+        .from("receipts")
+        .select("receipt_date")
+        .order("receipt_date", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      setMonths(data ? monthsSince(data.receipt_date) : []);
+    };
+    fetchMonths();
+  }, [showExport]);
+
+  // Only the contact columns are loaded for the preview; the database does the filtering
+  useEffect(() => {
+    if (!showExport) return;
+    const fetchContacts = async () => {
+      try {
+        setExportData(uniqueContacts(await fetchAllReceipts<Contact>(exportFilters(), CONTACT_COLUMNS)));
+      } catch {
+        toast.error("Failed to load contacts");
+      }
+    };
+    fetchContacts();
+  }, [showExport, exportFilters]);
 
   const exportToCSV = () => {
-    const data = getFilteredExportData();
+    const data = exportData;
     if (data.length === 0) {
       toast.error("No data to export");
       return;
@@ -151,15 +188,18 @@ const Contacts = () => {
     const a = document.createElement("a");
     a.href = url;
     const monthLabel = selectedMonth === "all" ? "all-months" : selectedMonth;
-    const branchLabel = selectedBranch === "all" ? "all-branches" : selectedBranch.replace(/\s+/g, "-");
-    a.download = `contacts-${branchLabel}-${monthLabel}.csv`;
+    const branchName = branches.find((b) => b.id === selectedBranch)?.name;
+    const branchLabel = branchName ? branchName.replace(/\s+/g, "-") : "all-branches";
+    a.download = sourceView
+      ? `contacts-${sourceView.name.replace(/\s+/g, "-")}.csv`
+      : `contacts-${branchLabel}-${monthLabel}.csv`;
     a.click();
     URL.revokeObjectURL(url);
     toast.success("CSV exported successfully!");
   };
 
   const sendToEmail = async () => {
-    const data = getFilteredExportData();
+    const data = exportData;
     if (data.length === 0) {
       toast.error("No data to send");
       return;
@@ -177,24 +217,9 @@ const Contacts = () => {
 
       const toEmail = profile?.email || user.email;
 
-      // Get filtered receipts (not deduplicated) for receipt history CSV
-      let filteredReceipts = receipts;
-      if (selectedBranch !== "all") {
-        filteredReceipts = filteredReceipts.filter((r) => r.branch === selectedBranch);
-      }
-      if (selectedMonth !== "all") {
-        filteredReceipts = filteredReceipts.filter((r) => {
-          const d = new Date(r.receipt_date);
-          const m = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
-          return m === selectedMonth;
-        });
-      }
-      if (dateFrom) {
-        filteredReceipts = filteredReceipts.filter((r) => r.receipt_date >= dateFrom);
-      }
-      if (dateTo) {
-        filteredReceipts = filteredReceipts.filter((r) => r.receipt_date <= dateTo);
-      }
+      // Every matching receipt (not deduplicated) for the receipt history CSV
+      const source = exportFilters();
+      const filteredReceipts = await fetchAllReceipts<Receipt>(source, RECEIPT_COLUMNS);
 
       const { data: result, error } = await supabase.functions.invoke("send-contacts-email", {
         body: {
@@ -205,17 +230,25 @@ const Contacts = () => {
             branch: r.branch,
           })),
           receipts: filteredReceipts.map((r) => ({
+            receipt_number: r.receipt_number,
             customer_name: r.customer_name,
             mobile_number: r.mobile_number,
             branch: r.branch,
             receipt_date: r.receipt_date,
+            subtotal: r.subtotal,
+            discount_amount: r.discount_amount,
+            cgst_amount: r.cgst_amount,
+            sgst_amount: r.sgst_amount,
+            igst_amount: r.igst_amount,
+            round_off: r.round_off,
             total_amount: r.total_amount,
+            status: r.cancelled_at ? "Cancelled" : "",
             items: Array.isArray(r.items) ? r.items.map((item: any) => item.name || item.description || "").join(", ") : "",
           })),
-          branch_filter: selectedBranch,
-          month_filter: selectedMonth,
-          date_from: dateFrom || "all",
-          date_to: dateTo || "all",
+          branch_filter: source.branch,
+          month_filter: sourceView ? "all" : selectedMonth,
+          date_from: (sourceView ? source.from : dateFrom) || "all",
+          date_to: (sourceView ? source.to : dateTo) || "all",
         },
       });
 
@@ -228,14 +261,12 @@ const Contacts = () => {
     }
   };
 
-  const filtered = contacts.filter(
-    (c) =>
-      c.customer_name.toLowerCase().includes(search.toLowerCase()) ||
-      c.mobile_number.includes(search)
+  const filtered = patients.filter(
+    (p) =>
+      p.name.toLowerCase().includes(search.toLowerCase()) ||
+      p.mobile_number.includes(search)
   );
 
-  const exportData = getFilteredExportData();
-
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
       <div className="mx-auto max-w-4xl">
@@ -245,14 +276,23 @@ const Contacts = () => {
               <Users className="h-6 w-6" />
             </div>
             <div>
-              <h1 className="text-2xl font-bold">Contacts</h1>
+              <h1 className="text-2xl font-bold">Patients</h1>
               <p className="text-sm text-muted-foreground">
-                {contacts.length} saved contacts
+                {patients.length} saved patients
               </p>
             </div>
           </div>
           <div className="flex flex-wrap gap-2">
-            <Button variant="default" onClick={() => setShowExport(true)}>
+            <PatientFormDialog
+              trigger={
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Patient
+                </Button>
+              }
+              onSaved={(patient) => navigate(`/patients/${patient.id}`)}
+            />
+            <Button variant="outline" onClick={() => setShowExport(true)}>
               <FileSpreadsheet className="mr-2 h-4 w-4" />
               Export
             </Button>
@@ -284,33 +324,46 @@ const Contacts = () => {
         ) : filtered.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center text-muted-foreground">
-              {search ? "No contacts found" : "No contacts saved yet. Create a receipt to auto-save contacts."}
+              {search ? "No patients found" : "No patients saved yet. Create a receipt to auto-save patients."}
             </CardContent>
           </Card>
         ) : (
           <div className="grid gap-3 sm:grid-cols-2">
-            {filtered.map((contact) => (
-              <Card key={contact.id} className="shadow-sm">
+            {filtered.map((patient) => (
+              <Card
+                key={patient.id}
+                className="cursor-pointer shadow-sm transition-colors hover:bg-muted/50"
+                onClick={() => navigate(`/patients/${patient.id}`)}
+              >
                 <CardContent className="flex items-center justify-between p-4">
                   <div className="flex items-center gap-3">
                     <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10 text-primary">
                       <User className="h-5 w-5" />
                     </div>
                     <div>
-                      <p className="font-semibold">{contact.customer_name}</p>
+                      <p className="font-semibold">{patient.name}</p>
                       <a
-                        href={`tel:${contact.mobile_number}`}
+                        href={`tel:${patient.mobile_number}`}
+                        onClick={(e) => e.stopPropagation()}
                         className="flex items-center gap-1 text-sm text-muted-foreground hover:text-primary"
                       >
                         <Phone className="h-3 w-3" />
-                        {contact.mobile_number}
+                        {patient.mobile_number}
                       </a>
+                      {(patientAge(patient) || patient.gender) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[patientAge(patient) && `${patientAge(patient)} yrs`, genderLabel(patient.gender)].filter(Boolean).join(" · ")}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => deleteContact(contact.id)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deletePatient(patient.id);
+                    }}
                   >
                     <Trash2 className="h-4 w-4 text-destructive" />
                   </Button>
@@ -327,29 +380,51 @@ const Contacts = () => {
           <DialogHeader>
             <DialogTitle>Export Contacts</DialogTitle>
             <DialogDescription>
-              Filter by branch, month, or custom date range, then download CSV or send to your email.
+              Filter by branch, month, or custom date range, or pick a saved receipt view, then download CSV or send
+              to your email.
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4">
+            {views.length > 0 && (
+              <div>
+                <label className="text-sm font-medium text-foreground">Receipts From</label>
+                <Select value={exportSource} onValueChange={setExportSource}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="filters">The filters below</SelectItem>
+                    {views.map((view) => (
+                      <SelectItem key={view.id} value={view.id}>
+                        View: {view.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <label className="text-sm font-medium text-foreground">Branch</label>
-                <Select value={selectedBranch} onValueChange={setSelectedBranch}>
+                <Select value={selectedBranch} onValueChange={setSelectedBranch} disabled={Boolean(sourceView)}>
                   <SelectTrigger>
                     <SelectValue placeholder="All Branches" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Branches</SelectItem>
                     {branches.map((b) => (
-                      <SelectItem key={b} value={b}>{b}</SelectItem>
+                      <SelectItem key={b.id} value={b.id}>
+                        {b.name}{b.is_active ? "" : " (retired)"}
+                      </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
               <div>
                 <label className="text-sm font-medium text-foreground">Month</label>
-                <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+                <Select value={selectedMonth} onValueChange={setSelectedMonth} disabled={Boolean(sourceView)}>
                   <SelectTrigger>
                     <SelectValue placeholder="All Months" />
                   </SelectTrigger>
@@ -372,6 +447,7 @@ const Contacts = () => {
                   type="date"
                   value={dateFrom}
                   onChange={(e) => setDateFrom(e.target.value)}
+                  disabled={Boolean(sourceView)}
                 />
               </div>
               <div>
@@ -382,6 +458,7 @@ const Contacts = () => {
                   type="date"
                   value={dateTo}
                   onChange={(e) => setDateTo(e.target.value)}
+                  disabled={Boolean(sourceView)}
                 />
               </div>
             </div>
@@ -425,4 +502,4 @@ const Contacts = () => {
   );
 };
 
-export default Contacts;
+export default Patients;
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
 import { ArrowLeft, LogOut, Camera, Save, Shield } from "lucide-react";
+import { isValidVpa } from "@/lib/upi";
 
 const Profile = () => {
   const navigate = useNavigate();
@@ -17,6 +18,8 @@ const Profile = () => {
   const [fullName, setFullName] = useState("");
   const [phone, setPhone] = useState("");
   const [profileImageUrl, setProfileImageUrl] = useState("");
+  const [upiVpa, setUpiVpa] = useState("");
+  const [upiPayeeName, setUpiPayeeName] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [receiptCount, setReceiptCount] = useState(0);
@@ -57,6 +60,8 @@ const Profile = () => {
         setFullName(profile.full_name || "");
         setPhone(profile.phone || "");
         setProfileImageUrl(profile.profile_image_url || "");
+        setUpiVpa(profile.upi_vpa || "");
+        setUpiPayeeName(profile.upi_payee_name || "");
       }
     }
   };
@@ -97,6 +102,10 @@ const Profile = () => {
   };
 
   const handleSaveProfile = async () => {
+    if (upiVpa.trim() && !isValidVpa(upiVpa.trim())) {
+      toast.error("Enter a UPI ID like name@bank");
+      return;
+    }
     try {
       setLoading(true);
       
@@ -107,6 +116,8 @@ const Profile = () => {
           full_name: fullName,
           phone,
           profile_image_url: profileImageUrl,
+          upi_vpa: upiVpa.trim(),
+          upi_payee_name: upiPayeeName.trim(),
         });
 
       if (error) throw error;
@@ -222,6 +233,29 @@ const Profile = () => {
                 <Label>Email</Label>
                 <Input value={email} disabled className="bg-muted" />
               </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="upiVpa">UPI ID</Label>
+                  <Input
+                    id="upiVpa"
+                    value={upiVpa}
+                    onChange={(e) => setUpiVpa(e.target.value.trim())}
+                    placeholder="yourname@okaxis"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="upiPayeeName">UPI Payee Name</Label>
+                  <Input
+                    id="upiPayeeName"
+                    value={upiPayeeName}
+                    onChange={(e) => setUpiPayeeName(e.target.value)}
+                    placeholder="Name shown in the patient's UPI app"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Receipts with a balance due show a UPI QR for this ID, unless their branch has its own.
+              </p>
               <Button onClick={handleSaveProfile} disabled={loading}>
                 <Save className="mr-2 h-4 w-4" />
                 Save Profile
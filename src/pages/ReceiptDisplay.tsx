@@ -1,19 +1,35 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { toast } from "sonner";
-import { Printer, ArrowLeft, LogOut } from "lucide-react";
-import prescriptionTemplate from "@/assets/prescription-template.jpg";
-
-interface ReceiptItem {
-  name: string;
-  quantity: number;
-  price: number;
-}
+import { Printer, ArrowLeft, LogOut, Pencil, FileDown, Mail } from "lucide-react";
+import ReceiptCreditNotes from "@/components/ReceiptCreditNotes";
+import ReceiptPayments from "@/components/ReceiptPayments";
+import ReceiptRevisionHistory from "@/components/ReceiptRevisionHistory";
+import ReceiptOverlay from "@/components/ReceiptOverlay";
+import SendToPatientDialog from "@/components/SendToPatientDialog";
+import ShareReceiptDialog from "@/components/ShareReceiptDialog";
+import StyledReceipt, { type StyledReceiptBranch } from "@/components/StyledReceipt";
+import type { ReceiptLineItem } from "@/lib/catalog";
+import { balanceDue } from "@/lib/payments";
+import type { UpiPayee } from "@/lib/upi";
+import { receiptBatchLabels, withBatchLabels, type ReceiptBatchMovement } from "@/lib/stock";
+import { resolveTemplateStyle, type ReceiptTemplateStyle } from "@/lib/template-style";
+import { DEFAULT_RECEIPT_LAYOUT, resolveReceiptLayout, type ReceiptLayout } from "@shared/receipt-layout";
+import {
+  downloadElementPdf,
+  downloadReceiptPdf,
+  receiptPdfFileName,
+  templateBackgroundUrl,
+} from "@/lib/receipt-pdf";
 
 interface Receipt {
   id: string;
+  receipt_number: string;
   customer_name: string;
   age: string;
   mobile_number: string;
@@ -21,21 +37,26 @@ interface Receipt {
   bp: string;
   pulse: string;
   branch: string;
+  branch_id: string | null;
   receipt_date: string;
-  items: ReceiptItem[];
+  items: ReceiptLineItem[];
   subtotal: number;
+  discount_amount: number;
+  discount_reason: string;
   tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  supply_type: string;
+  round_off: number;
   total_amount: number;
+  amount_paid: number;
+  payment_status: string | null;
   created_at: string;
   template_id: string | null;
-}
-
-interface TemplateCustomText {
-  custom_text: string | null;
-  custom_text_left: string | null;
-  custom_text_top: string | null;
-  custom_text_color: string | null;
-  custom_text_font_size: string | null;
+  user_id: string;
+  cancelled_at: string | null;
+  cancellation_reason: string;
 }
 
 const ReceiptDisplay = () => {
@@ -43,7 +64,19 @@ const ReceiptDisplay = () => {
   const navigate = useNavigate();
   const [receipt, setReceipt] = useState<Receipt | null>(null);
   const [loading, setLoading] = useState(true);
-  const [customText, setCustomText] = useState<TemplateCustomText | null>(null);
+  const [layout, setLayout] = useState<ReceiptLayout>(DEFAULT_RECEIPT_LAYOUT);
+  const [backgroundImageUrl, setBackgroundImageUrl] = useState<string | null>(null);
+  const [templateStyle, setTemplateStyle] = useState<ReceiptTemplateStyle>(resolveTemplateStyle());
+  const [branchDetails, setBranchDetails] = useState<StyledReceiptBranch | null>(null);
+  // "pad" overlays the text on the prescription pad; "digital" is the styled receipt
+  const [viewMode, setViewMode] = useState<"pad" | "digital">("pad");
+  const styledReceiptRef = useRef<HTMLDivElement>(null);
+  const [pdfWithBackground, setPdfWithBackground] = useState(true);
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+  const [sendingMail, setSendingMail] = useState(false);
+  const [batchLabels, setBatchLabels] = useState<ReturnType<typeof receiptBatchLabels>>(new Map());
+  const [showBatches, setShowBatches] = useState(false);
+  const [upiPayee, setUpiPayee] = useState<UpiPayee | null>(null);
 
   useEffect(() => {
     fetchReceipt();
@@ -61,15 +94,52 @@ const ReceiptDisplay = () => {
       const receiptData = data as unknown as Receipt;
       setReceipt(receiptData);
 
-      // Fetch custom text from template if template_id exists
+      // Field positions, letterhead and colours come from the template, falling back to the standard pad
       if (receiptData.template_id) {
         const { data: tplData } = await supabase
           .from("receipt_templates")
-          .select("custom_text, custom_text_left, custom_text_top, custom_text_color, custom_text_font_size")
+          .select("layout, background_image_url, header_bg_color, header_text_color, body_bg_color, body_text_color, accent_color, font_family")
           .eq("id", receiptData.template_id)
           .single();
-        if (tplData) setCustomText(tplData as TemplateCustomText);
+        if (tplData) {
+          setLayout(resolveReceiptLayout(tplData.layout));
+          setBackgroundImageUrl(tplData.background_image_url);
+          setTemplateStyle(resolveTemplateStyle(tplData));
+        }
+      }
+
+      let payee: UpiPayee | null = null;
+      if (receiptData.branch_id) {
+        const { data: branchData } = await supabase
+          .from("branches")
+          .select("name, address, phone, gstin, upi_vpa, upi_payee_name")
+          .eq("id", receiptData.branch_id)
+          .maybeSingle();
+        if (branchData) {
+          setBranchDetails(branchData);
+          if (branchData.upi_vpa) payee = { vpa: branchData.upi_vpa, name: branchData.upi_payee_name || branchData.name };
+        }
+      }
+      // Without a branch VPA, payments go to whoever issued the receipt
+      if (!payee) {
+        const { data: ownerProfile } = await supabase
+          .from("profiles")
+          .select("full_name, upi_vpa, upi_payee_name")
+          .eq("id", receiptData.user_id)
+          .maybeSingle();
+        if (ownerProfile?.upi_vpa) {
+          payee = { vpa: ownerProfile.upi_vpa, name: ownerProfile.upi_payee_name || ownerProfile.full_name || "" };
+        }
       }
+      setUpiPayee(payee);
+
+      // Batches the sale was taken from, for the optional batch/expiry line
+      const { data: movementData } = await supabase
+        .from("stock_movements")
+        .select("catalog_item_id, quantity, catalog_items(name), stock_batches(batch_number, expiry_date)")
+        .eq("receipt_id", receiptData.id)
+        .not("batch_id", "is", null);
+      setBatchLabels(receiptBatchLabels((movementData || []) as unknown as ReceiptBatchMovement[]));
     } catch (error) {
       toast.error("Failed to load receipt");
       navigate("/");
@@ -82,6 +152,51 @@ const ReceiptDisplay = () => {
     window.print();
   };
 
+  const displayReceipt =
+    receipt && showBatches ? { ...receipt, items: withBatchLabels(receipt.items, batchLabels) } : receipt;
+
+  // The QR asks for whatever is still due, so it disappears once the receipt is paid
+  const amountDue = receipt && !receipt.cancelled_at ? balanceDue(receipt) : 0;
+  const upi = upiPayee && amountDue > 0 ? { payee: upiPayee, amount: amountDue } : null;
+
+  const handleDownloadPdf = async () => {
+    if (!receipt) return;
+    setGeneratingPdf(true);
+    try {
+      if (viewMode === "digital" && styledReceiptRef.current) {
+        await downloadElementPdf(styledReceiptRef.current, receiptPdfFileName(receipt.receipt_number));
+        return;
+      }
+      await downloadReceiptPdf([{ receipt: displayReceipt, layout, backgroundUrl: backgroundImageUrl }], receiptPdfFileName(receipt.receipt_number), {
+        includeBackground: pdfWithBackground,
+      });
+    } catch (error) {
+      toast.error("Failed to generate PDF");
+    } finally {
+      setGeneratingPdf(false);
+    }
+  };
+
+  const handleEmailPdf = async () => {
+    if (!receipt) return;
+    setSendingMail(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("send-receipt-pdf", {
+        body: {
+          receipt_ids: [receipt.id],
+          include_background: pdfWithBackground,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      toast.success(`Receipt PDF sent to ${data.to_email}`);
+    } catch (error) {
+      toast.error("Failed to send email: " + (error as Error).message);
+    } finally {
+      setSendingMail(false);
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
@@ -125,7 +240,35 @@ const ReceiptDisplay = () => {
               History
             </Button>
           </div>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {batchLabels.size > 0 && (
+              <div className="flex items-center gap-2 pr-2">
+                <Switch id="show-batches" checked={showBatches} onCheckedChange={setShowBatches} />
+                <Label htmlFor="show-batches" className="text-sm">Batch &amp; expiry</Label>
+              </div>
+            )}
+            {viewMode === "pad" && (
+              <div className="flex items-center gap-2 pr-2">
+                <Switch id="pdf-background" checked={pdfWithBackground} onCheckedChange={setPdfWithBackground} />
+                <Label htmlFor="pdf-background" className="text-sm">PDF background</Label>
+              </div>
+            )}
+            <Button variant="outline" onClick={handleDownloadPdf} disabled={generatingPdf}>
+              <FileDown className="mr-2 h-4 w-4" />
+              {generatingPdf ? "Generating..." : "Download PDF"}
+            </Button>
+            <Button variant="outline" onClick={handleEmailPdf} disabled={sendingMail}>
+              <Mail className="mr-2 h-4 w-4" />
+              {sendingMail ? "Sending..." : "Email PDF"}
+            </Button>
+            <SendToPatientDialog receipt={receipt} />
+            <ShareReceiptDialog receiptId={receipt.id} />
+            {!receipt.cancelled_at && (
+              <Button variant="outline" onClick={() => navigate(`/receipt/${receipt.id}/edit`)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            )}
             <Button onClick={handlePrint}>
               <Printer className="mr-2 h-4 w-4" />
               Print
@@ -137,77 +280,46 @@ const ReceiptDisplay = () => {
           </div>
         </div>
 
-        {/* Receipt container - fixed A4 aspect ratio */}
-        <div id="receipt-print-area" className="receipt-container relative mx-auto" style={{ width: '100%', maxWidth: '794px', aspectRatio: '210/297' }}>
-          {/* Background image - visible on screen, hidden on print */}
-          <img
-            src={prescriptionTemplate}
-            alt="Prescription Template"
-            className="print-bg absolute inset-0 h-full w-full object-fill"
-          />
-
-          {/* Text overlay - all positions in percentage */}
-          <div className="relative h-full w-full" style={{ fontSize: '12px' }}>
-            
-            {/* Name */}
-            <div className="absolute font-semibold" style={{ top: '25.5%', left: '48%', color: '#000' }}>
-              {receipt.customer_name}
-            </div>
-
-            {/* Age */}
-            <div className="absolute font-semibold" style={{ top: '25.5%', left: '82%', color: '#000' }}>
-              {receipt.age}
-            </div>
-
-            {/* Date */}
-            <div className="absolute font-semibold" style={{ top: '25.5%', left: '90%', color: '#000' }}>
-              {new Date(receipt.receipt_date).toLocaleDateString('en-GB')}
-            </div>
-
-            {/* Address */}
-            <div className="absolute font-semibold" style={{ top: '28%', left: '48%', color: '#000' }}>
-              {receipt.address}
-            </div>
-
-            {/* BP */}
-            <div className="absolute font-semibold" style={{ top: '28%', left: '75%', color: '#000' }}>
-              {receipt.bp || '-'}
-            </div>
-
-            {/* Pulse */}
-            <div className="absolute font-semibold" style={{ top: '28%', left: '90%', color: '#000' }}>
-              {receipt.pulse || '-'}
-            </div>
-
-            {/* Items */}
-            <div className="absolute" style={{ top: '38%', left: '35%', right: '5%', color: '#000' }}>
-              {receipt.items.map((item, index) => (
-                <div key={index} className="flex justify-between font-semibold mb-2" style={{ fontSize: '13px' }}>
-                  <span style={{ width: '50%' }}>{item.name}</span>
-                  <span style={{ width: '20%', textAlign: 'center' }}>Qty: {item.quantity}</span>
-                  <span style={{ width: '30%', textAlign: 'right' }}>₹{item.price.toFixed(2)}</span>
-                </div>
-              ))}
-            </div>
-
-            {/* Custom Text from Template */}
-            {customText?.custom_text && (
-              <div
-                className="absolute font-semibold"
-                style={{
-                  left: customText.custom_text_left || '50%',
-                  top: customText.custom_text_top || '50%',
-                  color: customText.custom_text_color || '#000',
-                  fontSize: customText.custom_text_font_size || '14px',
-                }}
-              >
-                {customText.custom_text}
-              </div>
-            )}
-
-            {/* Subtotal, Tax, Total */}
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2 no-print">
+          <div className="text-sm text-muted-foreground">
+            Receipt No. <span className="font-mono font-semibold text-foreground">{receipt.receipt_number}</span>
           </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={viewMode}
+            onValueChange={(value) => value && setViewMode(value as "pad" | "digital")}
+          >
+            <ToggleGroupItem value="pad">Prescription Pad</ToggleGroupItem>
+            <ToggleGroupItem value="digital">Digital Receipt</ToggleGroupItem>
+          </ToggleGroup>
         </div>
+
+        {/* Styled digital receipt, or the receipt container with a fixed A4 aspect ratio */}
+        {viewMode === "digital" ? (
+          <div ref={styledReceiptRef}>
+            <StyledReceipt receipt={displayReceipt} style={templateStyle} branch={branchDetails} upi={upi} />
+          </div>
+        ) : (
+          <div id="receipt-print-area" className="receipt-container relative mx-auto" style={{ width: '100%', maxWidth: '794px', aspectRatio: '210/297' }}>
+            {/* Background image - visible on screen, hidden on print */}
+            <img
+              src={templateBackgroundUrl(backgroundImageUrl)}
+              alt="Prescription Template"
+              className="print-bg absolute inset-0 h-full w-full object-fill"
+            />
+
+            {/* Text overlay - all positions in percentage */}
+            <ReceiptOverlay receipt={displayReceipt} layout={layout} upi={upi} />
+          </div>
+        )}
+
+        <ReceiptPayments receipt={receipt} onChange={fetchReceipt} />
+
+        <ReceiptCreditNotes receipt={receipt} onChange={fetchReceipt} />
+
+        <ReceiptRevisionHistory receiptId={receipt.id} />
       </div>
 
       <style>{`
@@ -238,6 +350,15 @@ const ReceiptDisplay = () => {
           .print-bg {
             display: none !important;
           }
+          /* Keep the template colours of the digital receipt */
+          .styled-receipt {
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+            max-width: none !important;
+            border: none !important;
+            border-radius: 0 !important;
+            box-shadow: none !important;
+          }
           /* Make receipt fill entire page */
           .receipt-container {
             width: 210mm !important;
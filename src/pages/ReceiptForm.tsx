@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useState, useEffect } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,6 +10,15 @@ import { toast } from "sonner";
 import { Plus, Trash2, LogOut, FileText, History, User } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { z } from "zod";
+import { useBranches } from "@/hooks/use-branches";
+import { useCatalog, type CatalogItem } from "@/hooks/use-catalog";
+import PatientPicker from "@/components/PatientPicker";
+import CatalogItemInput from "@/components/CatalogItemInput";
+import { findCatalogItemByName, type ReceiptLineItem } from "@/lib/catalog";
+import { ageFromDateOfBirth, GENDER_OPTIONS, patientAge, type Patient } from "@/lib/patient";
+import { PAYMENT_MODES } from "@/lib/payments";
+import { applyDiscounts, discountOn, DISCOUNT_TYPES, type DiscountType } from "@/lib/discount";
+import { applyGst, GST_RATES, GST_STATES, supplyTypeFor } from "@shared/gst";
 import {
   Select,
   SelectContent,
@@ -16,12 +26,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { amountInWords, formatAdjustment, formatAmount, formatInr, roundOff } from "@shared/money";
 
 const itemSchema = z.object({
   name: z.string().trim().min(1, "Item name required").max(100),
   quantity: z.number().positive("Quantity must be positive").max(10000),
-  price: z.number().positive("Price must be positive").max(1000000),
-});
+  price: z.number().min(0, "Price can't be negative").max(1000000),
+  catalog_item_id: z.string().nullable().optional(),
+  tax_rate: z.number().min(0).max(100),
+  hsn_sac: z.string().trim().regex(/^(\d{4}|\d{6}|\d{8})?$/, "HSN/SAC code must be 4, 6 or 8 digits"),
+  discount_type: z.enum(["percent", "flat"]),
+  discount_value: z.number().min(0, "Discount can't be negative"),
+}).refine(
+  (item) => item.discount_value <= (item.discount_type === "flat" ? item.quantity * item.price : 100),
+  "An item's discount can't be more than its value"
+);
 
 const receiptSchema = z.object({
   customerName: z.string().trim().min(1, "Name required").max(100),
@@ -33,50 +52,213 @@ const receiptSchema = z.object({
   branch: z.string().min(1, "Branch required"),
   date: z.string().min(1, "Date required"),
   items: z.array(itemSchema).min(0),
-  taxRate: z.number().min(0).max(100),
+  placeOfSupply: z.string().regex(/^(\d{2})?$/),
+  billDiscountType: z.enum(["percent", "flat"]),
+  billDiscountValue: z.number().min(0, "Discount can't be negative"),
+  discountReason: z.string().trim().max(200),
   showItems: z.boolean(),
-});
+}).refine(
+  (receipt) => {
+    if (receipt.billDiscountType === "percent") return receipt.billDiscountValue <= 100;
+    const net = receipt.items.reduce((total, item) => {
+      const gross = item.quantity * item.price;
+      return total + gross - discountOn(gross, item.discount_type, item.discount_value);
+    }, 0);
+    return receipt.billDiscountValue <= net;
+  },
+  "The bill discount can't be more than the bill"
+);
 
-interface Item {
+interface Item extends ReceiptLineItem {
   id: string;
-  name: string;
-  quantity: number;
-  price: number;
+  tax_rate: number;
+  hsn_sac: string;
+  discount_type: DiscountType;
+  discount_value: number;
 }
 
+const newItem = (id: string): Item => ({
+  id,
+  name: "",
+  quantity: 1,
+  price: 0,
+  tax_rate: 0,
+  hsn_sac: "",
+  discount_type: "percent",
+  discount_value: 0,
+});
+
 const ReceiptForm = () => {
   const navigate = useNavigate();
+  const { id: receiptId } = useParams();
+  const [searchParams] = useSearchParams();
+  const isEditing = Boolean(receiptId);
   const [customerName, setCustomerName] = useState("");
   const [age, setAge] = useState("");
   const [mobileNumber, setMobileNumber] = useState("");
   const [address, setAddress] = useState("");
+  const [gender, setGender] = useState("");
+  const [dateOfBirth, setDateOfBirth] = useState("");
+  const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [bp, setBp] = useState("");
   const [pulse, setPulse] = useState("");
-  const [branch, setBranch] = useState("Near Shivaji Chowk Banka");
+  const [branchId, setBranchId] = useState("");
   const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
-  const [items, setItems] = useState<Item[]>([
-    { id: "1", name: "", quantity: 1, price: 0 },
-  ]);
-  const [taxRate, setTaxRate] = useState(18);
+  const [items, setItems] = useState<Item[]>([newItem("1")]);
+  // Blank means the patient is in the branch's own state
+  const [placeOfSupply, setPlaceOfSupply] = useState("");
+  const [billDiscountType, setBillDiscountType] = useState<DiscountType>("percent");
+  const [billDiscountValue, setBillDiscountValue] = useState(0);
+  const [discountReason, setDiscountReason] = useState("");
+  // Payment taken when a new receipt is created; blank means the full total
+  const [paymentMode, setPaymentMode] = useState("cash");
+  const [amountReceived, setAmountReceived] = useState("");
+  const [paymentReference, setPaymentReference] = useState("");
   const [loading, setLoading] = useState(false);
   const [showItems, setShowItems] = useState(true);
-  const [showSummary, setShowSummary] = useState(true);
-  const [templates, setTemplates] = useState<{ id: string; name: string; custom_text: string }[]>([]);
+  const [chargeTax, setChargeTax] = useState(true);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
+  const [loadingReceipt, setLoadingReceipt] = useState(isEditing);
+  const [rounding, setRounding] = useState("none");
+  const { branches, activeBranches } = useBranches();
+  const { activeItems: catalogItems } = useCatalog();
+
+  // New receipts default to the first active branch once branches have loaded
+  useEffect(() => {
+    if (!isEditing && !branchId && activeBranches.length > 0) {
+      setBranchId(activeBranches[0].id);
+    }
+  }, [isEditing, branchId, activeBranches]);
 
   useEffect(() => {
     const fetchTemplates = async () => {
       const { data } = await supabase
         .from("receipt_templates")
-        .select("id, name, custom_text")
+        .select("id, name")
         .order("created_at", { ascending: false });
       if (data) setTemplates(data);
     };
     fetchTemplates();
   }, []);
 
+  // The database rounds the total when saving; the preview follows the same
+  // setting, or for an existing receipt the rounding it was created with
+  useEffect(() => {
+    if (isEditing) return;
+
+    const fetchRounding = async () => {
+      const { data } = await supabase
+        .from("site_settings")
+        .select("value")
+        .eq("key", "receipt_rounding")
+        .maybeSingle();
+      if (data?.value) setRounding(data.value);
+    };
+    fetchRounding();
+  }, [isEditing]);
+
+  const applyPatient = useCallback((patient: Patient | null, onDate?: string) => {
+    setSelectedPatient(patient);
+    if (!patient) return;
+    setCustomerName(patient.name);
+    setMobileNumber(patient.mobile_number);
+    setAge(patientAge(patient, onDate));
+    setAddress(patient.address);
+    setGender(patient.gender || "");
+    setDateOfBirth(patient.date_of_birth || "");
+  }, []);
+
+  // "New Receipt" from a patient's page arrives with ?patient=<id>
+  const preselectedPatientId = searchParams.get("patient");
+  useEffect(() => {
+    if (isEditing || !preselectedPatientId) return;
+
+    const fetchPatient = async () => {
+      const { data } = await supabase
+        .from("patients")
+        .select("*")
+        .eq("id", preselectedPatientId)
+        .maybeSingle();
+      if (data) applyPatient(data);
+    };
+    fetchPatient();
+  }, [isEditing, preselectedPatientId, applyPatient]);
+
+  useEffect(() => {
+    if (!receiptId) return;
+
+    const fetchReceipt = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("receipts")
+          .select("*")
+          .eq("id", receiptId)
+          .single();
+
+        if (error) throw error;
+        if (data.cancelled_at) {
+          toast.error("Cancelled receipts cannot be edited");
+          navigate(`/receipt/${receiptId}`);
+          return;
+        }
+
+        const savedItems = (Array.isArray(data.items) ? data.items : []) as unknown as Omit<Item, "id">[];
+        const tax = Number(data.tax_amount);
+
+        setCustomerName(data.customer_name);
+        setAge(data.age || "");
+        setMobileNumber(data.mobile_number);
+        setAddress(data.address);
+        setBp(data.bp || "");
+        setPulse(data.pulse || "");
+        setBranchId(data.branch_id || "");
+        setDate(data.receipt_date);
+        setPlaceOfSupply(data.place_of_supply || "");
+        setBillDiscountType(data.bill_discount_type === "flat" ? "flat" : "percent");
+        setBillDiscountValue(Number(data.bill_discount_value) || 0);
+        setDiscountReason(data.discount_reason || "");
+        setSelectedTemplate(data.template_id || "none");
+        setRounding(data.rounding_mode || "none");
+        if (data.patient_id) {
+          // Keep the receipt's own name/age/address; only link the patient record
+          const { data: patient } = await supabase
+            .from("patients")
+            .select("*")
+            .eq("id", data.patient_id)
+            .maybeSingle();
+          if (patient) {
+            setSelectedPatient(patient);
+            setGender(patient.gender || "");
+            setDateOfBirth(patient.date_of_birth || "");
+          }
+        }
+        setShowItems(savedItems.length > 0);
+        if (savedItems.length > 0) {
+          setItems(
+            savedItems.map((item, index) => ({
+              ...item,
+              id: String(index + 1),
+              tax_rate: Number(item.tax_rate) || 0,
+              hsn_sac: item.hsn_sac || "",
+              discount_type: item.discount_type === "flat" ? "flat" : "percent",
+              discount_value: Number(item.discount_value) || 0,
+            }))
+          );
+        }
+        setChargeTax(tax > 0);
+      } catch (error) {
+        toast.error("Failed to load receipt");
+        navigate("/history");
+      } finally {
+        setLoadingReceipt(false);
+      }
+    };
+    fetchReceipt();
+  }, [receiptId, navigate]);
+
   const addItem = () => {
-    setItems([...items, { id: Date.now().toString(), name: "", quantity: 1, price: 0 }]);
+    setItems([...items, newItem(Date.now().toString())]);
   };
 
   const removeItem = (id: string) => {
@@ -93,16 +275,45 @@ const ReceiptForm = () => {
     );
   };
 
-  const calculateSubtotal = () => {
-    return items.reduce((sum, item) => sum + item.quantity * item.price, 0);
+  // Typing an exact catalog name links the item too, so hand-typed lines still group
+  const updateItemName = (id: string, name: string) => {
+    const match = findCatalogItemByName(catalogItems, name);
+    setItems(items.map((item) => (item.id === id ? { ...item, name, catalog_item_id: match?.id ?? null } : item)));
   };
 
-  const calculateTax = () => {
-    return (calculateSubtotal() * taxRate) / 100;
+  const pickCatalogItem = (id: string, catalogItem: CatalogItem) => {
+    setItems(
+      items.map((item) =>
+        item.id === id
+          ? {
+              ...item,
+              name: catalogItem.name,
+              price: Number(catalogItem.default_price),
+              tax_rate: Number(catalogItem.tax_rate),
+              hsn_sac: catalogItem.hsn_sac,
+              catalog_item_id: catalogItem.id,
+            }
+          : item
+      )
+    );
   };
 
-  const calculateTotal = () => {
-    return calculateSubtotal() + calculateTax();
+  const branchState = branches.find((b) => b.id === branchId)?.state_code || "";
+  const supplyType = supplyTypeFor(branchState, placeOfSupply || branchState);
+
+  // Discounts come off first, so GST is charged on the discounted value. With
+  // tax switched off every line is saved at 0%, but keeps its HSN/SAC code.
+  const taxedLines = (lines: Omit<Item, "id">[]) => {
+    const discounted = applyDiscounts(lines, billDiscountType, billDiscountValue);
+    return applyGst(chargeTax ? discounted : discounted.map((line) => ({ ...line, tax_rate: 0 })), supplyType);
+  };
+
+  const gst = taxedLines(showItems ? items : []);
+  const rounded = roundOff(gst.totals.total_amount, rounding);
+
+  const handleDateOfBirthChange = (value: string) => {
+    setDateOfBirth(value);
+    if (value) setAge(String(ageFromDateOfBirth(value, date)));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -116,10 +327,13 @@ const ReceiptForm = () => {
         address,
         bp,
         pulse,
-        branch,
+        branch: branchId,
         date,
         items: showItems ? items.map(({ id, ...item }) => item) : [],
-        taxRate: showSummary ? taxRate : 0,
+        placeOfSupply,
+        billDiscountType,
+        billDiscountValue,
+        discountReason,
         showItems,
       });
 
@@ -135,48 +349,56 @@ const ReceiptForm = () => {
         return;
       }
 
-      const { data, error } = await supabase
-        .from("receipts")
-        .insert({
-          user_id: user.id,
+      // The totals here are only a preview: the database reprices the items
+      // in paise and saves the patient, receipt and first payment together.
+      const { items: taxedItems, totals } = taxedLines(validated.items as Omit<Item, "id">[]);
+      const received = amountReceived === "" ? null : Number(amountReceived);
+      if (!isEditing && received !== null && (received < 0 || received > roundOff(totals.total_amount, rounding).rounded)) {
+        toast.error("Amount received can't be more than the total");
+        return;
+      }
+
+      const { data: savedId, error } = await supabase.rpc("save_receipt", {
+        _receipt_id: receiptId,
+        _patient: {
+          id: selectedPatient?.id || null,
+          name: validated.customerName,
+          mobile_number: validated.mobileNumber,
+          age: validated.age,
+          date_of_birth: dateOfBirth || null,
+          gender: gender || null,
+          address: validated.address,
+        },
+        _receipt: {
           customer_name: validated.customerName,
           age: validated.age,
           mobile_number: validated.mobileNumber,
           address: validated.address,
           bp: validated.bp,
           pulse: validated.pulse,
-          branch: validated.branch,
+          branch_id: validated.branch,
           receipt_date: validated.date,
-          items: validated.items,
-          subtotal: calculateSubtotal(),
-          tax_amount: calculateTax(),
-          total_amount: calculateTotal(),
+          items: taxedItems as unknown as Json,
+          place_of_supply: validated.placeOfSupply,
+          bill_discount_type: validated.billDiscountType,
+          bill_discount_value: validated.billDiscountValue,
+          discount_reason: totals.discount_amount > 0 ? validated.discountReason : "",
           template_id: selectedTemplate && selectedTemplate !== "none" ? selectedTemplate : null,
-        })
-        .select()
-        .single();
+        },
+        _payment: isEditing
+          ? null
+          : { mode: paymentMode, amount: received, reference: paymentReference.trim() },
+      });
 
       if (error) throw error;
 
-      // Auto-save contact details
-      await supabase
-        .from("contacts")
-        .upsert(
-          {
-            user_id: user.id,
-            customer_name: validated.customerName,
-            mobile_number: validated.mobileNumber,
-          },
-          { onConflict: "user_id,mobile_number" }
-        );
-
-      toast.success("Receipt created successfully!");
-      navigate(`/receipt/${data.id}`);
+      toast.success(isEditing ? "Receipt updated successfully!" : "Receipt created successfully!");
+      navigate(`/receipt/${savedId}`);
     } catch (error) {
       if (error instanceof z.ZodError) {
         toast.error(error.errors[0].message);
       } else {
-        toast.error("Failed to create receipt");
+        toast.error(`${isEditing ? "Failed to update receipt" : "Failed to create receipt"}: ${(error as Error).message}`);
       }
     } finally {
       setLoading(false);
@@ -188,6 +410,14 @@ const ReceiptForm = () => {
     navigate("/auth");
   };
 
+  if (loadingReceipt) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
       <div className="mx-auto max-w-4xl">
@@ -197,8 +427,10 @@ const ReceiptForm = () => {
               <FileText className="h-6 w-6" />
             </div>
             <div>
-              <h1 className="text-2xl font-bold">Create Receipt</h1>
-              <p className="text-sm text-muted-foreground">Fill in the details below</p>
+              <h1 className="text-2xl font-bold">{isEditing ? "Edit Receipt" : "Create Receipt"}</h1>
+              <p className="text-sm text-muted-foreground">
+                {isEditing ? "Changes are saved as a new revision" : "Fill in the details below"}
+              </p>
             </div>
           </div>
           <div className="flex gap-2">
@@ -227,6 +459,7 @@ const ReceiptForm = () => {
               <CardDescription>Enter customer information</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <PatientPicker selected={selectedPatient} onSelect={(patient) => applyPatient(patient, date)} />
               <div className="grid gap-4 md:grid-cols-3">
                 <div className="space-y-2">
                   <Label htmlFor="name">Customer Name *</Label>
@@ -263,6 +496,33 @@ const ReceiptForm = () => {
                   />
                 </div>
               </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="gender">Gender</Label>
+                  <Select value={gender} onValueChange={setGender}>
+                    <SelectTrigger id="gender">
+                      <SelectValue placeholder="Select gender" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GENDER_OPTIONS.map((g) => (
+                        <SelectItem key={g.value} value={g.value}>
+                          {g.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dob">Date of Birth</Label>
+                  <Input
+                    id="dob"
+                    type="date"
+                    value={dateOfBirth}
+                    max={date}
+                    onChange={(e) => handleDateOfBirthChange(e.target.value)}
+                  />
+                </div>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="address">Address *</Label>
                 <Input
@@ -297,17 +557,19 @@ const ReceiptForm = () => {
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
                   <Label htmlFor="branch">Branch *</Label>
-                  <Select value={branch} onValueChange={setBranch}>
+                  <Select value={branchId} onValueChange={setBranchId}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select branch" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Near Shivaji Chowk Banka">
-                        Near Shivaji Chowk Banka
-                      </SelectItem>
-                      <SelectItem value="Nimiya Belhar Banka">
-                        Nimiya Belhar Banka
-                      </SelectItem>
+                      {/* A receipt being edited may belong to a branch that has since been retired */}
+                      {branches
+                        .filter((b) => b.is_active || b.id === branchId)
+                        .map((b) => (
+                          <SelectItem key={b.id} value={b.id}>
+                            {b.name}
+                          </SelectItem>
+                        ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -331,7 +593,7 @@ const ReceiptForm = () => {
                     <SelectItem value="none">No template</SelectItem>
                     {templates.map((t) => (
                       <SelectItem key={t.id} value={t.id}>
-                        {t.name} {t.custom_text ? `- "${t.custom_text}"` : ""}
+                        {t.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -376,15 +638,15 @@ const ReceiptForm = () => {
                         </Button>
                       )}
                     </div>
-                    <div className="grid gap-4 md:grid-cols-3">
-                      <div className="space-y-2">
+                    <div className="grid gap-4 md:grid-cols-6">
+                      <div className="space-y-2 md:col-span-2">
                         <Label>Item Name *</Label>
-                        <Input
+                        <CatalogItemInput
                           value={item.name}
-                          onChange={(e) => updateItem(item.id, "name", e.target.value)}
-                          placeholder="Product name"
-                          maxLength={100}
-                          required
+                          catalog={catalogItems}
+                          onChange={(name) => updateItemName(item.id, name)}
+                          onPick={(catalogItem) => pickCatalogItem(item.id, catalogItem)}
+                          placeholder="Product or service"
                         />
                       </div>
                       <div className="space-y-2">
@@ -410,10 +672,72 @@ const ReceiptForm = () => {
                           required
                         />
                       </div>
+                      <div className="space-y-2">
+                        <Label>GST (%)</Label>
+                        <Select
+                          value={String(item.tax_rate)}
+                          onValueChange={(value) => updateItem(item.id, "tax_rate", Number(value))}
+                          disabled={!chargeTax}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {/* Keep an off-slab rate from the catalog or an older receipt selectable */}
+                            {(GST_RATES.includes(item.tax_rate) ? GST_RATES : [...GST_RATES, item.tax_rate]).map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>
+                                {rate}%
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>HSN/SAC</Label>
+                        <Input
+                          value={item.hsn_sac}
+                          onChange={(e) => updateItem(item.id, "hsn_sac", e.target.value.replace(/\D/g, "").slice(0, 8))}
+                          placeholder="3004"
+                          maxLength={8}
+                        />
+                      </div>
+                    </div>
+                    <div className="mt-4 grid gap-4 md:grid-cols-6">
+                      <div className="space-y-2 md:col-span-2">
+                        <Label>Discount</Label>
+                        <div className="flex gap-2">
+                          <Select
+                            value={item.discount_type}
+                            onValueChange={(value) => updateItem(item.id, "discount_type", value)}
+                          >
+                            <SelectTrigger className="w-20">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DISCOUNT_TYPES.map((type) => (
+                                <SelectItem key={type.value} value={type.value}>
+                                  {type.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            max={item.discount_type === "percent" ? "100" : undefined}
+                            value={item.discount_value}
+                            onChange={(e) => updateItem(item.id, "discount_value", Number(e.target.value))}
+                          />
+                        </div>
+                      </div>
                     </div>
                     <div className="mt-2 text-right">
                       <span className="text-sm text-muted-foreground">
-                        Total: ₹{(item.quantity * item.price).toFixed(2)}
+                        Total: {formatInr(item.quantity * item.price)}
+                        {item.discount_value > 0 &&
+                          ` - ${formatInr(discountOn(item.quantity * item.price, item.discount_type, item.discount_value))} off`}
+                        {chargeTax && item.tax_rate > 0 && ` + ${item.tax_rate}% GST`}
                       </span>
                     </div>
                   </div>
@@ -425,44 +749,163 @@ const ReceiptForm = () => {
           <Card className="mb-6 shadow-medium">
             <CardHeader>
               <div className="flex items-center justify-between">
-                <CardTitle>Summary</CardTitle>
-                <Switch checked={showSummary} onCheckedChange={setShowSummary} />
+                <div>
+                  <CardTitle>Summary</CardTitle>
+                  <CardDescription>Discounts come off before GST at each item's rate</CardDescription>
+                </div>
+                <Switch checked={chargeTax} onCheckedChange={setChargeTax} />
               </div>
             </CardHeader>
-            {showSummary && (
-              <CardContent className="space-y-4">
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
                 <div className="space-y-2">
-                  <Label htmlFor="taxRate">Tax Rate (%)</Label>
+                  <Label htmlFor="billDiscount">Bill Discount</Label>
+                  <div className="flex gap-2">
+                    <Select value={billDiscountType} onValueChange={(value) => setBillDiscountType(value as DiscountType)}>
+                      <SelectTrigger className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DISCOUNT_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      id="billDiscount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      max={billDiscountType === "percent" ? "100" : undefined}
+                      value={billDiscountValue}
+                      onChange={(e) => setBillDiscountValue(Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="discountReason">Discount Reason</Label>
                   <Input
-                    id="taxRate"
-                    type="number"
-                    min="0"
-                    max="100"
-                    step="0.01"
-                    value={taxRate}
-                    onChange={(e) => setTaxRate(Number(e.target.value))}
+                    id="discountReason"
+                    value={discountReason}
+                    onChange={(e) => setDiscountReason(e.target.value)}
+                    placeholder="Optional, e.g. senior citizen"
+                    maxLength={200}
                   />
                 </div>
-                <div className="space-y-2 rounded-lg bg-muted p-4">
+              </div>
+              {chargeTax && (
+                <div className="space-y-2">
+                  <Label htmlFor="placeOfSupply">Place of Supply</Label>
+                  <Select value={placeOfSupply || "branch"} onValueChange={(value) => setPlaceOfSupply(value === "branch" ? "" : value)}>
+                    <SelectTrigger id="placeOfSupply">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="branch">Same state as branch</SelectItem>
+                      {GST_STATES.map((state) => (
+                        <SelectItem key={state.code} value={state.code}>
+                          {state.code} - {state.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!branchState && placeOfSupply && (
+                    <p className="text-xs text-muted-foreground">
+                      Set the branch's state in Admin to charge IGST on inter-state sales.
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="space-y-2 rounded-lg bg-muted p-4">
+                <div className="flex justify-between text-sm">
+                  <span>Subtotal:</span>
+                  <span>{formatInr(gst.totals.subtotal)}</span>
+                </div>
+                {gst.totals.discount_amount > 0 && (
                   <div className="flex justify-between text-sm">
-                    <span>Subtotal:</span>
-                    <span>₹{calculateSubtotal().toFixed(2)}</span>
+                    <span>Discount:</span>
+                    <span>-{formatInr(gst.totals.discount_amount)}</span>
                   </div>
+                )}
+                {supplyType === "inter" ? (
                   <div className="flex justify-between text-sm">
-                    <span>Tax ({taxRate}%):</span>
-                    <span>₹{calculateTax().toFixed(2)}</span>
+                    <span>IGST:</span>
+                    <span>{formatInr(gst.totals.igst_amount)}</span>
                   </div>
-                  <div className="flex justify-between border-t pt-2 font-semibold">
-                    <span>Total:</span>
-                    <span className="text-primary">₹{calculateTotal().toFixed(2)}</span>
+                ) : (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span>CGST:</span>
+                      <span>{formatInr(gst.totals.cgst_amount)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span>SGST:</span>
+                      <span>{formatInr(gst.totals.sgst_amount)}</span>
+                    </div>
+                  </>
+                )}
+                {rounded.adjustment !== 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span>Round off:</span>
+                    <span>{formatAdjustment(rounded.adjustment)}</span>
                   </div>
+                )}
+                <div className="flex justify-between border-t pt-2 font-semibold">
+                  <span>Total:</span>
+                  <span className="text-primary">{formatInr(rounded.rounded)}</span>
                 </div>
-              </CardContent>
-            )}
+                <p className="text-xs text-muted-foreground">{amountInWords(rounded.rounded)}</p>
+              </div>
+              {!isEditing && (
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentMode">Paid By</Label>
+                    <Select value={paymentMode} onValueChange={setPaymentMode}>
+                      <SelectTrigger id="paymentMode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PAYMENT_MODES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="amountReceived">Amount Received (₹)</Label>
+                    <Input
+                      id="amountReceived"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amountReceived}
+                      onChange={(e) => setAmountReceived(e.target.value)}
+                      placeholder={`${formatAmount(rounded.rounded)} (full)`}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentReference">Reference</Label>
+                    <Input
+                      id="paymentReference"
+                      value={paymentReference}
+                      onChange={(e) => setPaymentReference(e.target.value)}
+                      placeholder={paymentMode === "cash" ? "Optional" : "UPI ref / card slip no."}
+                      maxLength={100}
+                    />
+                  </div>
+                </div>
+              )}
+            </CardContent>
           </Card>
 
           <Button type="submit" size="lg" className="w-full" disabled={loading}>
-            {loading ? "Creating Receipt..." : "Generate Receipt"}
+            {isEditing
+              ? loading ? "Saving Changes..." : "Save Changes"
+              : loading ? "Creating Receipt..." : "Generate Receipt"}
           </Button>
         </form>
       </div>
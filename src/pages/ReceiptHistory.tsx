@@ -1,11 +1,11 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { ArrowLeft, Eye, Trash2, LogOut, Search, Download, Mail } from "lucide-react";
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, Ban, ChevronLeft, ChevronRight, Eye, Pencil, LogOut, Download, Mail, Printer } from "lucide-react";
 import {
   Table,
   TableBody,
@@ -14,134 +14,262 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { useBranches } from "@/hooks/use-branches";
+import { useReceiptViews } from "@/hooks/use-receipt-views";
+import CancelReceiptDialog from "@/components/CancelReceiptDialog";
+import PaymentStatusBadge from "@/components/PaymentStatusBadge";
+import ReceiptBulkActions from "@/components/ReceiptBulkActions";
+import ReceiptFilterBar from "@/components/ReceiptFilterBar";
+import ReceiptViewsBar from "@/components/ReceiptViewsBar";
+import { balanceDue, PAYMENT_STATUSES, type PaymentStatus } from "@/lib/payments";
+import {
+  fetchAllReceipts,
+  fetchReceiptsById,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  hasReceiptFilters,
+  RECEIPT_PAGE_SIZE,
+  RECEIPT_SORTS,
+  resolveReceiptFilters,
+  searchReceipts,
+  type ReceiptFilters,
+  type ReceiptSort,
+} from "@/lib/receipt-search";
+import { formatAmount, formatInr } from "@shared/money";
 
 interface Receipt {
   id: string;
+  receipt_number: string;
   customer_name: string;
   mobile_number: string;
   receipt_date: string;
+  subtotal: number;
+  discount_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  round_off: number;
   total_amount: number;
+  amount_paid: number;
+  payment_status: string | null;
   branch: string;
+  branch_id: string | null;
   created_at: string;
+  cancelled_at: string | null;
+}
+
+const RECEIPT_COLUMNS =
+  "id, receipt_number, customer_name, mobile_number, receipt_date, subtotal, discount_amount, cgst_amount, sgst_amount, igst_amount, round_off, total_amount, amount_paid, payment_status, branch, branch_id, created_at, cancelled_at";
+
+// Ticked receipts by id. With `allMatching`, everything the filters match is
+// selected and `ids` holds the receipts unticked since.
+interface Selection {
+  allMatching: boolean;
+  ids: Set<string>;
+}
+
+const NO_SELECTION: Selection = { allMatching: false, ids: new Set() };
+
+const statusLabel = (receipt: Receipt) =>
+  receipt.cancelled_at ? "Cancelled" : PAYMENT_STATUSES[receipt.payment_status as PaymentStatus]?.label || "";
+
+interface SortableHeadProps {
+  column: ReceiptSort;
+  filters: ReceiptFilters;
+  onSort: (column: ReceiptSort) => void;
+  className?: string;
 }
 
+const SortableHead = ({ column, filters, onSort, className }: SortableHeadProps) => {
+  const Icon = filters.sort !== column ? ArrowUpDown : filters.dir === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => onSort(column)}>
+        {RECEIPT_SORTS[column]}
+        <Icon className={filters.sort === column ? "h-3.5 w-3.5" : "h-3.5 w-3.5 opacity-40"} />
+      </button>
+    </TableHead>
+  );
+};
+
 const ReceiptHistory = () => {
   const navigate = useNavigate();
+  // Filters, sort and page live in the URL so searches can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+  const page = Math.max(Number(searchParams.get("page")) || 1, 1);
   const [receipts, setReceipts] = useState<Receipt[]>([]);
-  const [filteredReceipts, setFilteredReceipts] = useState<Receipt[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [branchFilter, setBranchFilter] = useState("all");
+  // "current" exports the filters on screen; otherwise the id of a saved view
+  const [exportSource, setExportSource] = useState("current");
   const [sendingMail, setSendingMail] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<Receipt | null>(null);
+  const [selection, setSelection] = useState<Selection>(NO_SELECTION);
+  const { branches } = useBranches();
+  const { views, refetch: refetchViews } = useReceiptViews();
+  const pageCount = Math.max(Math.ceil(totalCount / RECEIPT_PAGE_SIZE), 1);
+  const sourceView = views.find((view) => view.id === exportSource);
+  const exportFilters = sourceView ? resolveReceiptFilters(sourceView.filters) : filters;
+  const filterKey = filtersToSearchParams(filters).toString();
+  const isSelected = (id: string) => selection.allMatching !== selection.ids.has(id);
+  const selectedCount = selection.allMatching ? totalCount - selection.ids.size : selection.ids.size;
+  const pageSelected = receipts.length > 0 && receipts.every((r) => isSelected(r.id));
 
-  useEffect(() => {
-    fetchReceipts();
-  }, []);
+  const updateFilters = useCallback(
+    (changes: Partial<ReceiptFilters>) => {
+      setSearchParams(filtersToSearchParams({ ...filters, ...changes }), { replace: true });
+    },
+    [filters, setSearchParams]
+  );
+
+  const applyFilters = (next: ReceiptFilters) => {
+    setSearchParams(filtersToSearchParams(next));
+  };
+
+  const goToPage = (next: number) => {
+    setSearchParams(filtersToSearchParams(filters, next));
+  };
 
-  const fetchReceipts = async () => {
+  const toggleSort = (column: ReceiptSort) => {
+    updateFilters({
+      sort: column,
+      dir: filters.sort === column && filters.dir === "desc" ? "asc" : "desc",
+    });
+  };
+
+  const fetchReceipts = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from("receipts")
-        .select("id, customer_name, mobile_number, receipt_date, total_amount, branch, created_at")
-        .order("created_at", { ascending: false });
+      const from = (page - 1) * RECEIPT_PAGE_SIZE;
+      const { data, error, count } = await searchReceipts(filters, RECEIPT_COLUMNS, { count: "exact" }).range(
+        from,
+        from + RECEIPT_PAGE_SIZE - 1
+      );
 
       if (error) throw error;
-      setReceipts(data as Receipt[]);
-      setFilteredReceipts(data as Receipt[]);
+      setReceipts(data as unknown as Receipt[]);
+      setTotalCount(count || 0);
     } catch (error) {
       toast.error("Failed to load receipts");
     } finally {
       setLoading(false);
     }
-  };
+  }, [filters, page]);
 
   useEffect(() => {
-    let filtered = receipts;
-
-    // Search filter
-    if (searchTerm) {
-      filtered = filtered.filter(receipt => 
-        receipt.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        receipt.mobile_number.includes(searchTerm) ||
-        new Date(receipt.receipt_date).toLocaleDateString().includes(searchTerm)
-      );
-    }
-
-    // Branch filter
-    if (branchFilter !== "all") {
-      filtered = filtered.filter(receipt => receipt.branch === branchFilter);
-    }
-
-    setFilteredReceipts(filtered);
-  }, [searchTerm, branchFilter, receipts]);
+    fetchReceipts();
+  }, [fetchReceipts]);
 
-  const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this receipt?")) return;
+  // A selection only makes sense for the filters it was made under; paging keeps it
+  useEffect(() => {
+    setSelection(NO_SELECTION);
+  }, [filterKey]);
 
-    try {
-      const { error } = await supabase.from("receipts").delete().eq("id", id);
-      if (error) throw error;
-      toast.success("Receipt deleted successfully");
-      fetchReceipts();
-    } catch (error) {
-      toast.error("Failed to delete receipt");
-    }
+  const toggleSelected = (ids: string[], selected: boolean) => {
+    setSelection((current) => {
+      const next = new Set(current.ids);
+      // In "all matching" mode the set lists the exceptions, so it flips
+      ids.forEach((id) => (selected !== current.allMatching ? next.add(id) : next.delete(id)));
+      return { ...current, ids: next };
+    });
   };
 
-  const exportToCSV = () => {
-    const header = "Date,Customer Name,Mobile Number,Branch,Amount\n";
-    const rows = filteredReceipts
-      .map((r) => `"${new Date(r.receipt_date).toLocaleDateString()}","${r.customer_name}","${r.mobile_number}","${r.branch}",${r.total_amount.toFixed(2)}`)
+  const loadSelected = useCallback(
+    async <T extends { id: string }>(columns: string) => {
+      if (!selection.allMatching) return fetchReceiptsById<T>(Array.from(selection.ids), columns);
+      const matching = await fetchAllReceipts<T>(filters, columns);
+      return matching.filter((r) => !selection.ids.has(r.id));
+    },
+    [selection, filters]
+  );
+
+  const downloadCSV = (matching: Receipt[], label: string) => {
+    const header = "Receipt No,Date,Customer Name,Mobile Number,Branch,Amount,Paid,Status\n";
+    const rows = matching
+      .map((r) => `"${r.receipt_number}","${new Date(r.receipt_date).toLocaleDateString()}","${r.customer_name}","${r.mobile_number}","${r.branch}",${formatAmount(r.total_amount)},${formatAmount(r.amount_paid)},"${statusLabel(r)}"`)
       .join("\n");
     const csv = header + rows;
     const blob = new Blob([csv], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `receipt-history-${branchFilter}-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.download = `receipt-history-${label}-${new Date().toISOString().slice(0, 10)}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  const sendToEmail = async () => {
-    if (filteredReceipts.length === 0) {
-      toast.error("No receipts to send");
+  const exportToCSV = async () => {
+    let matching: Receipt[];
+    try {
+      matching = await fetchAllReceipts<Receipt>(exportFilters, RECEIPT_COLUMNS);
+    } catch (error) {
+      toast.error((error as Error).message);
       return;
     }
+    if (matching.length === 0) {
+      toast.error("No receipts to export");
+      return;
+    }
+    const branchLabel =
+      sourceView?.name.replace(/\s+/g, "-") || branches.find((b) => b.id === filters.branch)?.name.replace(/\s+/g, "-") || "all";
+    downloadCSV(matching, branchLabel);
+  };
+
+  const exportSelected = async () => {
+    const selected = await loadSelected<Receipt>(RECEIPT_COLUMNS);
+    if (selected.length === 0) throw new Error("No receipts to export");
+    downloadCSV(selected, "selected");
+  };
+
+  // Mails the receipt history CSV; `source` only labels the email
+  const mailReceipts = async (matching: Receipt[], source: ReceiptFilters) => {
+    if (matching.length === 0) throw new Error("No receipts to send");
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("email")
+      .eq("id", user.id)
+      .single();
+
+    const toEmail = profile?.email || user.email;
+
+    const { error } = await supabase.functions.invoke("send-contacts-email", {
+      body: {
+        to_email: toEmail,
+        contacts: [],
+        receipts: matching.map((r) => ({
+          receipt_number: r.receipt_number,
+          customer_name: r.customer_name,
+          mobile_number: r.mobile_number,
+          branch: r.branch,
+          receipt_date: r.receipt_date,
+          subtotal: r.subtotal,
+          discount_amount: r.discount_amount,
+          cgst_amount: r.cgst_amount,
+          sgst_amount: r.sgst_amount,
+          igst_amount: r.igst_amount,
+          round_off: r.round_off,
+          total_amount: r.total_amount,
+          status: statusLabel(r),
+          items: "",
+        })),
+        branch_filter: source.branch,
+        month_filter: "all",
+        date_from: source.from || "all",
+        date_to: source.to || "all",
+      },
+    });
+
+    if (error) throw error;
+    toast.success(`Receipt history sent to ${toEmail}`);
+  };
+
+  const sendToEmail = async () => {
     setSendingMail(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("email")
-        .eq("id", user.id)
-        .single();
-
-      const toEmail = profile?.email || user.email;
-
-      const { error } = await supabase.functions.invoke("send-contacts-email", {
-        body: {
-          to_email: toEmail,
-          contacts: [],
-          receipts: filteredReceipts.map((r) => ({
-            customer_name: r.customer_name,
-            mobile_number: r.mobile_number,
-            branch: r.branch,
-            receipt_date: r.receipt_date,
-            total_amount: r.total_amount,
-            items: "",
-          })),
-          branch_filter: branchFilter,
-          month_filter: "all",
-          date_from: "all",
-          date_to: "all",
-        },
-      });
-
-      if (error) throw error;
-      toast.success(`Receipt history sent to ${toEmail}`);
+      await mailReceipts(await fetchAllReceipts<Receipt>(exportFilters, RECEIPT_COLUMNS), exportFilters);
     } catch (err: any) {
       toast.error(err.message || "Failed to send email");
     } finally {
@@ -149,6 +277,23 @@ const ReceiptHistory = () => {
     }
   };
 
+  const emailSelected = async () => {
+    await mailReceipts(await loadSelected<Receipt>(RECEIPT_COLUMNS), filters);
+  };
+
+  const handleBulkChange = () => {
+    setSelection(NO_SELECTION);
+    fetchReceipts();
+  };
+
+  // Prints the filtered branch's receipts for the day being looked at, or today's
+  const openBatchPrint = () => {
+    const params = new URLSearchParams();
+    params.set("date", filters.from && filters.from === filters.to ? filters.from : new Date().toISOString().slice(0, 10));
+    if (filters.branch !== "all") params.set("branch", filters.branch);
+    navigate(`/receipts/print?${params.toString()}`);
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
@@ -176,14 +321,33 @@ const ReceiptHistory = () => {
               <Button onClick={() => navigate("/receipt-form")}>
                 New Receipt
               </Button>
-              <Button variant="secondary" onClick={exportToCSV} disabled={filteredReceipts.length === 0}>
+              {views.length > 0 && (
+                <Select value={exportSource} onValueChange={setExportSource}>
+                  <SelectTrigger className="w-[200px]" aria-label="Export and mail from">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Current filters</SelectItem>
+                    {views.map((view) => (
+                      <SelectItem key={view.id} value={view.id}>
+                        View: {view.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button variant="secondary" onClick={exportToCSV} disabled={!sourceView && totalCount === 0}>
                 <Download className="mr-2 h-4 w-4" />
                 Export Excel
               </Button>
-              <Button variant="secondary" onClick={sendToEmail} disabled={filteredReceipts.length === 0 || sendingMail}>
+              <Button variant="secondary" onClick={sendToEmail} disabled={(!sourceView && totalCount === 0) || sendingMail}>
                 <Mail className="mr-2 h-4 w-4" />
                 {sendingMail ? "Sending..." : "Send Mail"}
               </Button>
+              <Button variant="outline" onClick={openBatchPrint}>
+                <Printer className="mr-2 h-4 w-4" />
+                Batch Print
+              </Button>
               <Button variant="outline" onClick={() => navigate("/profile")}>
                 Profile
               </Button>
@@ -194,34 +358,36 @@ const ReceiptHistory = () => {
             </div>
           </div>
 
-          {/* Search and Filter */}
-          <div className="flex flex-wrap gap-3">
-            <div className="relative flex-1 min-w-[200px]">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                placeholder="Search by name, mobile, or date..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-9"
-              />
+          <ReceiptViewsBar filters={filters} views={views} onApply={applyFilters} onChange={refetchViews} />
+          <ReceiptFilterBar filters={filters} onChange={updateFilters} />
+          {selectedCount > 0 && (
+            <ReceiptBulkActions
+              count={selectedCount}
+              loadSelected={loadSelected}
+              onExport={exportSelected}
+              onEmail={emailSelected}
+              onChanged={handleBulkChange}
+              onClear={() => setSelection(NO_SELECTION)}
+            />
+          )}
+          {pageSelected && !selection.allMatching && totalCount > receipts.length && (
+            <div className="text-sm text-muted-foreground">
+              All {receipts.length} receipts on this page are selected.{" "}
+              <button
+                type="button"
+                className="font-medium text-primary hover:underline"
+                onClick={() => setSelection({ allMatching: true, ids: new Set() })}
+              >
+                Select all {totalCount} matching receipts
+              </button>
             </div>
-            <Select value={branchFilter} onValueChange={setBranchFilter}>
-              <SelectTrigger className="w-[250px]">
-                <SelectValue placeholder="Filter by branch" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Branches</SelectItem>
-                <SelectItem value="Near Shivaji Chowk Banka">Near Shivaji Chowk Banka</SelectItem>
-                <SelectItem value="Nimiya Belhar Banka">Nimiya Belhar Banka</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+          )}
         </div>
 
-        {filteredReceipts.length === 0 ? (
+        {receipts.length === 0 ? (
           <div className="rounded-lg border bg-card p-12 text-center">
             <p className="text-muted-foreground">
-              {receipts.length === 0 ? "No receipts found" : "No matching receipts found"}
+              {hasReceiptFilters(filters) ? "No matching receipts found" : "No receipts found"}
             </p>
             <Button onClick={() => navigate("/receipt-form")} className="mt-4">
               Create New Receipt
@@ -232,17 +398,38 @@ const ReceiptHistory = () => {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Customer</TableHead>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      aria-label="Select all on this page"
+                      checked={pageSelected ? true : receipts.some((r) => isSelected(r.id)) ? "indeterminate" : false}
+                      onCheckedChange={() => toggleSelected(receipts.map((r) => r.id), !pageSelected)}
+                    />
+                  </TableHead>
+                  <SortableHead column="receipt_number" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="receipt_date" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="customer_name" filters={filters} onSort={toggleSort} />
                   <TableHead>Mobile</TableHead>
-                  <TableHead>Branch</TableHead>
-                  <TableHead className="text-right">Amount</TableHead>
+                  <SortableHead column="branch" filters={filters} onSort={toggleSort} />
+                  <SortableHead column="total_amount" filters={filters} onSort={toggleSort} className="text-right" />
+                  <TableHead>Status</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredReceipts.map((receipt) => (
-                  <TableRow key={receipt.id}>
+                {receipts.map((receipt) => (
+                  <TableRow
+                    key={receipt.id}
+                    className={receipt.cancelled_at ? "text-muted-foreground" : undefined}
+                    data-state={isSelected(receipt.id) ? "selected" : undefined}
+                  >
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Select ${receipt.receipt_number}`}
+                        checked={isSelected(receipt.id)}
+                        onCheckedChange={(checked) => toggleSelected([receipt.id], checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{receipt.receipt_number}</TableCell>
                     <TableCell>
                       {new Date(receipt.receipt_date).toLocaleDateString()}
                     </TableCell>
@@ -252,7 +439,15 @@ const ReceiptHistory = () => {
                     <TableCell>{receipt.mobile_number}</TableCell>
                     <TableCell>{receipt.branch}</TableCell>
                     <TableCell className="text-right font-semibold">
-                      ₹{receipt.total_amount.toFixed(2)}
+                      <span className={receipt.cancelled_at ? "line-through" : undefined}>{formatInr(receipt.total_amount)}</span>
+                      {!receipt.cancelled_at && receipt.payment_status === "partial" && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {formatInr(balanceDue(receipt))} due
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <PaymentStatusBadge status={receipt.payment_status} cancelled={Boolean(receipt.cancelled_at)} />
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
@@ -263,22 +458,57 @@ const ReceiptHistory = () => {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDelete(receipt.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {!receipt.cancelled_at && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/receipt/${receipt.id}/edit`)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Cancel receipt"
+                              onClick={() => setCancelTarget(receipt)}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
+            <div className="flex items-center justify-between border-t px-4 py-3 text-sm text-muted-foreground">
+              <span>
+                {(page - 1) * RECEIPT_PAGE_SIZE + 1}–{Math.min(page * RECEIPT_PAGE_SIZE, totalCount)} of {totalCount}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                  Page {page} of {pageCount}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => goToPage(page + 1)} disabled={page >= pageCount}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
           </div>
         )}
       </div>
+
+      <CancelReceiptDialog
+        receipt={cancelTarget}
+        open={cancelTarget !== null}
+        onOpenChange={(open) => !open && setCancelTarget(null)}
+        onCancelled={fetchReceipts}
+      />
     </div>
   );
 };
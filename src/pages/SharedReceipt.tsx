@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "sonner";
+import { FileDown, Printer } from "lucide-react";
+import StyledReceipt, { type StyledReceiptBranch, type StyledReceiptData } from "@/components/StyledReceipt";
+import ReceiptOverlay from "@/components/ReceiptOverlay";
+import { resolveReceiptLayout } from "@shared/receipt-layout";
+import { resolveTemplateStyle, type ReceiptTemplateStyle } from "@/lib/template-style";
+import { downloadElementPdf, downloadReceiptPdf, receiptPdfFileName, templateBackgroundUrl } from "@/lib/receipt-pdf";
+
+interface SharedReceiptData {
+  receipt: StyledReceiptData;
+  branch: StyledReceiptBranch | null;
+  template: (Partial<ReceiptTemplateStyle> & { layout: unknown; background_image_url: string | null }) | null;
+  expires_at: string;
+}
+
+/**
+ * Public, read-only receipt opened from a share link. Everything comes from the
+ * get_shared_receipt RPC, which returns nothing for expired or revoked tokens.
+ */
+const SharedReceipt = () => {
+  const { token } = useParams();
+  const [data, setData] = useState<SharedReceiptData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [viewMode, setViewMode] = useState<"digital" | "pad">("digital");
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+  const styledReceiptRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const fetchSharedReceipt = async () => {
+      try {
+        const { data: result, error } = await supabase.rpc("get_shared_receipt", { _token: token || "" });
+        if (error) throw error;
+        setData(result as unknown as SharedReceiptData | null);
+      } catch {
+        setData(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSharedReceipt();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold">Link not available</h2>
+          <p className="mt-2 text-muted-foreground">
+            This receipt link has expired or been revoked. Please ask the clinic for a new link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { receipt, branch, template } = data;
+  const layout = resolveReceiptLayout(template?.layout);
+  const style = resolveTemplateStyle(template);
+
+  const handleDownloadPdf = async () => {
+    setGeneratingPdf(true);
+    try {
+      if (viewMode === "digital" && styledReceiptRef.current) {
+        await downloadElementPdf(styledReceiptRef.current, receiptPdfFileName(receipt.receipt_number));
+      } else {
+        await downloadReceiptPdf(
+          [{ receipt, layout, backgroundUrl: template?.background_image_url }],
+          receiptPdfFileName(receipt.receipt_number),
+          { includeBackground: true },
+        );
+      }
+    } catch {
+      toast.error("Failed to generate PDF");
+    } finally {
+      setGeneratingPdf(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-4 no-print">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={viewMode}
+            onValueChange={(value) => value && setViewMode(value as "digital" | "pad")}
+          >
+            <ToggleGroupItem value="digital">Digital Receipt</ToggleGroupItem>
+            <ToggleGroupItem value="pad">Prescription Pad</ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDownloadPdf} disabled={generatingPdf}>
+              <FileDown className="mr-2 h-4 w-4" />
+              {generatingPdf ? "Generating..." : "Download PDF"}
+            </Button>
+            <Button onClick={() => window.print()}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        {viewMode === "digital" ? (
+          <div ref={styledReceiptRef}>
+            <StyledReceipt receipt={receipt} style={style} branch={branch} />
+          </div>
+        ) : (
+          <div className="receipt-container relative mx-auto" style={{ width: '100%', maxWidth: '794px', aspectRatio: '210/297' }}>
+            <img
+              src={templateBackgroundUrl(template?.background_image_url)}
+              alt="Prescription Template"
+              className="absolute inset-0 h-full w-full object-fill"
+            />
+            <ReceiptOverlay receipt={receipt} layout={layout} />
+          </div>
+        )}
+
+        <p className="mt-4 text-center text-xs text-muted-foreground no-print">
+          This link is valid until {new Date(data.expires_at).toLocaleString()}.
+        </p>
+      </div>
+
+      <style>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 0;
+          }
+          .no-print {
+            display: none !important;
+          }
+          .min-h-screen {
+            min-height: auto !important;
+            padding: 0 !important;
+            background: white !important;
+          }
+          .styled-receipt, .receipt-container {
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+            max-width: none !important;
+            border: none !important;
+            border-radius: 0 !important;
+            box-shadow: none !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default SharedReceipt;
@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, CalendarClock, History, Package, Search } from "lucide-react";
+import StockMovementDialog from "@/components/StockMovementDialog";
+import { useBranches } from "@/hooks/use-branches";
+import { useCatalog } from "@/hooks/use-catalog";
+import { useStockBatches } from "@/hooks/use-stock-batches";
+import { useStockLevels } from "@/hooks/use-stock-levels";
+import {
+  daysUntil,
+  EXPIRY_WINDOWS,
+  formatExpiry,
+  MOVEMENT_TYPES,
+  stockStatus,
+  type StockLevel,
+  type StockMovement,
+} from "@/lib/stock";
+
+const STATUS_BADGES = {
+  out: { label: "Out of stock", variant: "destructive" },
+  low: { label: "Reorder", variant: "secondary" },
+  ok: { label: "In stock", variant: "outline" },
+} as const;
+
+type LedgerEntry = StockMovement & { stock_batches: { batch_number: string; expiry_date: string } | null };
+
+const StockReport = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { activeBranches } = useBranches();
+  const { activeItems } = useCatalog();
+  const { levels, loading, refetch } = useStockLevels();
+  const { batches, refetch: refetchBatches } = useStockBatches();
+  const [branchId, setBranchId] = useState("");
+  const [search, setSearch] = useState("");
+  const [lowOnly, setLowOnly] = useState(false);
+  const [ledgerFor, setLedgerFor] = useState<StockLevel | null>(null);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  // "expired", "all" or a number of days from EXPIRY_WINDOWS
+  const [expiryWindow, setExpiryWindow] = useState("90");
+
+  useEffect(() => {
+    if (!branchId && activeBranches.length > 0) setBranchId(activeBranches[0].id);
+  }, [branchId, activeBranches]);
+
+  useEffect(() => {
+    if (!ledgerFor) return;
+    const fetchLedger = async () => {
+      const { data } = await supabase
+        .from("stock_movements")
+        .select("*, stock_batches(batch_number, expiry_date)")
+        .eq("catalog_item_id", ledgerFor.catalog_item_id)
+        .eq("branch_id", ledgerFor.branch_id)
+        .order("created_at", { ascending: false })
+        .limit(100);
+      setLedger(data || []);
+    };
+    fetchLedger();
+  }, [ledgerFor]);
+
+  const branchLevels = useMemo(
+    () =>
+      levels
+        .filter((l) => l.branch_id === branchId)
+        .filter((l) => (l.name || "").toLowerCase().includes(search.toLowerCase()))
+        .filter((l) => !lowOnly || stockStatus(l) !== "ok"),
+    [levels, branchId, search, lowOnly]
+  );
+  const expiringBatches = useMemo(
+    () =>
+      batches
+        .filter((b) => b.branch_id === branchId)
+        .filter((b) => (b.name || "").toLowerCase().includes(search.toLowerCase()))
+        .filter((b) => {
+          if (expiryWindow === "all") return true;
+          const days = daysUntil(b.expiry_date || "");
+          return expiryWindow === "expired" ? days < 0 : days <= Number(expiryWindow);
+        }),
+    [batches, branchId, search, expiryWindow]
+  );
+  const expiredCount = batches.filter((b) => b.branch_id === branchId && daysUntil(b.expiry_date || "") < 0).length;
+  const reorderCount = levels.filter((l) => l.branch_id === branchId && stockStatus(l) !== "ok").length;
+  const branchName = activeBranches.find((b) => b.id === branchId)?.name || "";
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <Package className="h-6 w-6" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Stock</h1>
+              <p className="text-sm text-muted-foreground">Sales are deducted automatically when receipts are issued</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <StockMovementDialog
+              branchId={branchId}
+              branchName={branchName}
+              items={activeItems.filter((i) => i.track_stock)}
+              onRecorded={() => {
+                refetch();
+                refetchBatches();
+              }}
+            />
+            <Button variant="outline" onClick={() => navigate("/")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={branchId} onValueChange={setBranchId}>
+            <SelectTrigger className="w-[250px]">
+              <SelectValue placeholder="Select branch" />
+            </SelectTrigger>
+            <SelectContent>
+              {activeBranches.map((b) => (
+                <SelectItem key={b.id} value={b.id}>
+                  {b.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative min-w-[200px] flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input placeholder="Search items..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-9" />
+          </div>
+        </div>
+
+        <Tabs defaultValue={searchParams.get("tab") || "levels"} className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="levels">
+              <Package className="mr-2 h-4 w-4" />
+              Levels
+            </TabsTrigger>
+            <TabsTrigger value="expiry">
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Expiry
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="levels" className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch id="low-only" checked={lowOnly} onCheckedChange={setLowOnly} />
+              <Label htmlFor="low-only">Needs reorder only</Label>
+            </div>
+
+            {reorderCount > 0 && (
+              <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                {reorderCount} {reorderCount === 1 ? "item is" : "items are"} at or below the reorder level at {branchName}.
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+              </div>
+            ) : branchLevels.length === 0 ? (
+              <div className="rounded-lg border bg-card p-12 text-center text-muted-foreground">
+                {levels.length === 0
+                  ? "No stock-tracked items yet. Turn on \"Track stock\" for catalog items in Admin."
+                  : "No matching items"}
+              </div>
+            ) : (
+              <div className="rounded-lg border bg-card">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead className="text-right">Reorder Level</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Ledger</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {branchLevels.map((level) => {
+                      const badge = STATUS_BADGES[stockStatus(level)];
+                      return (
+                        <TableRow key={level.catalog_item_id}>
+                          <TableCell className="font-medium">{level.name}</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {Number(level.on_hand)} {level.unit}
+                          </TableCell>
+                          <TableCell className="text-right">{Number(level.reorder_level)}</TableCell>
+                          <TableCell>
+                            <Badge variant={badge.variant}>{badge.label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="outline" size="sm" onClick={() => setLedgerFor(level)}>
+                              <History className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="expiry" className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={expiryWindow} onValueChange={setExpiryWindow}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expired">Already expired</SelectItem>
+                  {EXPIRY_WINDOWS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      Expiring within {days} days
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="all">All batches in stock</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {expiredCount > 0 && (
+              <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                {expiredCount} expired {expiredCount === 1 ? "batch is" : "batches are"} still in stock at {branchName}. Record
+                an adjustment against the batch once it is written off.
+              </div>
+            )}
+
+            {expiringBatches.length === 0 ? (
+              <div className="rounded-lg border bg-card p-12 text-center text-muted-foreground">
+                {batches.length === 0 ? "No batches recorded yet. Enter a batch number when recording stock." : "No matching batches"}
+              </div>
+            ) : (
+              <div className="rounded-lg border bg-card">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {expiringBatches.map((batch) => {
+                      const days = daysUntil(batch.expiry_date || "");
+                      return (
+                        <TableRow key={batch.batch_id}>
+                          <TableCell className="font-medium">{batch.name}</TableCell>
+                          <TableCell className="font-mono text-sm">{batch.batch_number}</TableCell>
+                          <TableCell>{formatExpiry(batch.expiry_date || "")}</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {Number(batch.on_hand)} {batch.unit}
+                          </TableCell>
+                          <TableCell>
+                            {days < 0 ? (
+                              <Badge variant="destructive">Expired</Badge>
+                            ) : (
+                              <Badge variant={days <= EXPIRY_WINDOWS[0] ? "secondary" : "outline"}>
+                                {days === 0 ? "Expires today" : `${days} days left`}
+                              </Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={!!ledgerFor} onOpenChange={(open) => !open && setLedgerFor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{ledgerFor?.name}</DialogTitle>
+            <DialogDescription>Last 100 stock movements at {branchName}</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Reference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>{new Date(movement.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{MOVEMENT_TYPES[movement.movement_type] ?? movement.movement_type}</TableCell>
+                    <TableCell className={`text-right font-semibold ${Number(movement.quantity) < 0 ? "text-destructive" : ""}`}>
+                      {Number(movement.quantity) > 0 ? "+" : ""}
+                      {Number(movement.quantity)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {movement.stock_batches
+                        ? `${movement.stock_batches.batch_number} · ${formatExpiry(movement.stock_batches.expiry_date)}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {movement.receipt_id ? (
+                        <button
+                          className="font-mono text-primary hover:underline"
+                          onClick={() => navigate(`/receipt/${movement.receipt_id}`)}
+                        >
+                          {movement.receipt_number}
+                        </button>
+                      ) : (
+                        movement.receipt_number || movement.note
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {ledger.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No movements yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default StockReport;
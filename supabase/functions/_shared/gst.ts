@@ -0,0 +1,194 @@
+// Item-level GST for receipts.
+//
+// Every line carries its own rate and HSN/SAC code. Intra-state sales split the
+// tax equally into CGST and SGST; inter-state sales charge it all as IGST.
+// Shared by the web app (through the `@shared` alias) and the edge functions,
+// so it must not import anything.
+
+export type SupplyType = "intra" | "inter";
+
+/** The GST slabs offered in the rate pickers. */
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+/** GST state codes, used for branch registration and place of supply. */
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export function gstStateName(code: string | null | undefined) {
+  return GST_STATES.find((s) => s.code === code)?.name || "";
+}
+
+/**
+ * Checks the shape of a 15-character GSTIN and, when given, that it was issued
+ * in `stateCode`. Does not verify the check digit.
+ */
+export function isValidGstin(gstin: string, stateCode?: string) {
+  if (!/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin)) return false;
+  return !stateCode || gstin.slice(0, 2) === stateCode;
+}
+
+/** Inter-state only when both states are known and differ. */
+export function supplyTypeFor(branchStateCode: string | null | undefined, placeOfSupply: string | null | undefined): SupplyType {
+  return branchStateCode && placeOfSupply && branchStateCode !== placeOfSupply ? "inter" : "intra";
+}
+
+export interface GstLineInput {
+  quantity: number;
+  price: number;
+  tax_rate?: number | null;
+  hsn_sac?: string | null;
+  /** The line's own discount, in rupees */
+  discount_amount?: number | null;
+  /** This line's part of the bill-level discount, in rupees */
+  bill_discount_share?: number | null;
+}
+
+export interface GstLineTax {
+  hsn_sac: string;
+  tax_rate: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+}
+
+export interface GstTotals {
+  /** Quantity × price before discounts */
+  subtotal: number;
+  discount_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number;
+  total_amount: number;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Tax on one line, charged on the value after its discounts. CGST and SGST are
+ * each rounded at half the rate, so they always match.
+ */
+export function lineTax(line: GstLineInput, supplyType: SupplyType): GstLineTax {
+  const taxRate = Number(line.tax_rate) || 0;
+  const gross = round2(Number(line.quantity) * Number(line.price));
+  const taxable = round2(Math.max(gross - Number(line.discount_amount || 0) - Number(line.bill_discount_share || 0), 0));
+  const half = supplyType === "intra" ? round2((taxable * taxRate) / 200) : 0;
+  return {
+    hsn_sac: (line.hsn_sac || "").trim(),
+    tax_rate: taxRate,
+    taxable_value: taxable,
+    cgst_amount: half,
+    sgst_amount: half,
+    igst_amount: supplyType === "inter" ? round2((taxable * taxRate) / 100) : 0,
+  };
+}
+
+/** Stamps each line with its tax breakdown and totals the receipt from the lines. */
+export function applyGst<T extends GstLineInput>(items: T[], supplyType: SupplyType) {
+  const lines = items.map((item) => ({ ...item, ...lineTax(item, supplyType) }));
+  const sum = (key: keyof GstLineTax) => round2(lines.reduce((total, line) => total + Number(line[key]), 0));
+
+  const subtotal = round2(lines.reduce((total, line) => total + Number(line.quantity) * Number(line.price), 0));
+  const taxable = sum("taxable_value");
+  const cgst = sum("cgst_amount");
+  const sgst = sum("sgst_amount");
+  const igst = sum("igst_amount");
+  const tax = round2(cgst + sgst + igst);
+  const totals: GstTotals = {
+    subtotal,
+    discount_amount: round2(subtotal - taxable),
+    cgst_amount: cgst,
+    sgst_amount: sgst,
+    igst_amount: igst,
+    tax_amount: tax,
+    total_amount: round2(taxable + tax),
+  };
+  return { items: lines, totals };
+}
+
+export interface TaxSummaryRow {
+  hsn_sac: string;
+  tax_rate: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+}
+
+/**
+ * Groups stored receipt lines by HSN/SAC code and rate for the tax summary
+ * table. Lines saved before item-level GST have no breakdown and are skipped.
+ */
+export function taxSummary(items: Partial<GstLineTax>[]): TaxSummaryRow[] {
+  const rows = new Map<string, TaxSummaryRow>();
+  for (const item of items) {
+    if (item.taxable_value === undefined) continue;
+    const hsn = item.hsn_sac || "";
+    const rate = Number(item.tax_rate) || 0;
+    const key = `${hsn}|${rate}`;
+    const row = rows.get(key) || {
+      hsn_sac: hsn,
+      tax_rate: rate,
+      taxable_value: 0,
+      cgst_amount: 0,
+      sgst_amount: 0,
+      igst_amount: 0,
+    };
+    row.taxable_value = round2(row.taxable_value + Number(item.taxable_value));
+    row.cgst_amount = round2(row.cgst_amount + Number(item.cgst_amount || 0));
+    row.sgst_amount = round2(row.sgst_amount + Number(item.sgst_amount || 0));
+    row.igst_amount = round2(row.igst_amount + Number(item.igst_amount || 0));
+    rows.set(key, row);
+  }
+  return Array.from(rows.values()).sort((a, b) => a.hsn_sac.localeCompare(b.hsn_sac) || a.tax_rate - b.tax_rate);
+}
+
+/**
+ * One summary row as a single line for the compact print layouts, e.g.
+ * "HSN 3004 @ 12%: Taxable ₹100.00, CGST ₹6.00, SGST ₹6.00".
+ */
+export function describeTaxRow(row: TaxSummaryRow, supplyType: string | null | undefined, money: (amount: number) => string) {
+  const code = row.hsn_sac ? `HSN ${row.hsn_sac}` : "GST";
+  const split =
+    supplyType === "inter"
+      ? `IGST ${money(row.igst_amount)}`
+      : `CGST ${money(row.cgst_amount)}, SGST ${money(row.sgst_amount)}`;
+  return `${code} @ ${row.tax_rate}%: Taxable ${money(row.taxable_value)}, ${split}`;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { amountInWords, formatAdjustment, formatAmount, formatInr, groupIndian, roundOff } from "./money.ts";
+
+describe("amountInWords", () => {
+  it("writes zero", () => {
+    expect(amountInWords(0)).toBe("Rupees Zero Only");
+    expect(amountInWords(0, "hi")).toBe("शून्य रुपये मात्र");
+  });
+
+  it("writes rupees and paise in English", () => {
+    expect(amountInWords(120005.5)).toBe("Rupees One Lakh Twenty Thousand Five and Fifty Paise Only");
+    expect(amountInWords(0.75)).toBe("Rupees Zero and Seventy Five Paise Only");
+    expect(amountInWords(1999.01)).toBe("Rupees One Thousand Nine Hundred Ninety Nine and One Paise Only");
+  });
+
+  it("writes rupees and paise in Hindi", () => {
+    expect(amountInWords(120005.5, "hi")).toBe("एक लाख बीस हज़ार पाँच रुपये और पचास पैसे मात्र");
+    expect(amountInWords(99, "hi")).toBe("निन्यानबे रुपये मात्र");
+    expect(amountInWords(1000000, "hi")).toBe("दस लाख रुपये मात्र");
+  });
+
+  it("switches to lakh and crore at their boundaries", () => {
+    expect(amountInWords(99999)).toBe("Rupees Ninety Nine Thousand Nine Hundred Ninety Nine Only");
+    expect(amountInWords(100000)).toBe("Rupees One Lakh Only");
+    expect(amountInWords(9999999)).toBe("Rupees Ninety Nine Lakh Ninety Nine Thousand Nine Hundred Ninety Nine Only");
+    expect(amountInWords(10000000)).toBe("Rupees One Crore Only");
+    expect(amountInWords(10000000, "hi")).toBe("एक करोड़ रुपये मात्र");
+    expect(amountInWords(123456789)).toBe(
+      "Rupees Twelve Crore Thirty Four Lakh Fifty Six Thousand Seven Hundred Eighty Nine Only"
+    );
+  });
+
+  it("rounds to whole paise before writing", () => {
+    expect(amountInWords(10.005)).toBe("Rupees Ten and One Paise Only");
+  });
+});
+
+describe("groupIndian", () => {
+  it("groups the last three digits, then pairs", () => {
+    expect(groupIndian("123")).toBe("123");
+    expect(groupIndian("1234")).toBe("1,234");
+    expect(groupIndian("123456")).toBe("1,23,456");
+    expect(groupIndian("1234567")).toBe("12,34,567");
+    expect(groupIndian("123456789")).toBe("12,34,56,789");
+  });
+});
+
+describe("formatInr", () => {
+  it("groups the Indian way with two decimals", () => {
+    expect(formatInr(123456.5)).toBe("₹1,23,456.50");
+    expect(formatInr(0)).toBe("₹0.00");
+    expect(formatInr(0.1 + 0.2)).toBe("₹0.30");
+    expect(formatInr(1000, "Rs. ")).toBe("Rs. 1,000.00");
+  });
+
+  it("puts the sign before the symbol", () => {
+    expect(formatInr(-1234.5)).toBe("-₹1,234.50");
+    expect(formatInr(-0.25)).toBe("-₹0.25");
+  });
+
+  it("formats CSV amounts and adjustments", () => {
+    expect(formatAmount(123456.5)).toBe("123456.50");
+    expect(formatAmount(-0.5)).toBe("-0.50");
+    expect(formatAdjustment(0.4)).toBe("+₹0.40");
+    expect(formatAdjustment(-0.25)).toBe("-₹0.25");
+  });
+});
+
+describe("roundOff", () => {
+  it("leaves the amount alone without rounding", () => {
+    expect(roundOff(10.37, "none")).toEqual({ rounded: 10.37, adjustment: 0 });
+    expect(roundOff(10.37, null)).toEqual({ rounded: 10.37, adjustment: 0 });
+  });
+
+  it("rounds to the nearest rupee, halves going up", () => {
+    expect(roundOff(10.5, "rupee")).toEqual({ rounded: 11, adjustment: 0.5 });
+    expect(roundOff(10.49, "rupee")).toEqual({ rounded: 10, adjustment: -0.49 });
+    expect(roundOff(1120, "rupee")).toEqual({ rounded: 1120, adjustment: 0 });
+  });
+
+  it("rounds to the nearest 50 paise, halves going up", () => {
+    expect(roundOff(10.25, "half_rupee")).toEqual({ rounded: 10.5, adjustment: 0.25 });
+    expect(roundOff(10.24, "half_rupee")).toEqual({ rounded: 10, adjustment: -0.24 });
+    expect(roundOff(10.75, "half_rupee")).toEqual({ rounded: 11, adjustment: 0.25 });
+  });
+
+  it("works in paise so float sums round the way the database does", () => {
+    expect(roundOff(0.1 + 0.2 + 10.2, "rupee")).toEqual({ rounded: 11, adjustment: 0.5 });
+  });
+});
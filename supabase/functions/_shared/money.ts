@@ -0,0 +1,135 @@
+// Rupee amounts as Indian receipts show them: lakh/crore digit grouping,
+// the total in words, and the round-off to a whole rupee or 50 paise.
+//
+// Shared by the web app (through the `@shared` alias) and the edge functions,
+// so it must not import anything. Amounts are worked in whole paise to avoid
+// floating-point drift, and nothing depends on the runtime's locale data.
+
+export type RoundingMode = "none" | "rupee" | "half_rupee";
+
+/** Options for the rounding setting, in the order the Admin picker shows them. */
+export const ROUNDING_MODES: { value: RoundingMode; label: string }[] = [
+  { value: "none", label: "No rounding" },
+  { value: "rupee", label: "Nearest ₹1" },
+  { value: "half_rupee", label: "Nearest 50 paise" },
+];
+
+export type WordsLanguage = "en" | "hi";
+
+/** Whole paise, rounding half away from zero like the database does. */
+export function toPaise(amount: number) {
+  const paise = Math.abs(Number(amount) || 0) * 100;
+  return Math.sign(Number(amount) || 0) * Math.round(paise + 1e-6);
+}
+
+/** Groups digits the Indian way: the last three, then pairs (12,34,567). */
+export function groupIndian(digits: string) {
+  if (digits.length <= 3) return digits;
+  const head = digits.slice(0, -3);
+  return `${head.replace(/\B(?=(\d{2})+$)/g, ",")},${digits.slice(-3)}`;
+}
+
+/** Two decimals without grouping or symbol, for CSV files: 123456.50 */
+export function formatAmount(amount: number) {
+  const paise = toPaise(amount);
+  const abs = Math.abs(paise);
+  return `${paise < 0 ? "-" : ""}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+/** ₹1,23,456.50, or with another symbol such as "Rs. " for PDF fonts without ₹. */
+export function formatInr(amount: number, symbol = "₹") {
+  const paise = toPaise(amount);
+  const abs = Math.abs(paise);
+  const rupees = groupIndian(String(Math.floor(abs / 100)));
+  return `${paise < 0 ? "-" : ""}${symbol}${rupees}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+/** A round-off adjustment with its sign, e.g. +₹0.40 or -₹0.25. */
+export function formatAdjustment(amount: number, symbol = "₹") {
+  return `${toPaise(amount) < 0 ? "-" : "+"}${formatInr(Math.abs(amount), symbol)}`;
+}
+
+/**
+ * Rounds a total to the nearest rupee or 50 paise, halves going up.
+ * `adjustment` is what was added (negative when rounded down).
+ */
+export function roundOff(amount: number, mode: RoundingMode | string | null | undefined) {
+  const paise = toPaise(amount);
+  const step = mode === "rupee" ? 100 : mode === "half_rupee" ? 50 : 1;
+  const rounded = Math.round(paise / step) * step;
+  return { rounded: rounded / 100, adjustment: (rounded - paise) / 100 };
+}
+
+const EN_ONES = [
+  "Zero", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const EN_TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// Hindi has a distinct word for every number below 100
+const HI_NUMBERS = [
+  "शून्य", "एक", "दो", "तीन", "चार", "पाँच", "छह", "सात", "आठ", "नौ",
+  "दस", "ग्यारह", "बारह", "तेरह", "चौदह", "पंद्रह", "सोलह", "सत्रह", "अठारह", "उन्नीस",
+  "बीस", "इक्कीस", "बाईस", "तेईस", "चौबीस", "पच्चीस", "छब्बीस", "सत्ताईस", "अट्ठाईस", "उनतीस",
+  "तीस", "इकतीस", "बत्तीस", "तैंतीस", "चौंतीस", "पैंतीस", "छत्तीस", "सैंतीस", "अड़तीस", "उनतालीस",
+  "चालीस", "इकतालीस", "बयालीस", "तैंतालीस", "चवालीस", "पैंतालीस", "छियालीस", "सैंतालीस", "अड़तालीस", "उनचास",
+  "पचास", "इक्यावन", "बावन", "तिरेपन", "चौवन", "पचपन", "छप्पन", "सत्तावन", "अट्ठावन", "उनसठ",
+  "साठ", "इकसठ", "बासठ", "तिरेसठ", "चौंसठ", "पैंसठ", "छियासठ", "सड़सठ", "अड़सठ", "उनहत्तर",
+  "सत्तर", "इकहत्तर", "बहत्तर", "तिहत्तर", "चौहत्तर", "पचहत्तर", "छिहत्तर", "सतहत्तर", "अठहत्तर", "उन्यासी",
+  "अस्सी", "इक्यासी", "बयासी", "तिरासी", "चौरासी", "पचासी", "छियासी", "सत्तासी", "अट्ठासी", "नवासी",
+  "नब्बे", "इक्यानबे", "बानबे", "तिरानबे", "चौरानबे", "पंचानबे", "छियानबे", "सत्तानबे", "अट्ठानबे", "निन्यानबे",
+];
+
+const WORDS = {
+  en: {
+    below100: (n: number) => (n < 20 ? EN_ONES[n] : `${EN_TENS[Math.floor(n / 10)]}${n % 10 ? ` ${EN_ONES[n % 10]}` : ""}`),
+    hundred: "Hundred",
+    thousand: "Thousand",
+    lakh: "Lakh",
+    crore: "Crore",
+  },
+  hi: {
+    below100: (n: number) => HI_NUMBERS[n],
+    hundred: "सौ",
+    thousand: "हज़ार",
+    lakh: "लाख",
+    crore: "करोड़",
+  },
+};
+
+/** A whole number in words, in crore, lakh, thousand and hundred. */
+function integerInWords(value: number, language: WordsLanguage): string {
+  const w = WORDS[language];
+  if (value === 0) return w.below100(0);
+
+  const parts: string[] = [];
+  const crore = Math.floor(value / 10000000);
+  if (crore > 0) parts.push(`${integerInWords(crore, language)} ${w.crore}`);
+  const lakh = Math.floor((value % 10000000) / 100000);
+  if (lakh > 0) parts.push(`${w.below100(lakh)} ${w.lakh}`);
+  const thousand = Math.floor((value % 100000) / 1000);
+  if (thousand > 0) parts.push(`${w.below100(thousand)} ${w.thousand}`);
+  const hundred = Math.floor((value % 1000) / 100);
+  if (hundred > 0) parts.push(`${w.below100(hundred)} ${w.hundred}`);
+  const rest = value % 100;
+  if (rest > 0) parts.push(w.below100(rest));
+  return parts.join(" ");
+}
+
+/**
+ * The amount in words as printed under a receipt total:
+ *   en: "Rupees One Lakh Twenty Thousand Five and Fifty Paise Only"
+ *   hi: "एक लाख बीस हज़ार पाँच रुपये और पचास पैसे मात्र"
+ */
+export function amountInWords(amount: number, language: WordsLanguage = "en") {
+  const paise = Math.abs(toPaise(amount));
+  const rupees = Math.floor(paise / 100);
+  const rest = paise % 100;
+
+  if (language === "hi") {
+    const paiseWords = rest > 0 ? ` और ${integerInWords(rest, "hi")} पैसे` : "";
+    return `${integerInWords(rupees, "hi")} रुपये${paiseWords} मात्र`;
+  }
+  const paiseWords = rest > 0 ? ` and ${integerInWords(rest, "en")} Paise` : "";
+  return `Rupees ${integerInWords(rupees, "en")}${paiseWords} Only`;
+}
@@ -0,0 +1,50 @@
+// Patient message templating, shared by the composer in the web app and the
+// send-patient-message edge function so the preview matches what is sent.
+
+import { formatInr } from "./money.ts";
+
+export const DEFAULT_PATIENT_MESSAGE_TEMPLATE =
+  "Dear {NAME}, thank you for visiting {BRANCH}. Your receipt {RECEIPT_NO} dated {DATE} for ₹{TOTAL} is available here: {LINK}";
+
+export const PATIENT_MESSAGE_PLACEHOLDERS: { token: string; description: string }[] = [
+  { token: "{NAME}", description: "Patient name" },
+  { token: "{BRANCH}", description: "Branch name" },
+  { token: "{RECEIPT_NO}", description: "Receipt number" },
+  { token: "{DATE}", description: "Receipt date (dd/mm/yyyy)" },
+  { token: "{TOTAL}", description: "Total amount" },
+  { token: "{LINK}", description: "Share link to the digital receipt" },
+];
+
+export interface PatientMessageValues {
+  customer_name: string;
+  branch: string;
+  receipt_number: string;
+  receipt_date: string;
+  total_amount: number;
+  link: string;
+}
+
+export function renderPatientMessage(template: string, values: PatientMessageValues) {
+  const [year, month, day] = values.receipt_date.slice(0, 10).split("-");
+  const replacements: Record<string, string> = {
+    "{NAME}": values.customer_name,
+    "{BRANCH}": values.branch,
+    "{RECEIPT_NO}": values.receipt_number,
+    "{DATE}": `${day}/${month}/${year}`,
+    "{TOTAL}": formatInr(values.total_amount, ""),
+    "{LINK}": values.link,
+  };
+  return template.replace(/\{[A-Z_]+\}/g, (token) => replacements[token] ?? token);
+}
+
+/**
+ * Normalises a stored mobile number to international format without the "+"
+ * (as wa.me expects). Receipts store 10-digit Indian numbers, so those get the
+ * 91 country code; anything that doesn't look like a mobile number is rejected.
+ */
+export function toInternationalMobile(mobile: string): string | null {
+  const digits = mobile.replace(/\D/g, "").replace(/^0+/, "");
+  if (/^[6-9]\d{9}$/.test(digits)) return `91${digits}`;
+  if (/^91[6-9]\d{9}$/.test(digits)) return digits;
+  return null;
+}
@@ -0,0 +1,119 @@
+// Structured field layout stored on receipt_templates.layout.
+//
+// All positions are percentages of the A4 page so the same layout drives the
+// on-screen overlay, the printed page and the PDF renderer. Shared by the web
+// app and the edge functions, so it must not import anything.
+
+export type ReceiptFieldKey =
+  | "receipt_number"
+  | "customer_name"
+  | "age"
+  | "receipt_date"
+  | "address"
+  | "bp"
+  | "pulse";
+
+export interface LayoutPosition {
+  top: number;
+  left: number;
+}
+
+export interface LayoutItemsBlock extends LayoutPosition {
+  right: number;
+}
+
+export interface LayoutCustomText extends LayoutPosition {
+  id: string;
+  text: string;
+  color: string;
+  font_size: number;
+}
+
+export interface ReceiptLayout {
+  fields: Record<ReceiptFieldKey, LayoutPosition>;
+  items: LayoutItemsBlock;
+  /** Top-left corner of the UPI payment QR, shown while a balance is due */
+  upi_qr: LayoutPosition;
+  custom_texts: LayoutCustomText[];
+}
+
+export const RECEIPT_LAYOUT_FIELDS: { key: ReceiptFieldKey; label: string }[] = [
+  { key: "receipt_number", label: "Receipt No." },
+  { key: "customer_name", label: "Name" },
+  { key: "age", label: "Age" },
+  { key: "receipt_date", label: "Date" },
+  { key: "address", label: "Address" },
+  { key: "bp", label: "BP" },
+  { key: "pulse", label: "Pulse" },
+];
+
+/** Font sizes of the screen layout, in px on a 794px wide page. */
+export const FIELD_FONT_PX = 12;
+export const ITEM_FONT_PX = 13;
+
+/** Width of the UPI QR block, as a percentage of the page width. */
+export const UPI_QR_WIDTH = 16;
+
+/** The positions the prescription pad was originally tuned to. Keep in sync with the column default in SQL. */
+export const DEFAULT_RECEIPT_LAYOUT: ReceiptLayout = {
+  fields: {
+    receipt_number: { top: 22.5, left: 48 },
+    customer_name: { top: 25.5, left: 48 },
+    age: { top: 25.5, left: 82 },
+    receipt_date: { top: 25.5, left: 90 },
+    address: { top: 28, left: 48 },
+    bp: { top: 28, left: 75 },
+    pulse: { top: 28, left: 90 },
+  },
+  items: { top: 38, left: 35, right: 5 },
+  upi_qr: { top: 76, left: 78 },
+  custom_texts: [],
+};
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const readPosition = (value: unknown, fallback: LayoutPosition): LayoutPosition => {
+  const v = (value || {}) as Partial<LayoutPosition>;
+  return {
+    top: isNumber(v.top) ? v.top : fallback.top,
+    left: isNumber(v.left) ? v.left : fallback.left,
+  };
+};
+
+/**
+ * Turns the JSON stored on a template into a complete layout. Missing or
+ * malformed entries fall back to the defaults, so older layouts keep working
+ * when new fields are added.
+ */
+export function resolveReceiptLayout(stored: unknown): ReceiptLayout {
+  const raw = (stored && typeof stored === "object" ? stored : {}) as Partial<Record<keyof ReceiptLayout, unknown>>;
+  const storedFields = (raw.fields || {}) as Record<string, unknown>;
+  const storedItems = (raw.items || {}) as Partial<LayoutItemsBlock>;
+  const storedUpiQr = raw.upi_qr;
+  const defaults = DEFAULT_RECEIPT_LAYOUT;
+
+  const fields = {} as Record<ReceiptFieldKey, LayoutPosition>;
+  for (const { key } of RECEIPT_LAYOUT_FIELDS) {
+    fields[key] = readPosition(storedFields[key], defaults.fields[key]);
+  }
+
+  const customTexts = Array.isArray(raw.custom_texts) ? raw.custom_texts : [];
+
+  return {
+    fields,
+    items: {
+      ...readPosition(storedItems, defaults.items),
+      right: isNumber(storedItems.right) ? storedItems.right : defaults.items.right,
+    },
+    upi_qr: readPosition(storedUpiQr, defaults.upi_qr),
+    custom_texts: customTexts
+      .filter((t): t is LayoutCustomText => Boolean(t) && typeof (t as LayoutCustomText).text === "string")
+      .map((t, index) => ({
+        ...readPosition(t, { top: 50, left: 50 }),
+        id: t.id || `text-${index + 1}`,
+        text: t.text,
+        color: t.color || "#000000",
+        font_size: isNumber(t.font_size) ? t.font_size : 14,
+      })),
+  };
+}
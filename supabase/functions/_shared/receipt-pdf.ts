@@ -0,0 +1,179 @@
+// A4 PDF renderer for the prescription receipt layout.
+//
+// This module is shared by the web app (through the `@shared` alias) and the
+// edge functions, so it must not import anything outside _shared: callers pass
+// in their own jsPDF instance, created from the npm package or from esm.sh.
+
+import {
+  DEFAULT_RECEIPT_LAYOUT,
+  FIELD_FONT_PX,
+  ITEM_FONT_PX,
+  RECEIPT_LAYOUT_FIELDS,
+  type ReceiptFieldKey,
+  type ReceiptLayout,
+} from "./receipt-layout.ts";
+import { describeTaxRow, taxSummary, type GstLineTax } from "./gst.ts";
+import { amountInWords, formatAdjustment, formatInr } from "./money.ts";
+
+export interface PdfDocument {
+  addImage(imageData: string | Uint8Array, format: string, x: number, y: number, width: number, height: number): unknown;
+  addPage(): unknown;
+  setFont(fontName: string, fontStyle?: string): unknown;
+  setFontSize(size: number): unknown;
+  setTextColor(color: string): unknown;
+  text(
+    text: string,
+    x: number,
+    y: number,
+    options?: { align?: "left" | "center" | "right"; baseline?: "top" | "middle"; maxWidth?: number; angle?: number },
+  ): unknown;
+}
+
+export interface PdfReceiptItem extends Partial<GstLineTax> {
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+export interface PdfReceipt {
+  receipt_number: string;
+  customer_name: string;
+  age: string | null;
+  address: string | null;
+  bp: string | null;
+  pulse: string | null;
+  receipt_date: string;
+  items: PdfReceiptItem[];
+  supply_type?: string;
+  discount_amount?: number;
+  discount_reason?: string;
+  round_off?: number;
+  total_amount?: number;
+  cancelled_at?: string | null;
+  cancellation_reason?: string;
+}
+
+export interface ReceiptPdfOptions {
+  /** JPEG/PNG data URL or bytes of the prescription pad; omit for pre-printed paper. */
+  background?: string | Uint8Array | null;
+  /** Field positions from the receipt's template; defaults to the standard pad layout. */
+  layout?: ReceiptLayout | null;
+}
+
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+
+// ReceiptDisplay lays the receipt out on a 794px wide A4 box, so pixel sizes
+// from the screen layout are scaled against that width.
+const SCREEN_WIDTH_PX = 794;
+const MM_PER_PT = 25.4 / 72;
+
+const pxToPt = (px: number) => (px * PAGE_WIDTH_MM) / SCREEN_WIDTH_PX / MM_PER_PT;
+const pxToMm = (px: number) => (px * PAGE_WIDTH_MM) / SCREEN_WIDTH_PX;
+
+// 1.5 line height plus the 8px bottom margin used on screen
+const ITEM_ROW_PX = ITEM_FONT_PX * 1.5 + 8;
+
+const x = (percent: number) => (percent / 100) * PAGE_WIDTH_MM;
+const y = (percent: number) => (percent / 100) * PAGE_HEIGHT_MM;
+
+/** CSS boxes put the glyphs below the top of a 1.5 line-height box; match that offset. */
+const lineOffset = (fontPx: number) => pxToMm(fontPx * 0.25);
+
+/** dd/mm/yyyy, matching toLocaleDateString("en-GB") without depending on the runtime's locale data. */
+export function formatPdfDate(date: string) {
+  const [year, month, day] = date.slice(0, 10).split("-");
+  return `${day}/${month}/${year}`;
+}
+
+/** The standard PDF fonts have no rupee glyph, so amounts are written as "Rs.". */
+export function formatPdfAmount(amount: number) {
+  return formatInr(amount, "Rs. ");
+}
+
+/** Draws one receipt onto the current page of `doc`. */
+export function drawReceiptPage(doc: PdfDocument, receipt: PdfReceipt, options: ReceiptPdfOptions = {}) {
+  const layout = options.layout || DEFAULT_RECEIPT_LAYOUT;
+
+  if (options.background) {
+    // jsPDF sniffs the real image type from the data; the format is only a fallback
+    doc.addImage(options.background, "JPEG", 0, 0, PAGE_WIDTH_MM, PAGE_HEIGHT_MM);
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor("#000000");
+  doc.setFontSize(pxToPt(FIELD_FONT_PX));
+
+  const fields: Record<ReceiptFieldKey, string> = {
+    receipt_number: `No. ${receipt.receipt_number}`,
+    customer_name: receipt.customer_name,
+    age: receipt.age || "",
+    receipt_date: formatPdfDate(receipt.receipt_date),
+    address: receipt.address || "",
+    bp: receipt.bp || "-",
+    pulse: receipt.pulse || "-",
+  };
+
+  for (const { key } of RECEIPT_LAYOUT_FIELDS) {
+    const position = layout.fields[key];
+    if (!fields[key]) continue;
+    doc.text(fields[key], x(position.left), y(position.top) + lineOffset(FIELD_FONT_PX), { baseline: "top" });
+  }
+
+  doc.setFontSize(pxToPt(ITEM_FONT_PX));
+  const itemsLeft = x(layout.items.left);
+  const itemsWidth = PAGE_WIDTH_MM - itemsLeft - x(layout.items.right);
+  receipt.items.forEach((item, index) => {
+    const rowTop = y(layout.items.top) + index * pxToMm(ITEM_ROW_PX) + lineOffset(ITEM_FONT_PX);
+    doc.text(item.name, itemsLeft, rowTop, { baseline: "top", maxWidth: itemsWidth * 0.5 });
+    doc.text(`Qty: ${item.quantity}`, itemsLeft + itemsWidth * 0.6, rowTop, { baseline: "top", align: "center" });
+    doc.text(formatPdfAmount(item.price), itemsLeft + itemsWidth, rowTop, { baseline: "top", align: "right" });
+  });
+
+  // The discount, tax summary and total lines follow the items, as on screen
+  doc.setFontSize(pxToPt(FIELD_FONT_PX));
+  const summaryTop = y(layout.items.top) + receipt.items.length * pxToMm(ITEM_ROW_PX);
+  const discount = Number(receipt.discount_amount || 0);
+  const summaryLines = [
+    ...(discount > 0
+      ? [`Discount: -${formatPdfAmount(discount)}${receipt.discount_reason ? ` (${receipt.discount_reason})` : ""}`]
+      : []),
+    ...taxSummary(receipt.items)
+      .filter((row) => row.tax_rate > 0)
+      .map((row) => describeTaxRow(row, receipt.supply_type, formatPdfAmount)),
+    ...(Number(receipt.round_off) !== 0 ? [`Round off: ${formatAdjustment(receipt.round_off, "Rs. ")}`] : []),
+    ...(receipt.total_amount !== undefined
+      ? [`Total: ${formatPdfAmount(receipt.total_amount)}`, amountInWords(receipt.total_amount)]
+      : []),
+  ];
+  summaryLines.forEach((line, index) => {
+    const rowTop = summaryTop + index * pxToMm(FIELD_FONT_PX * 1.5) + lineOffset(FIELD_FONT_PX);
+    doc.text(line, itemsLeft, rowTop, { baseline: "top", maxWidth: itemsWidth });
+  });
+
+  for (const customText of layout.custom_texts) {
+    if (!customText.text) continue;
+    doc.setFontSize(pxToPt(customText.font_size));
+    doc.setTextColor(customText.color);
+    doc.text(customText.text, x(customText.left), y(customText.top) + lineOffset(customText.font_size), { baseline: "top" });
+  }
+
+  if (receipt.cancelled_at) {
+    doc.setTextColor("#dc2626");
+    doc.setFontSize(72);
+    doc.text("CANCELLED", PAGE_WIDTH_MM / 2, PAGE_HEIGHT_MM / 2, { align: "center", baseline: "middle", angle: 30 });
+    if (receipt.cancellation_reason) {
+      doc.setFontSize(pxToPt(FIELD_FONT_PX));
+      doc.text(receipt.cancellation_reason, PAGE_WIDTH_MM / 2, PAGE_HEIGHT_MM / 2 + 30, { align: "center", baseline: "top", maxWidth: 140 });
+    }
+  }
+  doc.setTextColor("#000000");
+}
+
+/** Draws each receipt on its own page. A freshly created jsPDF already has the first page. */
+export function drawReceipts(doc: PdfDocument, pages: ({ receipt: PdfReceipt } & ReceiptPdfOptions)[]) {
+  pages.forEach(({ receipt, ...options }, index) => {
+    if (index > 0) doc.addPage();
+    drawReceiptPage(doc, receipt, options);
+  });
+}
@@ -222,20 +222,20 @@ serve(async (req) => {
           .select("id");
         if (receiptError) throw receiptError;
 
-        // Transfer contacts
-        const { data: contactData, error: contactError } = await supabaseAdmin
-          .from("contacts")
+        // Transfer patients
+        const { data: patientData, error: patientError } = await supabaseAdmin
+          .from("patients")
           .update({ user_id: targetId })
           .eq("user_id", sourceId)
           .select("id");
-        if (contactError) throw contactError;
+        if (patientError) throw patientError;
 
         return new Response(
           JSON.stringify({
             success: true,
-            message: `Transferred ${receiptData?.length || 0} receipts and ${contactData?.length || 0} contacts successfully`,
+            message: `Transferred ${receiptData?.length || 0} receipts and ${patientData?.length || 0} patients successfully`,
             receipts_transferred: receiptData?.length || 0,
-            contacts_transferred: contactData?.length || 0,
+            patients_transferred: patientData?.length || 0,
           }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
@@ -41,6 +41,15 @@ serve(async (req) => {
 
     if (profileError) throw profileError;
 
+    // Branch names come from the branches table so renamed or new clinics show up correctly
+    const { data: branches, error: branchError } = await supabase
+      .from("branches")
+      .select("id, name");
+
+    if (branchError) throw branchError;
+
+    const branchNames = new Map((branches || []).map((b) => [b.id, b.name]));
+
     const { SMTPClient } = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
 
     const client = new SMTPClient({
@@ -63,7 +72,7 @@ serve(async (req) => {
       // Get receipts for this user for last month
       const { data: receipts, error: recError } = await supabase
         .from("receipts")
-        .select("customer_name, mobile_number, branch, receipt_date")
+        .select("customer_name, mobile_number, branch, branch_id, receipt_date")
         .eq("user_id", profile.id)
         .gte("receipt_date", startDate)
         .lt("receipt_date", endDate);
@@ -81,8 +90,9 @@ serve(async (req) => {
       // Group by branch
       const branchGroups: Record<string, typeof uniqueContacts> = {};
       for (const c of uniqueContacts) {
-        if (!branchGroups[c.branch]) branchGroups[c.branch] = [];
-        branchGroups[c.branch].push(c);
+        const branch = (c.branch_id && branchNames.get(c.branch_id)) || c.branch;
+        if (!branchGroups[branch]) branchGroups[branch] = [];
+        branchGroups[branch].push(c);
       }
 
       const monthName = new Date(lastMonthYear, lastMonth).toLocaleString("en", { month: "long", year: "numeric" });
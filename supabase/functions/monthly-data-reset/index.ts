@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { formatAmount, formatInr } from "../_shared/money.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -45,6 +46,16 @@ serve(async (req) => {
     const { data: profiles, error: profileError } = await profilesQuery;
     if (profileError) throw profileError;
 
+    // Branch names come from the branches table so renamed or new clinics show up correctly
+    const { data: branches, error: branchError } = await supabase
+      .from("branches")
+      .select("id, name");
+    if (branchError) throw branchError;
+
+    const branchNames = new Map((branches || []).map((b) => [b.id, b.name]));
+    const branchOf = (r: { branch: string; branch_id: string | null }) =>
+      (r.branch_id && branchNames.get(r.branch_id)) || r.branch;
+
     const { SMTPClient } = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
 
     const client = new SMTPClient({
@@ -70,52 +81,60 @@ serve(async (req) => {
         // Fetch ALL receipts for this user
         const { data: receipts, error: recError } = await supabase
           .from("receipts")
-          .select("*")
+          .select("*, credit_notes(credit_note_number, amount)")
           .eq("user_id", profile.id)
           .order("receipt_date", { ascending: false });
 
         if (recError) throw recError;
 
-        // Fetch ALL contacts for this user
-        const { data: contacts, error: conError } = await supabase
-          .from("contacts")
+        // Fetch ALL patients for this user
+        const { data: patients, error: patError } = await supabase
+          .from("patients")
           .select("*")
           .eq("user_id", profile.id);
 
-        if (conError) throw conError;
+        if (patError) throw patError;
 
         const receiptCount = receipts?.length || 0;
-        const contactCount = contacts?.length || 0;
+        const patientCount = patients?.length || 0;
+
+        if (receiptCount === 0 && patientCount === 0) continue;
 
-        if (receiptCount === 0 && contactCount === 0) continue;
+        const creditNotesOf = (r: { credit_notes: { credit_note_number: string; amount: number }[] | null }) => r.credit_notes || [];
+        const creditedOn = (r: { credit_notes: { credit_note_number: string; amount: number }[] | null }) =>
+          creditNotesOf(r).reduce((sum, note) => sum + Number(note.amount), 0);
+        // Cancelled receipts bring in nothing; credit notes come off their receipt
+        const incomeOf = (r: { total_amount: number; cancelled_at: string | null; credit_notes: { credit_note_number: string; amount: number }[] | null }) =>
+          r.cancelled_at ? 0 : Number(r.total_amount) - creditedOn(r);
 
-        // Build Receipts CSV
+        // Build Receipts CSV, keeping cancelled receipts and credit notes on record
         let receiptCSV = "";
         if (receipts && receipts.length > 0) {
-          receiptCSV = "Sr No,Date,Customer Name,Mobile Number,Branch,Address,Age,BP,Pulse,Subtotal,Tax,Total Amount\n";
+          receiptCSV = "Sr No,Receipt No,Date,Customer Name,Mobile Number,Branch,Address,Age,BP,Pulse,Subtotal,CGST,SGST,IGST,Tax,Round Off,Total Amount,Credit Notes,Credited,Cancelled At,Cancellation Reason\n";
           receiptCSV += receipts.map((r, i) =>
-            `${i + 1},"${r.receipt_date}","${r.customer_name}","${r.mobile_number}","${r.branch}","${r.address || ''}","${r.age || ''}","${r.bp || ''}","${r.pulse || ''}",${r.subtotal},${r.tax_amount},${r.total_amount}`
+            `${i + 1},"${r.receipt_number}","${r.receipt_date}","${r.customer_name}","${r.mobile_number}","${branchOf(r)}","${r.address || ''}","${r.age || ''}","${r.bp || ''}","${r.pulse || ''}",${formatAmount(r.subtotal)},${formatAmount(r.cgst_amount)},${formatAmount(r.sgst_amount)},${formatAmount(r.igst_amount)},${formatAmount(r.tax_amount)},${formatAmount(r.round_off)},${formatAmount(r.total_amount)},"${creditNotesOf(r).map((note) => note.credit_note_number).join(' ')}",${formatAmount(creditedOn(r))},"${r.cancelled_at || ''}","${r.cancellation_reason || ''}"`
           ).join("\n");
         }
 
-        // Build Contacts CSV
-        let contactCSV = "";
-        if (contacts && contacts.length > 0) {
-          contactCSV = "Sr No,Customer Name,Mobile Number,Created At\n";
-          contactCSV += contacts.map((c, i) =>
-            `${i + 1},"${c.customer_name}","${c.mobile_number}","${c.created_at || ''}"`
+        // Build Patients CSV
+        let patientCSV = "";
+        if (patients && patients.length > 0) {
+          patientCSV = "Sr No,Name,Mobile Number,Age,Date of Birth,Gender,Address,Notes,Created At\n";
+          patientCSV += patients.map((p, i) =>
+            `${i + 1},"${p.name}","${p.mobile_number}","${p.age || ''}","${p.date_of_birth || ''}","${p.gender || ''}","${p.address}","${p.notes}","${p.created_at}"`
           ).join("\n");
         }
 
         // Calculate totals
-        const totalIncome = receipts?.reduce((sum, r) => sum + Number(r.total_amount), 0) || 0;
+        const totalIncome = receipts?.reduce((sum, r) => sum + incomeOf(r), 0) || 0;
 
         // Group by branch
         const branchTotals: Record<string, { count: number; total: number }> = {};
-        for (const r of (receipts || [])) {
-          if (!branchTotals[r.branch]) branchTotals[r.branch] = { count: 0, total: 0 };
-          branchTotals[r.branch].count++;
-          branchTotals[r.branch].total += Number(r.total_amount);
+        for (const r of (receipts || []).filter((r) => !r.cancelled_at)) {
+          const branch = branchOf(r);
+          if (!branchTotals[branch]) branchTotals[branch] = { count: 0, total: 0 };
+          branchTotals[branch].count++;
+          branchTotals[branch].total += incomeOf(r);
         }
 
         const branchRows = Object.entries(branchTotals)
@@ -123,7 +142,7 @@ serve(async (req) => {
             <tr>
               <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb">${branch}</td>
               <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;text-align:center">${data.count}</td>
-              <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;text-align:right">₹${data.total.toFixed(2)}</td>
+              <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;text-align:right">${formatInr(data.total)}</td>
             </tr>`)
           .join("");
 
@@ -139,7 +158,7 @@ serve(async (req) => {
 
               <div style="display:flex;gap:12px;margin:16px 0">
                 <div style="flex:1;background:#f0fdf4;padding:12px;border-radius:8px;text-align:center">
-                  <p style="margin:0;font-size:24px;font-weight:bold;color:#16a34a">₹${totalIncome.toFixed(2)}</p>
+                  <p style="margin:0;font-size:24px;font-weight:bold;color:#16a34a">${formatInr(totalIncome)}</p>
                   <p style="margin:4px 0 0;font-size:12px;color:#6b7280">Total Income</p>
                 </div>
                 <div style="flex:1;background:#eff6ff;padding:12px;border-radius:8px;text-align:center">
@@ -147,8 +166,8 @@ serve(async (req) => {
                   <p style="margin:4px 0 0;font-size:12px;color:#6b7280">Receipts</p>
                 </div>
                 <div style="flex:1;background:#fef3c7;padding:12px;border-radius:8px;text-align:center">
-                  <p style="margin:0;font-size:24px;font-weight:bold;color:#d97706">${contactCount}</p>
-                  <p style="margin:4px 0 0;font-size:12px;color:#6b7280">Contacts</p>
+                  <p style="margin:0;font-size:24px;font-weight:bold;color:#d97706">${patientCount}</p>
+                  <p style="margin:4px 0 0;font-size:12px;color:#6b7280">Patients</p>
                 </div>
               </div>
 
@@ -168,7 +187,7 @@ serve(async (req) => {
               <p style="margin-top:16px;color:#6b7280;font-size:13px">
                 📎 CSV files attached:<br/>
                 ${receiptCount > 0 ? '1. <strong>all-receipts.csv</strong> - Complete receipt history<br/>' : ''}
-                ${contactCount > 0 ? `${receiptCount > 0 ? '2' : '1'}. <strong>all-contacts.csv</strong> - All contacts<br/>` : ''}
+                ${patientCount > 0 ? `${receiptCount > 0 ? '2' : '1'}. <strong>all-patients.csv</strong> - All patients<br/>` : ''}
               </p>
 
               <p style="margin-top:16px;color:#9ca3af;font-size:12px">
@@ -187,10 +206,10 @@ serve(async (req) => {
             contentType: "text/csv",
           });
         }
-        if (contactCSV) {
+        if (patientCSV) {
           attachments.push({
-            filename: `all-contacts-backup-${now.toISOString().slice(0, 10)}.csv`,
-            content: base64Encode(new TextEncoder().encode(contactCSV)),
+            filename: `all-patients-backup-${now.toISOString().slice(0, 10)}.csv`,
+            content: base64Encode(new TextEncoder().encode(patientCSV)),
             encoding: "base64" as const,
             contentType: "text/csv",
           });
@@ -217,12 +236,12 @@ serve(async (req) => {
           if (delRecErr) throw delRecErr;
         }
 
-        if (contactCount > 0) {
-          const { error: delConErr } = await supabase
-            .from("contacts")
+        if (patientCount > 0) {
+          const { error: delPatErr } = await supabase
+            .from("patients")
             .delete()
             .eq("user_id", profile.id);
-          if (delConErr) throw delConErr;
+          if (delPatErr) throw delPatErr;
         }
 
         dataReset++;
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { formatAmount } from "../_shared/money.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -14,11 +16,20 @@ interface ContactData {
 }
 
 interface ReceiptData {
+  receipt_number?: string;
   customer_name: string;
   mobile_number: string;
   branch: string;
   receipt_date: string;
+  subtotal?: number;
+  discount_amount?: number;
+  cgst_amount?: number;
+  sgst_amount?: number;
+  igst_amount?: number;
+  round_off?: number;
   total_amount: number;
+  /** Payment status, or "Cancelled" */
+  status?: string;
   items: string;
 }
 
@@ -31,9 +42,9 @@ function generateContactsCSV(contacts: ContactData[]): string {
 }
 
 function generateReceiptsCSV(receipts: ReceiptData[]): string {
-  const header = "Sr No,Customer Name,Mobile Number,Branch,Receipt Date,Amount,Items\n";
+  const header = "Sr No,Receipt No,Customer Name,Mobile Number,Branch,Receipt Date,Subtotal,Discount,Taxable Value,CGST,SGST,IGST,Round Off,Amount,Status,Items\n";
   const rows = receipts
-    .map((r, i) => `${i + 1},"${r.customer_name}","${r.mobile_number}","${r.branch}","${r.receipt_date}",${r.total_amount},"${r.items}"`)
+    .map((r, i) => `${i + 1},"${r.receipt_number || ""}","${r.customer_name}","${r.mobile_number}","${r.branch}","${r.receipt_date}",${r.subtotal == null ? "" : formatAmount(r.subtotal)},${formatAmount(r.discount_amount ?? 0)},${r.subtotal == null ? "" : formatAmount(r.subtotal - (r.discount_amount ?? 0))},${formatAmount(r.cgst_amount ?? 0)},${formatAmount(r.sgst_amount ?? 0)},${formatAmount(r.igst_amount ?? 0)},${formatAmount(r.round_off ?? 0)},${formatAmount(r.total_amount)},"${r.status || ""}","${r.items}"`)
     .join("\n");
   return header + rows;
 }
@@ -41,12 +52,11 @@ function generateReceiptsCSV(receipts: ReceiptData[]): string {
 function buildEmailHTML(
   contacts: ContactData[],
   receipts: ReceiptData[],
-  branchFilter: string,
+  branchLabel: string,
   monthFilter: string,
   dateFrom?: string,
   dateTo?: string,
 ): string {
-  const branchLabel = branchFilter === "all" ? "All Branches" : branchFilter;
   const monthLabel = monthFilter === "all" ? "All Months" : monthFilter;
   const dateLabel = (dateFrom && dateFrom !== "all") || (dateTo && dateTo !== "all")
     ? `${dateFrom && dateFrom !== "all" ? dateFrom : "Start"} to ${dateTo && dateTo !== "all" ? dateTo : "Present"}`
@@ -113,14 +123,29 @@ serve(async (req) => {
       throw new Error("Gmail credentials not configured");
     }
 
-    const branchLabel = branch_filter === "all" ? "All Branches" : branch_filter;
+    // branch_filter is a branch id (or "all"); resolve its current name from the branches table
+    let branchName = "All Branches";
+    if (branch_filter && branch_filter !== "all") {
+      const supabase = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      );
+      const { data: branch } = await supabase
+        .from("branches")
+        .select("name")
+        .eq("id", branch_filter)
+        .maybeSingle();
+      branchName = branch?.name || branch_filter;
+    }
+    const branchSlug = branchName === "All Branches" ? "all" : branchName.replace(/\s+/g, "-");
+
     const monthLabel = month_filter === "all" ? "All Months" : month_filter;
     const dateLabel = (date_from && date_from !== "all") || (date_to && date_to !== "all")
       ? ` (${date_from !== "all" ? date_from : "Start"} to ${date_to !== "all" ? date_to : "Present"})`
       : "";
-    const subject = `Customer Contacts & Receipts - ${branchLabel} - ${monthLabel}${dateLabel}`;
+    const subject = `Customer Contacts & Receipts - ${branchName} - ${monthLabel}${dateLabel}`;
 
-    const html = buildEmailHTML(contacts, receipts || [], branch_filter, month_filter, date_from, date_to);
+    const html = buildEmailHTML(contacts, receipts || [], branchName, month_filter, date_from, date_to);
 
     // Generate CSV files
     const contactsCSV = generateContactsCSV(contacts);
@@ -142,7 +167,7 @@ serve(async (req) => {
 
     const attachments = [
       {
-        filename: `contacts-${branch_filter}-${month_filter}.csv`,
+        filename: `contacts-${branchSlug}-${month_filter}.csv`,
         content: base64Encode(new TextEncoder().encode(contactsCSV)),
         encoding: "base64" as const,
         contentType: "text/csv",
@@ -151,7 +176,7 @@ serve(async (req) => {
 
     if (receipts && receipts.length > 0) {
       attachments.push({
-        filename: `receipt-history-${branch_filter}-${month_filter}.csv`,
+        filename: `receipt-history-${branchSlug}-${month_filter}.csv`,
         content: base64Encode(new TextEncoder().encode(receiptsCSV)),
         encoding: "base64" as const,
         contentType: "text/csv",
@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  DEFAULT_PATIENT_MESSAGE_TEMPLATE,
+  renderPatientMessage,
+  toInternationalMobile,
+} from "../_shared/patient-message.ts";
+import { getProvider, type MessageChannel, type ProviderResult } from "./providers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const CHANNELS: MessageChannel[] = ["whatsapp", "sms"];
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      receipt_id,
+      channel = "whatsapp",
+      message_template,
+      mobile_number,
+      app_url,
+      link_expires_days = 30,
+    } = await req.json();
+
+    if (!receipt_id || !app_url) throw new Error("Missing required fields");
+    if (!CHANNELS.includes(channel)) throw new Error(`Unsupported channel "${channel}"`);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    // Read the receipt and create the share link as the caller, so RLS applies
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header");
+
+    const callerClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user: caller } } = await callerClient.auth.getUser();
+    if (!caller) throw new Error("Not authenticated");
+
+    const { data: receipt, error: receiptError } = await callerClient
+      .from("receipts")
+      .select("id, receipt_number, customer_name, mobile_number, receipt_date, total_amount, branch")
+      .eq("id", receipt_id)
+      .maybeSingle();
+
+    if (receiptError) throw receiptError;
+    if (!receipt) throw new Error("Receipt not found");
+
+    const recipient = toInternationalMobile(mobile_number || receipt.mobile_number);
+    if (!recipient) throw new Error("Invalid mobile number");
+
+    const expiresAt = new Date(Date.now() + Number(link_expires_days) * 24 * 60 * 60 * 1000);
+    const { data: link, error: linkError } = await callerClient
+      .from("receipt_share_links")
+      .insert({ receipt_id: receipt.id, expires_at: expiresAt.toISOString() })
+      .select("token")
+      .single();
+
+    if (linkError) throw linkError;
+
+    let template = message_template;
+    if (!template) {
+      const { data: setting } = await supabaseAdmin
+        .from("site_settings")
+        .select("value")
+        .eq("key", "patient_message_template")
+        .maybeSingle();
+      template = setting?.value || DEFAULT_PATIENT_MESSAGE_TEMPLATE;
+    }
+
+    const body = renderPatientMessage(template, {
+      ...receipt,
+      link: `${String(app_url).replace(/\/+$/, "")}/share/${link.token}`,
+    });
+
+    const provider = getProvider(channel, Deno.env.get("MESSAGE_PROVIDER"));
+    let result: ProviderResult;
+    try {
+      result = await provider.send({ channel, to: recipient, body });
+    } catch (error: unknown) {
+      result = { status: "failed", error: error instanceof Error ? error.message : "Unknown error" };
+    }
+
+    // Every attempt is logged with the service role; clients can read but not write the log
+    const { data: log, error: logError } = await supabaseAdmin
+      .from("message_logs")
+      .insert({
+        receipt_id: receipt.id,
+        sent_by: caller.id,
+        channel,
+        provider: provider.name,
+        recipient,
+        body,
+        status: result.status,
+        provider_message_id: result.provider_message_id ?? null,
+        error: result.error ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (logError) console.error("Failed to record message log:", logError);
+
+    if (result.status === "failed") throw new Error(result.error || "Message could not be sent");
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        status: result.status,
+        provider: provider.name,
+        action_url: result.action_url ?? null,
+        log_id: log?.id ?? null,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("Error sending patient message:", error);
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ success: false, error: msg }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,79 @@
+// Messaging providers for send-patient-message. Each provider takes a fully
+// rendered message and reports what happened; the function records the result
+// in message_logs. Add an API-backed provider here and select it with the
+// MESSAGE_PROVIDER secret.
+
+export type MessageChannel = "whatsapp" | "sms";
+
+export type MessageStatus = "sent" | "link_created" | "failed";
+
+export interface OutgoingMessage {
+  channel: MessageChannel;
+  /** International format without "+", e.g. 919876543210 */
+  to: string;
+  body: string;
+}
+
+export interface ProviderResult {
+  status: MessageStatus;
+  provider_message_id?: string | null;
+  /** Click-to-chat providers return a link the sender opens to finish sending */
+  action_url?: string | null;
+  error?: string | null;
+}
+
+export interface MessagingProvider {
+  name: string;
+  channels: MessageChannel[];
+  send(message: OutgoingMessage): Promise<ProviderResult>;
+}
+
+/** Opens WhatsApp with the message pre-filled; the sender presses send themselves. */
+const whatsappLinkProvider: MessagingProvider = {
+  name: "whatsapp_link",
+  channels: ["whatsapp"],
+  send: ({ to, body }) =>
+    Promise.resolve({
+      status: "link_created",
+      action_url: `https://wa.me/${to}?text=${encodeURIComponent(body)}`,
+    }),
+};
+
+/** Opens the device's SMS app with the message pre-filled. */
+const smsLinkProvider: MessagingProvider = {
+  name: "sms_link",
+  channels: ["sms"],
+  send: ({ to, body }) =>
+    Promise.resolve({
+      status: "link_created",
+      action_url: `sms:+${to}?body=${encodeURIComponent(body)}`,
+    }),
+};
+
+/** Accepts everything without contacting anyone; for local testing. */
+const mockProvider: MessagingProvider = {
+  name: "mock",
+  channels: ["whatsapp", "sms"],
+  send: (message) => {
+    console.log(`[mock ${message.channel}] to ${message.to}: ${message.body}`);
+    return Promise.resolve({ status: "sent", provider_message_id: `mock-${crypto.randomUUID()}` });
+  },
+};
+
+const PROVIDERS: MessagingProvider[] = [whatsappLinkProvider, smsLinkProvider, mockProvider];
+
+const DEFAULT_PROVIDER: Record<MessageChannel, string> = {
+  whatsapp: "whatsapp_link",
+  sms: "sms_link",
+};
+
+/**
+ * Picks the provider for a channel. MESSAGE_PROVIDER (e.g. "mock") overrides
+ * the click-to-chat defaults when it supports the channel.
+ */
+export function getProvider(channel: MessageChannel, override?: string | null): MessagingProvider {
+  const configured = override ? PROVIDERS.find((p) => p.name === override) : undefined;
+  if (override && !configured) throw new Error(`Unknown messaging provider "${override}"`);
+  if (configured?.channels.includes(channel)) return configured;
+  return PROVIDERS.find((p) => p.name === DEFAULT_PROVIDER[channel])!;
+}
@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { jsPDF } from "https://esm.sh/jspdf@4.2.0";
+import { drawReceiptPage, type PdfReceipt } from "../_shared/receipt-pdf.ts";
+import { resolveReceiptLayout, type ReceiptLayout } from "../_shared/receipt-layout.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// Keeps a single email comfortably under Gmail's attachment size limit
+const MAX_RECEIPTS = 25;
+
+const HTML_ENTITIES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+// Receipt fields are typed in by users, so keep them from adding markup to the mail
+const escapeHtml = (text: string) => String(text).replace(/[&<>"']/g, (c) => HTML_ENTITIES[c]);
+
+const pdfFileName = (receiptNumber: string) => `receipt-${receiptNumber.replace(/[^A-Za-z0-9-]+/g, "-")}.pdf`;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { receipt_ids, include_background } = await req.json();
+
+    if (!Array.isArray(receipt_ids) || receipt_ids.length === 0) {
+      throw new Error("Missing required fields");
+    }
+    if (receipt_ids.length > MAX_RECEIPTS) {
+      throw new Error(`At most ${MAX_RECEIPTS} receipts can be emailed at once`);
+    }
+
+    const gmailUser = Deno.env.get("GMAIL_USER");
+    const gmailPass = Deno.env.get("GMAIL_APP_PASSWORD");
+
+    if (!gmailUser || !gmailPass) {
+      throw new Error("Gmail credentials not configured");
+    }
+
+    // Read receipts as the caller so row level security decides what they may send
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header");
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    // Always the caller's own address, so the function can't mail receipts to anyone else
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("email")
+      .eq("id", user.id)
+      .maybeSingle();
+    const recipient = profile?.email || user.email;
+    if (!recipient) throw new Error("No email address on your profile");
+
+    const { data: receipts, error } = await supabase
+      .from("receipts")
+      .select("id, receipt_number, customer_name, age, address, bp, pulse, receipt_date, items, supply_type, discount_amount, discount_reason, round_off, total_amount, cancelled_at, cancellation_reason, template_id")
+      .in("id", receipt_ids)
+      .order("receipt_date", { ascending: true });
+
+    if (error) throw error;
+    if (!receipts || receipts.length === 0) throw new Error("Receipts not found");
+
+    const templateIds = [...new Set(receipts.map((r) => r.template_id).filter(Boolean))];
+    const layouts = new Map<string, ReceiptLayout>();
+    const templateBackgrounds = new Map<string, string>();
+    if (templateIds.length > 0) {
+      const { data: templates } = await supabase
+        .from("receipt_templates")
+        .select("id, layout, background_image_url")
+        .in("id", templateIds);
+      for (const t of templates || []) {
+        layouts.set(t.id, resolveReceiptLayout(t.layout));
+        if (t.background_image_url) templateBackgrounds.set(t.id, t.background_image_url);
+      }
+    }
+
+    // Backgrounds come only from the stored templates (uploaded to the templates
+    // bucket) or the default pad set in the RECEIPT_PAD_URL secret, never from
+    // the request
+    const templateBucketUrl = `${Deno.env.get("SUPABASE_URL")}/storage/v1/object/public/templates/`;
+    const defaultBackgroundUrl = Deno.env.get("RECEIPT_PAD_URL") || null;
+    const backgrounds = new Map<string, Uint8Array>();
+    const loadBackground = async (url: string) => {
+      if (url !== defaultBackgroundUrl && !url.startsWith(templateBucketUrl)) {
+        throw new Error("The receipt background is not in the templates bucket");
+      }
+      if (!backgrounds.has(url)) {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error("Could not load the receipt background");
+        backgrounds.set(url, new Uint8Array(await response.arrayBuffer()));
+      }
+      return backgrounds.get(url)!;
+    };
+
+    const attachments = [];
+    for (const receipt of receipts) {
+      const backgroundUrl = (receipt.template_id && templateBackgrounds.get(receipt.template_id)) || defaultBackgroundUrl;
+      if (include_background && !backgroundUrl) {
+        throw new Error(`No background for receipt ${receipt.receipt_number}; set RECEIPT_PAD_URL or give its template a background`);
+      }
+      const doc = new jsPDF({ unit: "mm", format: "a4" });
+      drawReceiptPage(doc, receipt as PdfReceipt, {
+        background: include_background ? await loadBackground(backgroundUrl!) : null,
+        layout: receipt.template_id ? layouts.get(receipt.template_id) : null,
+      });
+      attachments.push({
+        filename: pdfFileName(receipt.receipt_number),
+        content: base64Encode(new Uint8Array(doc.output("arraybuffer"))),
+        encoding: "base64" as const,
+        contentType: "application/pdf",
+      });
+    }
+
+    const subject = receipts.length === 1
+      ? `Receipt ${receipts[0].receipt_number} - ${receipts[0].customer_name}`
+      : `${receipts.length} Receipts`;
+
+    const rows = receipts.map((r) => `
+      <tr>
+        <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb">${escapeHtml(r.receipt_number)}</td>
+        <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb">${escapeHtml(r.customer_name)}</td>
+        <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb">${escapeHtml(r.receipt_date)}</td>
+      </tr>`).join("");
+
+    const html = `
+    <div style="font-family:Arial,sans-serif;max-width:700px;margin:0 auto">
+      <div style="background:#1e40af;color:white;padding:20px;border-radius:8px 8px 0 0">
+        <h2 style="margin:0">${escapeHtml(subject)}</h2>
+      </div>
+      <div style="padding:20px;border:1px solid #e5e7eb;border-top:none;border-radius:0 0 8px 8px">
+        <p style="color:#6b7280;font-size:13px">📎 ${receipts.length} PDF file(s) attached, one per receipt.</p>
+        <table style="width:100%;border-collapse:collapse;font-size:14px">
+          <thead>
+            <tr style="background:#f3f4f6">
+              <th style="padding:8px 12px;text-align:left;border-bottom:2px solid #d1d5db">Receipt No</th>
+              <th style="padding:8px 12px;text-align:left;border-bottom:2px solid #d1d5db">Customer Name</th>
+              <th style="padding:8px 12px;text-align:left;border-bottom:2px solid #d1d5db">Date</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+    </div>`;
+
+    const { SMTPClient } = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
+
+    const client = new SMTPClient({
+      connection: {
+        hostname: "smtp.gmail.com",
+        port: 465,
+        tls: true,
+        auth: {
+          username: gmailUser,
+          password: gmailPass,
+        },
+      },
+    });
+
+    await client.send({
+      from: gmailUser,
+      to: recipient,
+      subject: subject,
+      content: "auto",
+      html: html,
+      attachments: attachments,
+    });
+
+    await client.close();
+
+    return new Response(
+      JSON.stringify({ success: true, sent: receipts.length, to_email: recipient }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("Error sending receipt PDF:", error);
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ success: false, error: msg }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { formatAmount, formatInr } from "../_shared/money.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -39,6 +40,16 @@ serve(async (req) => {
 
     if (profileError) throw profileError;
 
+    // Branch names come from the branches table so renamed or new clinics show up correctly
+    const { data: branches, error: branchError } = await supabase
+      .from("branches")
+      .select("id, name, is_active")
+      .order("name", { ascending: true });
+
+    if (branchError) throw branchError;
+
+    const branchNames = new Map((branches || []).map((b) => [b.id, b.name]));
+
     const { SMTPClient } = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
 
     const client = new SMTPClient({
@@ -61,7 +72,7 @@ serve(async (req) => {
       // Get receipts for this user for last week
       const { data: receipts, error: recError } = await supabase
         .from("receipts")
-        .select("customer_name, mobile_number, branch, receipt_date, total_amount")
+        .select("receipt_number, customer_name, mobile_number, branch, branch_id, receipt_date, subtotal, discount_amount, cgst_amount, sgst_amount, igst_amount, round_off, total_amount, cancelled_at, credit_notes(amount)")
         .eq("user_id", profile.id)
         .gte("receipt_date", startDate)
         .lte("receipt_date", endDate)
@@ -69,10 +80,20 @@ serve(async (req) => {
 
       if (recError || !receipts || receipts.length === 0) continue;
 
+      const branchOf = (r: { branch: string; branch_id: string | null }) =>
+        (r.branch_id && branchNames.get(r.branch_id)) || r.branch;
+
+      const creditedOn = (r: { credit_notes: { amount: number }[] | null }) =>
+        (r.credit_notes || []).reduce((sum, note) => sum + Number(note.amount), 0);
+      // Cancelled receipts bring in nothing; credit notes come off their receipt
+      const incomeOf = (r: { total_amount: number; cancelled_at: string | null; credit_notes: { amount: number }[] | null }) =>
+        r.cancelled_at ? 0 : Number(r.total_amount) - creditedOn(r);
+      const issued = receipts.filter((r) => !r.cancelled_at);
+
       // Build CSV for receipts
-      const receiptCSVHeader = "Sr No,Date,Customer Name,Mobile Number,Branch,Amount\n";
+      const receiptCSVHeader = "Sr No,Receipt No,Date,Customer Name,Mobile Number,Branch,Subtotal,Discount,Taxable Value,CGST,SGST,IGST,Round Off,Amount,Credited,Status\n";
       const receiptCSVRows = receipts
-        .map((r, i) => `${i + 1},"${r.receipt_date}","${r.customer_name}","${r.mobile_number}","${r.branch}",${r.total_amount}`)
+        .map((r, i) => `${i + 1},"${r.receipt_number}","${r.receipt_date}","${r.customer_name}","${r.mobile_number}","${branchOf(r)}",${formatAmount(r.subtotal)},${formatAmount(r.discount_amount)},${formatAmount(Number(r.subtotal) - Number(r.discount_amount))},${formatAmount(r.cgst_amount)},${formatAmount(r.sgst_amount)},${formatAmount(r.igst_amount)},${formatAmount(r.round_off)},${formatAmount(r.total_amount)},${formatAmount(creditedOn(r))},"${r.cancelled_at ? "Cancelled" : ""}"`)
         .join("\n");
       const receiptCSV = receiptCSVHeader + receiptCSVRows;
 
@@ -86,19 +107,23 @@ serve(async (req) => {
 
       const contactCSVHeader = "Sr No,Customer Name,Mobile Number,Branch\n";
       const contactCSVRows = uniqueContacts
-        .map((c, i) => `${i + 1},"${c.customer_name}","${c.mobile_number}","${c.branch}"`)
+        .map((c, i) => `${i + 1},"${c.customer_name}","${c.mobile_number}","${branchOf(c)}"`)
         .join("\n");
       const contactCSV = contactCSVHeader + contactCSVRows;
 
       // Total income
-      const totalIncome = receipts.reduce((sum, r) => sum + Number(r.total_amount), 0);
+      const totalIncome = receipts.reduce((sum, r) => sum + incomeOf(r), 0);
 
-      // Group by branch
+      // Group by branch, listing every active branch even if it had no receipts
       const branchTotals: Record<string, { count: number; total: number }> = {};
-      for (const r of receipts) {
-        if (!branchTotals[r.branch]) branchTotals[r.branch] = { count: 0, total: 0 };
-        branchTotals[r.branch].count++;
-        branchTotals[r.branch].total += Number(r.total_amount);
+      for (const b of (branches || [])) {
+        if (b.is_active) branchTotals[b.name] = { count: 0, total: 0 };
+      }
+      for (const r of issued) {
+        const branch = branchOf(r);
+        if (!branchTotals[branch]) branchTotals[branch] = { count: 0, total: 0 };
+        branchTotals[branch].count++;
+        branchTotals[branch].total += incomeOf(r);
       }
 
       const branchRows = Object.entries(branchTotals)
@@ -106,7 +131,7 @@ serve(async (req) => {
           <tr>
             <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb">${branch}</td>
             <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;text-align:center">${data.count}</td>
-            <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;text-align:right">₹${data.total.toFixed(2)}</td>
+            <td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;text-align:right">${formatInr(data.total)}</td>
           </tr>`)
         .join("");
 
@@ -124,11 +149,11 @@ serve(async (req) => {
 
             <div style="display:flex;gap:12px;margin:16px 0">
               <div style="flex:1;background:#f0fdf4;padding:12px;border-radius:8px;text-align:center">
-                <p style="margin:0;font-size:24px;font-weight:bold;color:#16a34a">₹${totalIncome.toFixed(2)}</p>
+                <p style="margin:0;font-size:24px;font-weight:bold;color:#16a34a">${formatInr(totalIncome)}</p>
                 <p style="margin:4px 0 0;font-size:12px;color:#6b7280">Total Income</p>
               </div>
               <div style="flex:1;background:#eff6ff;padding:12px;border-radius:8px;text-align:center">
-                <p style="margin:0;font-size:24px;font-weight:bold;color:#2563eb">${receipts.length}</p>
+                <p style="margin:0;font-size:24px;font-weight:bold;color:#2563eb">${issued.length}</p>
                 <p style="margin:4px 0 0;font-size:12px;color:#6b7280">Receipts</p>
               </div>
               <div style="flex:1;background:#fef3c7;padding:12px;border-radius:8px;text-align:center">
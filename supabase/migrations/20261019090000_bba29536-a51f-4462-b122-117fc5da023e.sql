@@ -0,0 +1,62 @@
+-- Immutable revision history for receipts
+CREATE TABLE public.receipt_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid NOT NULL REFERENCES public.receipts(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  edited_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (receipt_id, revision_number)
+);
+
+CREATE INDEX idx_receipt_revisions_receipt_id ON public.receipt_revisions(receipt_id);
+
+ALTER TABLE public.receipt_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written only by the trigger below, so there are no
+-- insert/update/delete policies: clients can read them but never change them.
+CREATE POLICY "Users can view revisions of their own receipts" ON public.receipt_revisions
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.receipts r
+    WHERE r.id = receipt_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all receipt revisions" ON public.receipt_revisions
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Snapshot the receipt after every insert and every update that changes data
+CREATE OR REPLACE FUNCTION public.record_receipt_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_revision integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (to_jsonb(NEW) - 'updated_at') = (to_jsonb(OLD) - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_revision
+  FROM public.receipt_revisions
+  WHERE receipt_id = NEW.id;
+
+  INSERT INTO public.receipt_revisions (receipt_id, revision_number, snapshot, edited_by)
+  VALUES (NEW.id, next_revision, to_jsonb(NEW), COALESCE(auth.uid(), NEW.user_id));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_receipt_revision
+  AFTER INSERT OR UPDATE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_receipt_revision();
+
+-- Backfill the original version of every existing receipt as revision 1
+INSERT INTO public.receipt_revisions (receipt_id, revision_number, snapshot, edited_by, created_at)
+SELECT r.id, 1, to_jsonb(r), r.user_id, COALESCE(r.created_at, now())
+FROM public.receipts r;
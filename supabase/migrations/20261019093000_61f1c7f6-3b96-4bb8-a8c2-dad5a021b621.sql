@@ -0,0 +1,75 @@
+-- Branches managed from the Admin console instead of hard-coded names
+CREATE TABLE public.branches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  address text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.branches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view branches" ON public.branches
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage branches" ON public.branches
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_branches_updated_at
+  BEFORE UPDATE ON public.branches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the two existing clinics plus any other branch name already used on a receipt
+INSERT INTO public.branches (name) VALUES
+  ('Near Shivaji Chowk Banka'),
+  ('Nimiya Belhar Banka');
+
+INSERT INTO public.branches (name)
+SELECT DISTINCT branch FROM public.receipts
+ON CONFLICT (name) DO NOTHING;
+
+-- Link receipts to branches. receipts.branch keeps the name as it was when
+-- the receipt was issued, so renaming a branch never rewrites old receipts.
+ALTER TABLE public.receipts ADD COLUMN branch_id uuid REFERENCES public.branches(id);
+
+UPDATE public.receipts r
+SET branch_id = b.id
+FROM public.branches b
+WHERE b.name = r.branch;
+
+CREATE INDEX idx_receipts_branch_id ON public.receipts(branch_id);
+
+ALTER TABLE public.receipts ALTER COLUMN branch DROP DEFAULT;
+
+-- Keep receipts.branch and receipts.branch_id consistent whichever one the client sends
+CREATE OR REPLACE FUNCTION public.sync_receipt_branch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.branch_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.branch_id IS DISTINCT FROM OLD.branch_id) THEN
+    SELECT name INTO NEW.branch FROM public.branches WHERE id = NEW.branch_id;
+  ELSIF NEW.branch_id IS NULL AND NEW.branch IS NOT NULL THEN
+    SELECT id INTO NEW.branch_id FROM public.branches WHERE name = NEW.branch;
+  END IF;
+
+  IF NEW.branch IS NULL THEN
+    RAISE EXCEPTION 'Unknown branch';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_receipt_branch
+  BEFORE INSERT OR UPDATE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_receipt_branch();
@@ -0,0 +1,176 @@
+-- Human-readable, gap-free receipt numbers such as SCB/2026-27/000123
+
+-- Short per-branch prefix used in receipt numbers
+ALTER TABLE public.branches ADD COLUMN code text;
+
+UPDATE public.branches SET code = 'SCB' WHERE name = 'Near Shivaji Chowk Banka';
+UPDATE public.branches SET code = 'NBB' WHERE name = 'Nimiya Belhar Banka';
+
+WITH unnamed AS (
+  SELECT id, row_number() OVER (ORDER BY created_at, name) AS n
+  FROM public.branches
+  WHERE code IS NULL
+)
+UPDATE public.branches b
+SET code = 'BR' || lpad(u.n::text, 2, '0')
+FROM unnamed u
+WHERE b.id = u.id;
+
+ALTER TABLE public.branches ALTER COLUMN code SET NOT NULL;
+ALTER TABLE public.branches ADD CONSTRAINT branches_code_key UNIQUE (code);
+
+-- Numbering format, editable from the Admin console
+INSERT INTO public.site_settings (key, value)
+VALUES ('receipt_number_format', '{BRANCH}/{FY}/{SEQ:6}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Indian financial year (April to March) label, e.g. 2026-27
+CREATE OR REPLACE FUNCTION public.financial_year_label(_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN extract(month FROM _date) >= 4
+      THEN extract(year FROM _date)::int || '-' || lpad(((extract(year FROM _date)::int + 1) % 100)::text, 2, '0')
+    ELSE (extract(year FROM _date)::int - 1) || '-' || lpad((extract(year FROM _date)::int % 100)::text, 2, '0')
+  END
+$$;
+
+-- Expands {BRANCH}, {FY}, {YYYY} and {SEQ} / {SEQ:n} (zero-padded to n digits)
+CREATE OR REPLACE FUNCTION public.format_receipt_number(
+  _format text,
+  _branch_code text,
+  _financial_year text,
+  _date date,
+  _seq integer
+)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  pad integer := COALESCE((regexp_match(_format, '\{SEQ:(\d+)\}'))[1]::int, 1);
+  result text;
+BEGIN
+  result := replace(_format, '{BRANCH}', _branch_code);
+  result := replace(result, '{FY}', _financial_year);
+  result := replace(result, '{YYYY}', to_char(_date, 'YYYY'));
+  result := regexp_replace(result, '\{SEQ(:\d+)?\}', lpad(_seq::text, greatest(pad, length(_seq::text)), '0'), 'g');
+  RETURN result;
+END;
+$$;
+
+-- One counter per branch and financial year. Only the security-definer
+-- functions below touch it, so RLS is on with no policies.
+CREATE TABLE public.receipt_number_sequences (
+  branch_id uuid NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  financial_year text NOT NULL,
+  last_value integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (branch_id, financial_year)
+);
+
+ALTER TABLE public.receipt_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Increments the counter inside the caller's transaction. The row lock taken
+-- by the upsert serialises concurrent receipts, and a rolled-back insert also
+-- rolls back the increment, so numbers are never skipped.
+CREATE OR REPLACE FUNCTION public.next_receipt_number(_branch_id uuid, _date date)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fy text := public.financial_year_label(_date);
+  seq integer;
+  branch_code text;
+  number_format text;
+BEGIN
+  SELECT code INTO branch_code FROM public.branches WHERE id = _branch_id;
+  IF branch_code IS NULL THEN
+    RAISE EXCEPTION 'Unknown branch %', _branch_id;
+  END IF;
+
+  INSERT INTO public.receipt_number_sequences (branch_id, financial_year, last_value)
+  VALUES (_branch_id, fy, 1)
+  ON CONFLICT (branch_id, financial_year)
+  DO UPDATE SET last_value = public.receipt_number_sequences.last_value + 1
+  RETURNING last_value INTO seq;
+
+  SELECT value INTO number_format FROM public.site_settings WHERE key = 'receipt_number_format';
+
+  RETURN public.format_receipt_number(
+    COALESCE(NULLIF(number_format, ''), '{BRANCH}/{FY}/{SEQ:6}'),
+    branch_code,
+    fy,
+    _date,
+    seq
+  );
+END;
+$$;
+
+ALTER TABLE public.receipts ADD COLUMN receipt_number text;
+
+-- Number existing receipts in date order without firing the revision/updated_at triggers
+ALTER TABLE public.receipts DISABLE TRIGGER USER;
+
+WITH numbered AS (
+  SELECT
+    r.id,
+    r.branch_id,
+    r.receipt_date,
+    public.financial_year_label(r.receipt_date) AS fy,
+    row_number() OVER (
+      PARTITION BY r.branch_id, public.financial_year_label(r.receipt_date)
+      ORDER BY r.receipt_date, r.created_at, r.id
+    )::int AS seq
+  FROM public.receipts r
+)
+UPDATE public.receipts r
+SET receipt_number = public.format_receipt_number('{BRANCH}/{FY}/{SEQ:6}', b.code, n.fy, n.receipt_date, n.seq)
+FROM numbered n
+JOIN public.branches b ON b.id = n.branch_id
+WHERE r.id = n.id;
+
+ALTER TABLE public.receipts ENABLE TRIGGER USER;
+
+INSERT INTO public.receipt_number_sequences (branch_id, financial_year, last_value)
+SELECT branch_id, public.financial_year_label(receipt_date), count(*)
+FROM public.receipts
+WHERE branch_id IS NOT NULL
+GROUP BY branch_id, public.financial_year_label(receipt_date);
+
+ALTER TABLE public.receipts ALTER COLUMN receipt_number SET NOT NULL;
+ALTER TABLE public.receipts ADD CONSTRAINT receipts_receipt_number_key UNIQUE (receipt_number);
+
+-- Issue the number on insert and never let it change afterwards.
+-- Triggers fire in name order, so this runs before sync_receipt_branch and
+-- resolves the branch itself when only the name was sent.
+CREATE OR REPLACE FUNCTION public.assign_receipt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_branch uuid := NEW.branch_id;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.receipt_number := OLD.receipt_number;
+    RETURN NEW;
+  END IF;
+
+  IF target_branch IS NULL THEN
+    SELECT id INTO target_branch FROM public.branches WHERE name = NEW.branch;
+  END IF;
+
+  NEW.receipt_number := public.next_receipt_number(target_branch, NEW.receipt_date);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_receipt_number
+  BEFORE INSERT OR UPDATE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_receipt_number();
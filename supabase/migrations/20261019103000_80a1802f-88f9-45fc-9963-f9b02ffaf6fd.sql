@@ -0,0 +1,34 @@
+-- Structured field layout for receipt templates, edited visually in the Admin console.
+-- Positions are percentages of the A4 page. The default matches the positions the
+-- prescription pad was originally tuned to (DEFAULT_RECEIPT_LAYOUT in _shared/receipt-layout.ts).
+ALTER TABLE public.receipt_templates
+ADD COLUMN layout jsonb NOT NULL DEFAULT '{
+  "fields": {
+    "receipt_number": { "top": 22.5, "left": 48 },
+    "customer_name": { "top": 25.5, "left": 48 },
+    "age": { "top": 25.5, "left": 82 },
+    "receipt_date": { "top": 25.5, "left": 90 },
+    "address": { "top": 28, "left": 48 },
+    "bp": { "top": 28, "left": 75 },
+    "pulse": { "top": 28, "left": 90 }
+  },
+  "items": { "top": 38, "left": 35, "right": 5 },
+  "custom_texts": []
+}'::jsonb;
+
+-- Carry the single legacy custom text over as the first custom text box.
+-- The custom_text_* columns are no longer read by the app.
+UPDATE public.receipt_templates
+SET layout = jsonb_set(
+  layout,
+  '{custom_texts}',
+  jsonb_build_array(jsonb_build_object(
+    'id', 'text-1',
+    'text', custom_text,
+    'left', COALESCE(NULLIF(substring(custom_text_left FROM '^\s*(\d+(?:\.\d+)?)\s*%'), '')::numeric, 50),
+    'top', COALESCE(NULLIF(substring(custom_text_top FROM '^\s*(\d+(?:\.\d+)?)\s*%'), '')::numeric, 50),
+    'color', COALESCE(NULLIF(custom_text_color, ''), '#000000'),
+    'font_size', COALESCE(NULLIF(substring(custom_text_font_size FROM '^\s*(\d+(?:\.\d+)?)'), '')::numeric, 14)
+  ))
+)
+WHERE COALESCE(custom_text, '') <> '';
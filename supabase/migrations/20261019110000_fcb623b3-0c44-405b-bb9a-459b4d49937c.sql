@@ -0,0 +1,22 @@
+-- Per-template letterhead images. NULL keeps the bundled prescription pad.
+ALTER TABLE public.receipt_templates ADD COLUMN background_image_url text;
+
+-- Public bucket for template backgrounds; only admins can change its contents
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('templates', 'templates', true);
+
+CREATE POLICY "Template images are publicly accessible"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'templates');
+
+CREATE POLICY "Admins can upload template images"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'templates' AND public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update template images"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'templates' AND public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete template images"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'templates' AND public.has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,125 @@
+-- Public, expiring share links for receipts. The token is the only credential,
+-- so it is 64 hex characters drawn from two random UUIDs.
+CREATE TABLE public.receipt_share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid NOT NULL REFERENCES public.receipts(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL,
+  revoked_at timestamp with time zone
+);
+
+CREATE INDEX idx_receipt_share_links_receipt_id ON public.receipt_share_links(receipt_id);
+
+ALTER TABLE public.receipt_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Only the receipt's owner manages its links. There is no anon policy: the
+-- public page reads through get_shared_receipt below, never this table.
+CREATE POLICY "Users can view share links of their own receipts" ON public.receipt_share_links
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.receipts r
+    WHERE r.id = receipt_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create share links for their own receipts" ON public.receipt_share_links
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND expires_at > now()
+    AND EXISTS (
+      SELECT 1 FROM public.receipts r
+      WHERE r.id = receipt_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can revoke share links of their own receipts" ON public.receipt_share_links
+  FOR UPDATE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.receipts r
+    WHERE r.id = receipt_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all share links" ON public.receipt_share_links
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Revoking is the only change allowed after creation
+CREATE OR REPLACE FUNCTION public.protect_receipt_share_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.receipt_id <> OLD.receipt_id
+    OR NEW.token <> OLD.token
+    OR NEW.created_by <> OLD.created_by
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.expires_at <> OLD.expires_at
+    OR (OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at)
+  THEN
+    RAISE EXCEPTION 'Share links can only be revoked';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_receipt_share_link
+BEFORE UPDATE ON public.receipt_share_links
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_receipt_share_link();
+
+-- Read-only receipt for a valid (unexpired, unrevoked) token, or NULL.
+-- Returns only what the patient needs to see: no owner id, no internal ids.
+CREATE OR REPLACE FUNCTION public.get_shared_receipt(_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'receipt', jsonb_build_object(
+      'receipt_number', r.receipt_number,
+      'customer_name', r.customer_name,
+      'age', r.age,
+      'mobile_number', r.mobile_number,
+      'address', r.address,
+      'bp', r.bp,
+      'pulse', r.pulse,
+      'branch', r.branch,
+      'receipt_date', r.receipt_date,
+      'items', r.items,
+      'subtotal', r.subtotal,
+      'tax_amount', r.tax_amount,
+      'total_amount', r.total_amount
+    ),
+    'branch', CASE WHEN b.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'name', b.name,
+      'address', b.address,
+      'phone', b.phone
+    ) END,
+    'template', CASE WHEN t.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'layout', t.layout,
+      'background_image_url', t.background_image_url,
+      'header_bg_color', t.header_bg_color,
+      'header_text_color', t.header_text_color,
+      'body_bg_color', t.body_bg_color,
+      'body_text_color', t.body_text_color,
+      'accent_color', t.accent_color,
+      'font_family', t.font_family
+    ) END,
+    'expires_at', l.expires_at
+  )
+  FROM public.receipt_share_links l
+  JOIN public.receipts r ON r.id = l.receipt_id
+  LEFT JOIN public.branches b ON b.id = r.branch_id
+  LEFT JOIN public.receipt_templates t ON t.id = r.template_id
+  WHERE l.token = _token
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_receipt(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_receipt(text) TO anon, authenticated;
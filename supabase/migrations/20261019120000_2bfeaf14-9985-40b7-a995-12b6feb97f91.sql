@@ -0,0 +1,43 @@
+-- Log of every message sent (or attempted) to a patient from send-patient-message
+CREATE TABLE public.message_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid REFERENCES public.receipts(id) ON DELETE SET NULL,
+  sent_by uuid NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('whatsapp', 'sms')),
+  provider text NOT NULL,
+  recipient text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'link_created', 'failed')),
+  provider_message_id text,
+  error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_logs_receipt_id ON public.message_logs(receipt_id);
+CREATE INDEX idx_message_logs_created_at ON public.message_logs(created_at DESC);
+
+ALTER TABLE public.message_logs ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the edge function with the service role
+CREATE POLICY "Users can view messages they sent" ON public.message_logs
+  FOR SELECT TO authenticated
+  USING (sent_by = auth.uid());
+
+CREATE POLICY "Users can view messages for their own receipts" ON public.message_logs
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.receipts r
+    WHERE r.id = receipt_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all message logs" ON public.message_logs
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Default patient message, editable from the Admin console
+INSERT INTO public.site_settings (key, value)
+VALUES (
+  'patient_message_template',
+  'Dear {NAME}, thank you for visiting {BRANCH}. Your receipt {RECEIPT_NO} dated {DATE} for ₹{TOTAL} is available here: {LINK}'
+)
+ON CONFLICT (key) DO NOTHING;
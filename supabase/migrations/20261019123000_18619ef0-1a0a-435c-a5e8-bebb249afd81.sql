@@ -0,0 +1,86 @@
+-- Patient master records, replacing the name/mobile-only contacts table
+CREATE TABLE public.patients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  mobile_number text NOT NULL,
+  age text,
+  date_of_birth date,
+  gender text CHECK (gender IN ('male', 'female', 'other')),
+  address text NOT NULL DEFAULT '',
+  notes text NOT NULL DEFAULT '',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Not unique: family members often share one mobile number
+CREATE INDEX idx_patients_user_mobile ON public.patients(user_id, mobile_number);
+CREATE INDEX idx_patients_user_name ON public.patients(user_id, lower(name));
+
+ALTER TABLE public.patients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own patients" ON public.patients
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own patients" ON public.patients
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own patients" ON public.patients
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own patients" ON public.patients
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all patients" ON public.patients
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_patients_updated_at
+  BEFORE UPDATE ON public.patients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.receipts
+  ADD COLUMN patient_id uuid REFERENCES public.patients(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_receipts_patient_id ON public.receipts(patient_id);
+
+-- Migrate contacts, taking age and address from each contact's latest receipt
+INSERT INTO public.patients (user_id, name, mobile_number, age, address, created_at)
+SELECT c.user_id, c.customer_name, c.mobile_number, latest.age, COALESCE(latest.address, ''), COALESCE(c.created_at, now())
+FROM public.contacts c
+LEFT JOIN LATERAL (
+  SELECT r.age, r.address
+  FROM public.receipts r
+  WHERE r.user_id = c.user_id AND r.mobile_number = c.mobile_number
+  ORDER BY r.receipt_date DESC, r.created_at DESC
+  LIMIT 1
+) latest ON true;
+
+-- Receipts whose contact was deleted still get a patient
+INSERT INTO public.patients (user_id, name, mobile_number, age, address, created_at)
+SELECT DISTINCT ON (r.user_id, r.mobile_number)
+  r.user_id, r.customer_name, r.mobile_number, r.age, r.address, COALESCE(r.created_at, now())
+FROM public.receipts r
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.patients p
+  WHERE p.user_id = r.user_id AND p.mobile_number = r.mobile_number
+)
+ORDER BY r.user_id, r.mobile_number, r.receipt_date DESC, r.created_at DESC;
+
+-- contacts was unique per (user_id, mobile_number), so each receipt matches one
+-- patient here. Linking is bookkeeping, not an edit, so skip the revision trigger.
+ALTER TABLE public.receipts DISABLE TRIGGER USER;
+
+UPDATE public.receipts r
+SET patient_id = p.id
+FROM public.patients p
+WHERE p.user_id = r.user_id AND p.mobile_number = r.mobile_number;
+
+ALTER TABLE public.receipts ENABLE TRIGGER USER;
+
+DROP TABLE public.contacts;
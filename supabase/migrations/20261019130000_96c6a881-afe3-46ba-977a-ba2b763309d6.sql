@@ -0,0 +1,57 @@
+-- Product and service catalog that receipt items can be picked from
+CREATE TABLE public.catalog_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'product' CHECK (kind IN ('product', 'service')),
+  unit text NOT NULL DEFAULT 'nos',
+  default_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (default_price >= 0),
+  tax_rate numeric(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_catalog_items_name ON public.catalog_items(lower(name));
+
+ALTER TABLE public.catalog_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view catalog items" ON public.catalog_items
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage catalog items" ON public.catalog_items
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_catalog_items_updated_at
+  BEFORE UPDATE ON public.catalog_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the catalog with every item name already used on a receipt, priced at
+-- its most recent price, so past receipts can be grouped from day one
+INSERT INTO public.catalog_items (name, default_price)
+SELECT DISTINCT ON (lower(trim(item->>'name')))
+  trim(item->>'name'),
+  COALESCE((item->>'price')::numeric, 0)
+FROM public.receipts r
+CROSS JOIN LATERAL jsonb_array_elements(CASE WHEN jsonb_typeof(r.items) = 'array' THEN r.items ELSE '[]'::jsonb END) AS item
+WHERE trim(COALESCE(item->>'name', '')) <> ''
+ORDER BY lower(trim(item->>'name')), r.receipt_date DESC, r.created_at DESC;
+
+-- Receipt items carry an optional catalog_item_id; free-text items leave it out.
+-- Link existing items by name without recording a revision for each receipt.
+ALTER TABLE public.receipts DISABLE TRIGGER USER;
+
+UPDATE public.receipts r
+SET items = (
+  SELECT jsonb_agg(
+    CASE WHEN c.id IS NULL THEN item ELSE item || jsonb_build_object('catalog_item_id', c.id) END
+    ORDER BY ord
+  )
+  FROM jsonb_array_elements(r.items) WITH ORDINALITY AS e(item, ord)
+  LEFT JOIN public.catalog_items c ON lower(c.name) = lower(trim(item->>'name'))
+)
+WHERE jsonb_typeof(r.items) = 'array' AND jsonb_array_length(r.items) > 0;
+
+ALTER TABLE public.receipts ENABLE TRIGGER USER;
@@ -0,0 +1,123 @@
+-- Stock tracking for catalog products, kept as a per-branch ledger
+ALTER TABLE public.catalog_items
+  ADD COLUMN track_stock boolean NOT NULL DEFAULT false,
+  ADD COLUMN reorder_level numeric(12,2) NOT NULL DEFAULT 0 CHECK (reorder_level >= 0);
+
+-- quantity is signed: positive moves stock in, negative moves it out.
+-- Rows are never edited or deleted; corrections are new adjustment rows.
+CREATE TABLE public.stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  catalog_item_id uuid NOT NULL REFERENCES public.catalog_items(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES public.branches(id),
+  movement_type text NOT NULL CHECK (movement_type IN ('opening', 'purchase', 'sale', 'sale_reversal', 'adjustment')),
+  quantity numeric(12,2) NOT NULL CHECK (quantity <> 0),
+  receipt_id uuid REFERENCES public.receipts(id) ON DELETE SET NULL,
+  -- Kept so sales stay traceable after the receipt itself is deleted
+  receipt_number text,
+  note text NOT NULL DEFAULT '',
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_movements_item_branch ON public.stock_movements(catalog_item_id, branch_id);
+CREATE INDEX idx_stock_movements_receipt_id ON public.stock_movements(receipt_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view stock movements" ON public.stock_movements
+  FOR SELECT TO authenticated
+  USING (true);
+
+-- Sales are posted only by the receipts trigger below
+CREATE POLICY "Authenticated users can record stock in and adjustments" ON public.stock_movements
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    movement_type IN ('opening', 'purchase', 'adjustment')
+    AND receipt_id IS NULL
+    AND created_by = auth.uid()
+  );
+
+-- Current stock per item and branch
+CREATE VIEW public.stock_levels
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS catalog_item_id,
+  b.id AS branch_id,
+  c.name,
+  c.unit,
+  c.reorder_level,
+  COALESCE(SUM(m.quantity), 0)::numeric(12,2) AS on_hand
+FROM public.catalog_items c
+CROSS JOIN public.branches b
+LEFT JOIN public.stock_movements m ON m.catalog_item_id = c.id AND m.branch_id = b.id
+WHERE c.track_stock
+GROUP BY c.id, b.id;
+
+-- Posts one ledger row per stock-tracked line of a receipt. Lines are matched
+-- by catalog_item_id, or by name for free-text lines typed to match the catalog.
+CREATE OR REPLACE FUNCTION public.post_receipt_stock(_receipt public.receipts, _sign integer, _type text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _receipt.branch_id IS NULL OR jsonb_typeof(_receipt.items) <> 'array' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.stock_movements (catalog_item_id, branch_id, movement_type, quantity, receipt_id, receipt_number, created_by)
+  SELECT c.id, _receipt.branch_id, _type, _sign * SUM((line->>'quantity')::numeric),
+         _receipt.id, _receipt.receipt_number, COALESCE(auth.uid(), _receipt.user_id)
+  FROM jsonb_array_elements(_receipt.items) AS line
+  JOIN public.catalog_items c
+    ON c.id::text = line->>'catalog_item_id'
+    OR (line->>'catalog_item_id' IS NULL AND lower(c.name) = lower(trim(line->>'name')))
+  WHERE c.track_stock AND COALESCE((line->>'quantity')::numeric, 0) > 0
+  GROUP BY c.id;
+END;
+$$;
+
+-- Only the trigger below may post sales
+REVOKE EXECUTE ON FUNCTION public.post_receipt_stock(public.receipts, integer, text) FROM PUBLIC, anon, authenticated;
+
+-- Runs inside the receipt's own transaction, so a receipt and its stock
+-- movements are always written (or rolled back) together
+CREATE OR REPLACE FUNCTION public.sync_receipt_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.items IS NOT DISTINCT FROM OLD.items
+     AND NEW.branch_id IS NOT DISTINCT FROM OLD.branch_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- The monthly data reset deletes receipts with the service role after
+  -- backing them up; that archives sales rather than returning stock.
+  IF TG_OP = 'UPDATE' OR (TG_OP = 'DELETE' AND COALESCE(auth.role(), '') <> 'service_role') THEN
+    PERFORM public.post_receipt_stock(OLD, 1, 'sale_reversal');
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.post_receipt_stock(NEW, -1, 'sale');
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER sync_receipt_stock_on_write
+  AFTER INSERT OR UPDATE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_receipt_stock();
+
+-- BEFORE DELETE so the reversal can still reference the receipt row
+CREATE TRIGGER sync_receipt_stock_on_delete
+  BEFORE DELETE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_receipt_stock();
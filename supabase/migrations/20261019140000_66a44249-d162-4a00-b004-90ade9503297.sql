@@ -0,0 +1,200 @@
+-- Batches with expiry dates for stock received at a branch
+CREATE TABLE public.stock_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  catalog_item_id uuid NOT NULL REFERENCES public.catalog_items(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES public.branches(id),
+  batch_number text NOT NULL CHECK (trim(batch_number) <> ''),
+  expiry_date date NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (catalog_item_id, branch_id, batch_number)
+);
+
+CREATE INDEX idx_stock_batches_expiry ON public.stock_batches(expiry_date);
+
+ALTER TABLE public.stock_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view stock batches" ON public.stock_batches
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can add stock batches" ON public.stock_batches
+  FOR INSERT TO authenticated
+  WITH CHECK (true);
+
+-- Movements without a batch are unbatched stock (e.g. opening stock counted before batches were recorded)
+ALTER TABLE public.stock_movements
+  ADD COLUMN batch_id uuid REFERENCES public.stock_batches(id);
+
+CREATE INDEX idx_stock_movements_batch_id ON public.stock_movements(batch_id);
+
+-- Stock left in each batch
+CREATE VIEW public.stock_batch_levels
+WITH (security_invoker = true) AS
+SELECT
+  b.id AS batch_id,
+  b.catalog_item_id,
+  b.branch_id,
+  c.name,
+  c.unit,
+  b.batch_number,
+  b.expiry_date,
+  COALESCE(SUM(m.quantity), 0)::numeric(12,2) AS on_hand
+FROM public.stock_batches b
+JOIN public.catalog_items c ON c.id = b.catalog_item_id
+LEFT JOIN public.stock_movements m ON m.batch_id = b.id
+GROUP BY b.id, c.id;
+
+-- Records stock in or an adjustment, creating the batch on first use. Runs as
+-- the caller, so the stock_movements and stock_batches policies still apply.
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  _catalog_item_id uuid,
+  _branch_id uuid,
+  _movement_type text,
+  _quantity numeric,
+  _note text DEFAULT '',
+  _batch_number text DEFAULT NULL,
+  _expiry_date date DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _batch_id uuid;
+  _movement_id uuid;
+BEGIN
+  IF NULLIF(trim(_batch_number), '') IS NOT NULL THEN
+    SELECT id INTO _batch_id
+    FROM public.stock_batches
+    WHERE catalog_item_id = _catalog_item_id AND branch_id = _branch_id AND batch_number = trim(_batch_number);
+
+    IF _batch_id IS NULL THEN
+      IF _expiry_date IS NULL THEN
+        RAISE EXCEPTION 'Expiry date is required for a new batch';
+      END IF;
+      INSERT INTO public.stock_batches (catalog_item_id, branch_id, batch_number, expiry_date)
+      VALUES (_catalog_item_id, _branch_id, trim(_batch_number), _expiry_date)
+      RETURNING id INTO _batch_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_movements (catalog_item_id, branch_id, batch_id, movement_type, quantity, note)
+  VALUES (_catalog_item_id, _branch_id, _batch_id, _movement_type, _quantity, COALESCE(_note, ''))
+  RETURNING id INTO _movement_id;
+
+  RETURN _movement_id;
+END;
+$$;
+
+-- Posts the sale of a receipt's stock-tracked lines, taking each item from its
+-- earliest-expiring unexpired batches first (FEFO). Whatever the batches can't
+-- cover is taken from unbatched stock, which may go negative.
+CREATE OR REPLACE FUNCTION public.post_receipt_sale(_receipt public.receipts)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  line record;
+  batch record;
+  remaining numeric;
+  take numeric;
+BEGIN
+  IF _receipt.branch_id IS NULL OR jsonb_typeof(_receipt.items) <> 'array' THEN
+    RETURN;
+  END IF;
+
+  FOR line IN
+    SELECT c.id AS catalog_item_id, SUM((item->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(_receipt.items) AS item
+    JOIN public.catalog_items c
+      ON c.id::text = item->>'catalog_item_id'
+      OR (item->>'catalog_item_id' IS NULL AND lower(c.name) = lower(trim(item->>'name')))
+    WHERE c.track_stock AND COALESCE((item->>'quantity')::numeric, 0) > 0
+    GROUP BY c.id
+  LOOP
+    remaining := line.quantity;
+
+    -- Serialise concurrent sales of the same item at this branch
+    PERFORM 1 FROM public.stock_batches
+    WHERE catalog_item_id = line.catalog_item_id AND branch_id = _receipt.branch_id
+    FOR UPDATE;
+
+    FOR batch IN
+      SELECT b.id, SUM(m.quantity) AS available
+      FROM public.stock_batches b
+      JOIN public.stock_movements m ON m.batch_id = b.id
+      WHERE b.catalog_item_id = line.catalog_item_id
+        AND b.branch_id = _receipt.branch_id
+        AND b.expiry_date >= _receipt.receipt_date
+      GROUP BY b.id, b.expiry_date, b.created_at
+      HAVING SUM(m.quantity) > 0
+      ORDER BY b.expiry_date, b.created_at
+    LOOP
+      EXIT WHEN remaining <= 0;
+      take := LEAST(remaining, batch.available);
+      INSERT INTO public.stock_movements (catalog_item_id, branch_id, batch_id, movement_type, quantity, receipt_id, receipt_number, created_by)
+      VALUES (line.catalog_item_id, _receipt.branch_id, batch.id, 'sale', -take, _receipt.id, _receipt.receipt_number, COALESCE(auth.uid(), _receipt.user_id));
+      remaining := remaining - take;
+    END LOOP;
+
+    IF remaining > 0 THEN
+      INSERT INTO public.stock_movements (catalog_item_id, branch_id, movement_type, quantity, receipt_id, receipt_number, created_by)
+      VALUES (line.catalog_item_id, _receipt.branch_id, 'sale', -remaining, _receipt.id, _receipt.receipt_number, COALESCE(auth.uid(), _receipt.user_id));
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Undoes whatever is still outstanding for a receipt, batch by batch, so stock
+-- goes back into the batches it was actually taken from
+CREATE OR REPLACE FUNCTION public.reverse_receipt_sale(_receipt public.receipts)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.stock_movements (catalog_item_id, branch_id, batch_id, movement_type, quantity, receipt_id, receipt_number, created_by)
+  SELECT m.catalog_item_id, m.branch_id, m.batch_id, 'sale_reversal', -SUM(m.quantity),
+         _receipt.id, _receipt.receipt_number, COALESCE(auth.uid(), _receipt.user_id)
+  FROM public.stock_movements m
+  WHERE m.receipt_id = _receipt.id
+  GROUP BY m.catalog_item_id, m.branch_id, m.batch_id
+  HAVING SUM(m.quantity) <> 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_receipt_sale(public.receipts) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_receipt_sale(public.receipts) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_receipt_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.items IS NOT DISTINCT FROM OLD.items
+     AND NEW.branch_id IS NOT DISTINCT FROM OLD.branch_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- The monthly data reset deletes receipts with the service role after
+  -- backing them up; that archives sales rather than returning stock.
+  IF TG_OP = 'UPDATE' OR (TG_OP = 'DELETE' AND COALESCE(auth.role(), '') <> 'service_role') THEN
+    PERFORM public.reverse_receipt_sale(OLD);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.post_receipt_sale(NEW);
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP FUNCTION public.post_receipt_stock(public.receipts, integer, text);
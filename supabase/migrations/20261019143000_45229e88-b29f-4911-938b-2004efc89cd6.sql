@@ -0,0 +1,110 @@
+-- GST registration of each branch. The branch's state decides whether a sale
+-- is intra-state (CGST + SGST) or inter-state (IGST).
+ALTER TABLE public.branches
+  ADD COLUMN gstin text NOT NULL DEFAULT '',
+  ADD COLUMN state_code text NOT NULL DEFAULT '' CHECK (state_code ~ '^([0-9]{2})?$');
+
+-- HSN code for goods or SAC code for services, pre-filled onto receipt lines
+ALTER TABLE public.catalog_items
+  ADD COLUMN hsn_sac text NOT NULL DEFAULT '';
+
+-- Each receipts.items line now carries hsn_sac, tax_rate, taxable_value and its
+-- cgst_amount / sgst_amount / igst_amount; the receipt keeps the totals.
+-- tax_amount stays the sum of the three so existing reports keep working.
+ALTER TABLE public.receipts
+  ADD COLUMN place_of_supply text NOT NULL DEFAULT '' CHECK (place_of_supply ~ '^([0-9]{2})?$'),
+  ADD COLUMN supply_type text NOT NULL DEFAULT 'intra' CHECK (supply_type IN ('intra', 'inter')),
+  ADD COLUMN cgst_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN sgst_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN igst_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+-- Existing receipts applied one rate to the whole bill and were all issued
+-- within the state: stamp that rate on every line and split the tax equally.
+-- Triggers are disabled so the backfill is not recorded as a revision of every
+-- receipt and does not touch the stock ledger.
+ALTER TABLE public.receipts DISABLE TRIGGER USER;
+
+UPDATE public.receipts r
+SET items = COALESCE((
+  SELECT jsonb_agg(
+    e.item || jsonb_build_object(
+      'hsn_sac', COALESCE(e.item->>'hsn_sac', ''),
+      'tax_rate', rate.value,
+      'taxable_value', line.taxable,
+      'cgst_amount', round(line.taxable * rate.value / 200, 2),
+      'sgst_amount', round(line.taxable * rate.value / 200, 2),
+      'igst_amount', 0
+    )
+    ORDER BY e.ordinality
+  )
+  FROM jsonb_array_elements(r.items) WITH ORDINALITY AS e(item, ordinality)
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN r.subtotal > 0 THEN round(r.tax_amount * 100 / r.subtotal, 2) ELSE 0 END AS value
+  ) rate
+  CROSS JOIN LATERAL (
+    SELECT round(COALESCE((e.item->>'quantity')::numeric, 0) * COALESCE((e.item->>'price')::numeric, 0), 2) AS taxable
+  ) line
+), '[]'::jsonb)
+WHERE jsonb_typeof(r.items) = 'array';
+
+UPDATE public.receipts
+SET cgst_amount = round(tax_amount / 2, 2),
+    sgst_amount = tax_amount - round(tax_amount / 2, 2);
+
+ALTER TABLE public.receipts ENABLE TRIGGER USER;
+
+-- Shared receipts show the tax split and the clinic's GSTIN too
+CREATE OR REPLACE FUNCTION public.get_shared_receipt(_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'receipt', jsonb_build_object(
+      'receipt_number', r.receipt_number,
+      'customer_name', r.customer_name,
+      'age', r.age,
+      'mobile_number', r.mobile_number,
+      'address', r.address,
+      'bp', r.bp,
+      'pulse', r.pulse,
+      'branch', r.branch,
+      'receipt_date', r.receipt_date,
+      'items', r.items,
+      'subtotal', r.subtotal,
+      'tax_amount', r.tax_amount,
+      'cgst_amount', r.cgst_amount,
+      'sgst_amount', r.sgst_amount,
+      'igst_amount', r.igst_amount,
+      'supply_type', r.supply_type,
+      'place_of_supply', r.place_of_supply,
+      'total_amount', r.total_amount
+    ),
+    'branch', CASE WHEN b.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'name', b.name,
+      'address', b.address,
+      'phone', b.phone,
+      'gstin', b.gstin
+    ) END,
+    'template', CASE WHEN t.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'layout', t.layout,
+      'background_image_url', t.background_image_url,
+      'header_bg_color', t.header_bg_color,
+      'header_text_color', t.header_text_color,
+      'body_bg_color', t.body_bg_color,
+      'body_text_color', t.body_text_color,
+      'accent_color', t.accent_color,
+      'font_family', t.font_family
+    ) END,
+    'expires_at', l.expires_at
+  )
+  FROM public.receipt_share_links l
+  JOIN public.receipts r ON r.id = l.receipt_id
+  LEFT JOIN public.branches b ON b.id = r.branch_id
+  LEFT JOIN public.receipt_templates t ON t.id = r.template_id
+  WHERE l.token = _token
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+$$;
@@ -0,0 +1,68 @@
+-- Discounts, applied before tax. Each receipts.items line may carry its own
+-- discount_type / discount_value / discount_amount plus bill_discount_share,
+-- its pro-rata part of the bill-level discount; taxable_value is net of both.
+-- discount_amount on the receipt is the total of all of them, so
+-- total_amount = subtotal - discount_amount + tax_amount.
+ALTER TABLE public.receipts
+  ADD COLUMN discount_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  ADD COLUMN bill_discount_type text NOT NULL DEFAULT 'percent' CHECK (bill_discount_type IN ('percent', 'flat')),
+  ADD COLUMN bill_discount_value numeric(10,2) NOT NULL DEFAULT 0 CHECK (bill_discount_value >= 0),
+  ADD COLUMN discount_reason text NOT NULL DEFAULT '';
+
+-- Shared receipts show the discount too
+CREATE OR REPLACE FUNCTION public.get_shared_receipt(_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'receipt', jsonb_build_object(
+      'receipt_number', r.receipt_number,
+      'customer_name', r.customer_name,
+      'age', r.age,
+      'mobile_number', r.mobile_number,
+      'address', r.address,
+      'bp', r.bp,
+      'pulse', r.pulse,
+      'branch', r.branch,
+      'receipt_date', r.receipt_date,
+      'items', r.items,
+      'subtotal', r.subtotal,
+      'discount_amount', r.discount_amount,
+      'discount_reason', r.discount_reason,
+      'tax_amount', r.tax_amount,
+      'cgst_amount', r.cgst_amount,
+      'sgst_amount', r.sgst_amount,
+      'igst_amount', r.igst_amount,
+      'supply_type', r.supply_type,
+      'place_of_supply', r.place_of_supply,
+      'total_amount', r.total_amount
+    ),
+    'branch', CASE WHEN b.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'name', b.name,
+      'address', b.address,
+      'phone', b.phone,
+      'gstin', b.gstin
+    ) END,
+    'template', CASE WHEN t.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'layout', t.layout,
+      'background_image_url', t.background_image_url,
+      'header_bg_color', t.header_bg_color,
+      'header_text_color', t.header_text_color,
+      'body_bg_color', t.body_bg_color,
+      'body_text_color', t.body_text_color,
+      'accent_color', t.accent_color,
+      'font_family', t.font_family
+    ) END,
+    'expires_at', l.expires_at
+  )
+  FROM public.receipt_share_links l
+  JOIN public.receipts r ON r.id = l.receipt_id
+  LEFT JOIN public.branches b ON b.id = r.branch_id
+  LEFT JOIN public.receipt_templates t ON t.id = r.template_id
+  WHERE l.token = _token
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+$$;
@@ -0,0 +1,174 @@
+-- Payments received against receipts. A receipt can be settled in several
+-- parts and modes; receipts.amount_paid is kept in step by the trigger below
+-- and payment_status follows from it.
+CREATE TABLE public.receipt_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid NOT NULL REFERENCES public.receipts(id) ON DELETE CASCADE,
+  mode text NOT NULL CHECK (mode IN ('cash', 'upi', 'card')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  reference text NOT NULL DEFAULT '',
+  paid_on date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_receipt_payments_receipt_id ON public.receipt_payments(receipt_id);
+
+ALTER TABLE public.receipt_payments ENABLE ROW LEVEL SECURITY;
+
+-- There is no update policy: a wrong payment is deleted and entered again
+CREATE POLICY "Users can view payments on their own receipts" ON public.receipt_payments
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.receipts r
+    WHERE r.id = receipt_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can record payments on their own receipts" ON public.receipt_payments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.receipts r
+      WHERE r.id = receipt_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete payments on their own receipts" ON public.receipt_payments
+  FOR DELETE TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.receipts r
+    WHERE r.id = receipt_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all payments" ON public.receipt_payments
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can record payments on any receipt" ON public.receipt_payments
+  FOR INSERT TO authenticated
+  WITH CHECK (created_by = auth.uid() AND public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete all payments" ON public.receipt_payments
+  FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+ALTER TABLE public.receipts
+  ADD COLUMN amount_paid numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN payment_status text GENERATED ALWAYS AS (
+    CASE
+      WHEN amount_paid >= total_amount THEN 'paid'
+      WHEN amount_paid > 0 THEN 'partial'
+      ELSE 'due'
+    END
+  ) STORED;
+
+CREATE INDEX idx_receipts_payment_status ON public.receipts(payment_status);
+
+-- Receipts issued so far were handed over against payment, so each gets one
+-- cash payment for its full amount on its own date.
+INSERT INTO public.receipt_payments (receipt_id, mode, amount, reference, paid_on, created_by, created_at)
+SELECT r.id, 'cash', r.total_amount, 'Recorded before payment tracking', r.receipt_date, r.user_id, COALESCE(r.created_at, now())
+FROM public.receipts r
+WHERE r.total_amount > 0;
+
+ALTER TABLE public.receipts DISABLE TRIGGER USER;
+UPDATE public.receipts SET amount_paid = total_amount WHERE total_amount > 0;
+ALTER TABLE public.receipts ENABLE TRIGGER USER;
+
+-- A payment may not take a receipt past its total
+CREATE OR REPLACE FUNCTION public.check_receipt_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  balance numeric;
+BEGIN
+  SELECT total_amount - amount_paid INTO balance
+  FROM public.receipts
+  WHERE id = NEW.receipt_id
+  FOR UPDATE;
+
+  IF NEW.amount > balance THEN
+    RAISE EXCEPTION 'Payment of % is more than the balance due (%)', NEW.amount, GREATEST(balance, 0);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_receipt_payment
+  BEFORE INSERT ON public.receipt_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_receipt_payment();
+
+CREATE OR REPLACE FUNCTION public.sync_receipt_amount_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target uuid := COALESCE(NEW.receipt_id, OLD.receipt_id);
+BEGIN
+  UPDATE public.receipts
+  SET amount_paid = (
+    SELECT COALESCE(SUM(amount), 0) FROM public.receipt_payments WHERE receipt_id = target
+  )
+  WHERE id = target;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_receipt_amount_paid
+  AFTER INSERT OR DELETE ON public.receipt_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_receipt_amount_paid();
+
+-- amount_paid belongs to the trigger above. A direct insert or update from a
+-- client (trigger depth 1) cannot set it.
+CREATE OR REPLACE FUNCTION public.protect_receipt_amount_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.amount_paid := CASE WHEN TG_OP = 'UPDATE' THEN OLD.amount_paid ELSE 0 END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_receipt_amount_paid
+  BEFORE INSERT OR UPDATE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_receipt_amount_paid();
+
+-- Payments are not edits to the receipt, so they don't add revisions
+CREATE OR REPLACE FUNCTION public.record_receipt_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_revision integer;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) - 'updated_at' - 'amount_paid' - 'payment_status')
+      = (to_jsonb(OLD) - 'updated_at' - 'amount_paid' - 'payment_status') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_revision
+  FROM public.receipt_revisions
+  WHERE receipt_id = NEW.id;
+
+  INSERT INTO public.receipt_revisions (receipt_id, revision_number, snapshot, edited_by)
+  VALUES (NEW.id, next_revision, to_jsonb(NEW), COALESCE(auth.uid(), NEW.user_id));
+
+  RETURN NEW;
+END;
+$$;
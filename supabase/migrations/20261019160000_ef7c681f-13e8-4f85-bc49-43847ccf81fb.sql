@@ -0,0 +1,29 @@
+-- UPI payee details for the payment QR on receipts. A branch's own VPA is
+-- used when set; otherwise the receipt owner's profile supplies one.
+ALTER TABLE public.branches
+  ADD COLUMN upi_vpa text NOT NULL DEFAULT ''
+    CHECK (upi_vpa = '' OR upi_vpa ~ '^[A-Za-z0-9._-]{2,256}@[A-Za-z][A-Za-z0-9]{1,63}$'),
+  ADD COLUMN upi_payee_name text NOT NULL DEFAULT '';
+
+ALTER TABLE public.profiles
+  ADD COLUMN upi_vpa text NOT NULL DEFAULT ''
+    CHECK (upi_vpa = '' OR upi_vpa ~ '^[A-Za-z0-9._-]{2,256}@[A-Za-z][A-Za-z0-9]{1,63}$'),
+  ADD COLUMN upi_payee_name text NOT NULL DEFAULT '';
+
+-- Where the QR goes on the prescription pad. Existing layouts without it
+-- fall back to this position in resolveReceiptLayout.
+ALTER TABLE public.receipt_templates
+ALTER COLUMN layout SET DEFAULT '{
+  "fields": {
+    "receipt_number": { "top": 22.5, "left": 48 },
+    "customer_name": { "top": 25.5, "left": 48 },
+    "age": { "top": 25.5, "left": 82 },
+    "receipt_date": { "top": 25.5, "left": 90 },
+    "address": { "top": 28, "left": 48 },
+    "bp": { "top": 28, "left": 75 },
+    "pulse": { "top": 28, "left": 90 }
+  },
+  "items": { "top": 38, "left": 35, "right": 5 },
+  "upi_qr": { "top": 76, "left": 78 },
+  "custom_texts": []
+}'::jsonb;
@@ -0,0 +1,325 @@
+-- Receipts are financial records: instead of being deleted they are cancelled
+-- with a reason, or reversed (fully or in part) by a numbered credit note.
+
+ALTER TABLE public.receipts
+  ADD COLUMN cancelled_at timestamp with time zone,
+  ADD COLUMN cancelled_by uuid,
+  ADD COLUMN cancellation_reason text NOT NULL DEFAULT '';
+
+CREATE INDEX idx_receipts_cancelled_at ON public.receipts(cancelled_at);
+
+-- Only the service role (monthly data reset, after backing up) deletes receipts now
+DROP POLICY IF EXISTS "Users can delete their own receipts" ON public.receipts;
+DROP POLICY IF EXISTS "Admins can delete all receipts" ON public.receipts;
+
+-- Cancelled receipts are frozen apart from payment bookkeeping, and the
+-- cancellation columns are written only by cancel_receipt below.
+CREATE OR REPLACE FUNCTION public.protect_receipt_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.cancelled_at := NULL;
+    NEW.cancelled_by := NULL;
+    NEW.cancellation_reason := '';
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.cancelled_at, NEW.cancelled_by, NEW.cancellation_reason)
+       IS DISTINCT FROM (OLD.cancelled_at, OLD.cancelled_by, OLD.cancellation_reason)
+     AND COALESCE(current_setting('app.cancelling_receipt', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Receipts can only be cancelled through cancel_receipt';
+  END IF;
+
+  IF OLD.cancelled_at IS NOT NULL
+     AND (to_jsonb(NEW) - 'updated_at' - 'amount_paid' - 'payment_status')
+       <> (to_jsonb(OLD) - 'updated_at' - 'amount_paid' - 'payment_status') THEN
+    RAISE EXCEPTION 'Receipt % is cancelled and cannot be changed', OLD.receipt_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_receipt_cancellation
+  BEFORE INSERT OR UPDATE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_receipt_cancellation();
+
+-- Credit notes reverse part or all of a receipt without touching it. The
+-- receipt keeps its number and totals; income is the receipt less its notes.
+CREATE TABLE public.credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number text NOT NULL UNIQUE,
+  -- Cascades only for the monthly data reset, which archives both first
+  receipt_id uuid NOT NULL REFERENCES public.receipts(id) ON DELETE CASCADE,
+  branch_id uuid REFERENCES public.branches(id),
+  note_date date NOT NULL DEFAULT CURRENT_DATE,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL CHECK (trim(reason) <> ''),
+  refund_mode text NOT NULL DEFAULT 'none' CHECK (refund_mode IN ('none', 'cash', 'upi', 'card')),
+  created_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_notes_receipt_id ON public.credit_notes(receipt_id);
+CREATE INDEX idx_credit_notes_note_date ON public.credit_notes(note_date);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+
+-- Notes are issued only through issue_credit_note and never edited or deleted
+CREATE POLICY "Users can view credit notes on their own receipts" ON public.credit_notes
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.receipts r
+    WHERE r.id = receipt_id AND r.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all credit notes" ON public.credit_notes
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.site_settings (key, value)
+VALUES ('credit_note_number_format', 'CN/{BRANCH}/{FY}/{SEQ:5}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Credit notes are their own gap-free series, per branch and financial year
+CREATE TABLE public.credit_note_number_sequences (
+  branch_id uuid NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  financial_year text NOT NULL,
+  last_value integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (branch_id, financial_year)
+);
+
+ALTER TABLE public.credit_note_number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.next_credit_note_number(_branch_id uuid, _date date)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fy text := public.financial_year_label(_date);
+  seq integer;
+  branch_code text;
+  number_format text;
+BEGIN
+  SELECT code INTO branch_code FROM public.branches WHERE id = _branch_id;
+  IF branch_code IS NULL THEN
+    RAISE EXCEPTION 'Unknown branch %', _branch_id;
+  END IF;
+
+  INSERT INTO public.credit_note_number_sequences (branch_id, financial_year, last_value)
+  VALUES (_branch_id, fy, 1)
+  ON CONFLICT (branch_id, financial_year)
+  DO UPDATE SET last_value = public.credit_note_number_sequences.last_value + 1
+  RETURNING last_value INTO seq;
+
+  SELECT value INTO number_format FROM public.site_settings WHERE key = 'credit_note_number_format';
+
+  RETURN public.format_receipt_number(
+    COALESCE(NULLIF(number_format, ''), 'CN/{BRANCH}/{FY}/{SEQ:5}'),
+    branch_code,
+    fy,
+    _date,
+    seq
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_credit_note_number(uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Locks the receipt and checks the caller may act on it
+CREATE OR REPLACE FUNCTION public.lock_receipt_for_reversal(_receipt_id uuid)
+RETURNS public.receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.receipts;
+BEGIN
+  SELECT * INTO target FROM public.receipts WHERE id = _receipt_id FOR UPDATE;
+
+  IF target.id IS NULL
+     OR (target.user_id <> auth.uid() AND NOT public.has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Receipt not found';
+  END IF;
+
+  IF target.cancelled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Receipt % is already cancelled', target.receipt_number;
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_receipt_for_reversal(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Voids a receipt that should never have been issued. Its stock goes back and
+-- it stays on file, marked cancelled. A receipt with credit notes against it
+-- has already been partly reversed and cannot be cancelled as well.
+CREATE OR REPLACE FUNCTION public.cancel_receipt(_receipt_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.receipts;
+BEGIN
+  IF trim(COALESCE(_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel a receipt';
+  END IF;
+
+  target := public.lock_receipt_for_reversal(_receipt_id);
+
+  IF EXISTS (SELECT 1 FROM public.credit_notes WHERE receipt_id = _receipt_id) THEN
+    RAISE EXCEPTION 'Receipt % has credit notes and cannot be cancelled', target.receipt_number;
+  END IF;
+
+  PERFORM set_config('app.cancelling_receipt', 'on', true);
+  UPDATE public.receipts
+  SET cancelled_at = now(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = trim(_reason)
+  WHERE id = _receipt_id;
+  PERFORM set_config('app.cancelling_receipt', '', true);
+
+  PERFORM public.reverse_receipt_sale(target);
+END;
+$$;
+
+-- Issues a credit note for up to the receipt's total less earlier notes
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  _receipt_id uuid,
+  _amount numeric,
+  _reason text,
+  _refund_mode text DEFAULT 'none'
+)
+RETURNS public.credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.receipts;
+  credited numeric;
+  note public.credit_notes;
+BEGIN
+  IF trim(COALESCE(_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required for a credit note';
+  END IF;
+
+  target := public.lock_receipt_for_reversal(_receipt_id);
+
+  SELECT COALESCE(SUM(amount), 0) INTO credited FROM public.credit_notes WHERE receipt_id = _receipt_id;
+  IF _amount IS NULL OR _amount <= 0 OR _amount > target.total_amount - credited THEN
+    RAISE EXCEPTION 'Credit note amount must be between 0 and %', GREATEST(target.total_amount - credited, 0);
+  END IF;
+
+  INSERT INTO public.credit_notes (credit_note_number, receipt_id, branch_id, amount, reason, refund_mode, created_by)
+  VALUES (
+    public.next_credit_note_number(target.branch_id, CURRENT_DATE),
+    _receipt_id,
+    target.branch_id,
+    _amount,
+    trim(_reason),
+    COALESCE(NULLIF(_refund_mode, ''), 'none'),
+    auth.uid()
+  )
+  RETURNING * INTO note;
+
+  RETURN note;
+END;
+$$;
+
+-- No further payments against a cancelled receipt
+CREATE OR REPLACE FUNCTION public.check_receipt_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  balance numeric;
+  cancelled timestamp with time zone;
+BEGIN
+  SELECT total_amount - amount_paid, cancelled_at INTO balance, cancelled
+  FROM public.receipts
+  WHERE id = NEW.receipt_id
+  FOR UPDATE;
+
+  IF cancelled IS NOT NULL THEN
+    RAISE EXCEPTION 'Payments cannot be recorded on a cancelled receipt';
+  END IF;
+
+  IF NEW.amount > balance THEN
+    RAISE EXCEPTION 'Payment of % is more than the balance due (%)', NEW.amount, GREATEST(balance, 0);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Shared links show cancelled receipts with their cancellation
+CREATE OR REPLACE FUNCTION public.get_shared_receipt(_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'receipt', jsonb_build_object(
+      'receipt_number', r.receipt_number,
+      'customer_name', r.customer_name,
+      'age', r.age,
+      'mobile_number', r.mobile_number,
+      'address', r.address,
+      'bp', r.bp,
+      'pulse', r.pulse,
+      'branch', r.branch,
+      'receipt_date', r.receipt_date,
+      'items', r.items,
+      'subtotal', r.subtotal,
+      'discount_amount', r.discount_amount,
+      'discount_reason', r.discount_reason,
+      'tax_amount', r.tax_amount,
+      'cgst_amount', r.cgst_amount,
+      'sgst_amount', r.sgst_amount,
+      'igst_amount', r.igst_amount,
+      'supply_type', r.supply_type,
+      'place_of_supply', r.place_of_supply,
+      'total_amount', r.total_amount,
+      'cancelled_at', r.cancelled_at,
+      'cancellation_reason', r.cancellation_reason
+    ),
+    'branch', CASE WHEN b.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'name', b.name,
+      'address', b.address,
+      'phone', b.phone,
+      'gstin', b.gstin
+    ) END,
+    'template', CASE WHEN t.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'layout', t.layout,
+      'background_image_url', t.background_image_url,
+      'header_bg_color', t.header_bg_color,
+      'header_text_color', t.header_text_color,
+      'body_bg_color', t.body_bg_color,
+      'body_text_color', t.body_text_color,
+      'accent_color', t.accent_color,
+      'font_family', t.font_family
+    ) END,
+    'expires_at', l.expires_at
+  )
+  FROM public.receipt_share_links l
+  JOIN public.receipts r ON r.id = l.receipt_id
+  LEFT JOIN public.branches b ON b.id = r.branch_id
+  LEFT JOIN public.receipt_templates t ON t.id = r.template_id
+  WHERE l.token = _token
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+$$;
@@ -0,0 +1,348 @@
+-- Receipt totals are worked out by the database, not trusted from the browser.
+-- Amounts are computed in whole paise; every rounding step rounds half away
+-- from zero to the paisa, line by line, in the same order as @shared/gst:
+--   gross    = quantity × price
+--   discount = the line's own % or flat discount, at most gross
+--   share    = the line's part of the bill discount, in proportion to its
+--              value after line discounts; the last line takes the remainder
+--   taxable  = gross − discount − share
+--   CGST = SGST = taxable × rate / 200 (intra-state), IGST = taxable × rate / 100
+CREATE OR REPLACE FUNCTION public.price_receipt_items(
+  _items jsonb,
+  _supply_type text,
+  _bill_discount_type text,
+  _bill_discount_value numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  item jsonb;
+  lines jsonb[] := '{}';
+  gross bigint[] := '{}';
+  net bigint[] := '{}';
+  i integer;
+  qty numeric;
+  price numeric;
+  rate numeric;
+  discount_value numeric;
+  line_gross bigint;
+  line_discount bigint;
+  net_total bigint := 0;
+  bill bigint;
+  last_line integer := 0;
+  allocated bigint := 0;
+  share bigint;
+  taxable bigint;
+  cgst bigint;
+  igst bigint;
+  total_gross bigint := 0;
+  total_taxable bigint := 0;
+  total_cgst bigint := 0;
+  total_sgst bigint := 0;
+  total_igst bigint := 0;
+  priced jsonb := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(_items) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Receipt items must be a list';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(_items) LOOP
+    qty := (item->>'quantity')::numeric;
+    price := (item->>'price')::numeric;
+    rate := COALESCE((item->>'tax_rate')::numeric, 0);
+    discount_value := COALESCE((item->>'discount_value')::numeric, 0);
+
+    IF trim(COALESCE(item->>'name', '')) = '' OR length(trim(item->>'name')) > 100 THEN
+      RAISE EXCEPTION 'Every item needs a name of up to 100 characters';
+    END IF;
+    IF qty IS NULL OR qty <= 0 OR qty > 10000 THEN
+      RAISE EXCEPTION 'Quantity of % must be more than 0 and at most 10000', item->>'name';
+    END IF;
+    IF price IS NULL OR price <= 0 OR price > 1000000 THEN
+      RAISE EXCEPTION 'Price of % must be more than 0 and at most 1000000', item->>'name';
+    END IF;
+    IF rate < 0 OR rate > 100 THEN
+      RAISE EXCEPTION 'Tax rate of % must be between 0 and 100', item->>'name';
+    END IF;
+    IF trim(COALESCE(item->>'hsn_sac', '')) !~ '^([0-9]{4}|[0-9]{6}|[0-9]{8})?$' THEN
+      RAISE EXCEPTION 'HSN/SAC code of % must be 4, 6 or 8 digits', item->>'name';
+    END IF;
+    IF COALESCE(item->>'discount_type', 'percent') NOT IN ('percent', 'flat') OR discount_value < 0 THEN
+      RAISE EXCEPTION 'Invalid discount on %', item->>'name';
+    END IF;
+
+    line_gross := round(qty * price * 100);
+    line_discount := CASE
+      WHEN item->>'discount_type' = 'flat' THEN round(discount_value * 100)
+      ELSE round(line_gross * discount_value / 100)
+    END;
+    IF line_discount > line_gross THEN
+      RAISE EXCEPTION 'The discount on % is more than its value', item->>'name';
+    END IF;
+
+    lines := lines || item;
+    gross := gross || line_gross;
+    net := net || (line_gross - line_discount);
+    net_total := net_total + line_gross - line_discount;
+    IF line_gross - line_discount > 0 THEN
+      last_line := array_length(lines, 1);
+    END IF;
+  END LOOP;
+
+  bill := CASE
+    WHEN _bill_discount_type = 'flat' THEN round(COALESCE(_bill_discount_value, 0) * 100)
+    ELSE round(net_total * COALESCE(_bill_discount_value, 0) / 100)
+  END;
+  IF bill < 0 OR bill > net_total THEN
+    RAISE EXCEPTION 'The bill discount can''t be more than the bill';
+  END IF;
+
+  FOR i IN 1 .. COALESCE(array_length(lines, 1), 0) LOOP
+    share := 0;
+    IF bill > 0 AND net[i] > 0 THEN
+      share := CASE WHEN i = last_line THEN bill - allocated ELSE round(bill::numeric * net[i] / net_total) END;
+      allocated := allocated + share;
+    END IF;
+
+    taxable := net[i] - share;
+    rate := COALESCE((lines[i]->>'tax_rate')::numeric, 0);
+    cgst := CASE WHEN _supply_type = 'intra' THEN round(taxable * rate / 200) ELSE 0 END;
+    igst := CASE WHEN _supply_type = 'inter' THEN round(taxable * rate / 100) ELSE 0 END;
+
+    total_gross := total_gross + gross[i];
+    total_taxable := total_taxable + taxable;
+    total_cgst := total_cgst + cgst;
+    total_sgst := total_sgst + cgst;
+    total_igst := total_igst + igst;
+
+    priced := priced || jsonb_build_array(lines[i] || jsonb_build_object(
+      'name', trim(lines[i]->>'name'),
+      'hsn_sac', trim(COALESCE(lines[i]->>'hsn_sac', '')),
+      'tax_rate', rate,
+      'discount_amount', round((gross[i] - net[i]) / 100.0, 2),
+      'bill_discount_share', round(share / 100.0, 2),
+      'taxable_value', round(taxable / 100.0, 2),
+      'cgst_amount', round(cgst / 100.0, 2),
+      'sgst_amount', round(cgst / 100.0, 2),
+      'igst_amount', round(igst / 100.0, 2)
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'items', priced,
+    'subtotal', round(total_gross / 100.0, 2),
+    'discount_amount', round((total_gross - total_taxable) / 100.0, 2),
+    'cgst_amount', round(total_cgst / 100.0, 2),
+    'sgst_amount', round(total_sgst / 100.0, 2),
+    'igst_amount', round(total_igst / 100.0, 2),
+    'tax_amount', round((total_cgst + total_sgst + total_igst) / 100.0, 2),
+    'total_amount', round((total_taxable + total_cgst + total_sgst + total_igst) / 100.0, 2)
+  );
+END;
+$$;
+
+-- Reprices every receipt on write, whatever totals the client sent. Runs
+-- after sync_receipt_branch (name order), so the branch is already resolved.
+-- Updates that don't touch the pricing inputs, such as payments syncing
+-- amount_paid, keep the stored figures; that leaves receipts saved before
+-- item-level GST as they were.
+CREATE OR REPLACE FUNCTION public.sync_receipt_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  branch_state text;
+  priced jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.items IS NOT DISTINCT FROM OLD.items
+     AND NEW.bill_discount_type IS NOT DISTINCT FROM OLD.bill_discount_type
+     AND NEW.bill_discount_value IS NOT DISTINCT FROM OLD.bill_discount_value
+     AND NEW.place_of_supply IS NOT DISTINCT FROM OLD.place_of_supply
+     AND NEW.branch_id IS NOT DISTINCT FROM OLD.branch_id THEN
+    NEW.subtotal := OLD.subtotal;
+    NEW.discount_amount := OLD.discount_amount;
+    NEW.cgst_amount := OLD.cgst_amount;
+    NEW.sgst_amount := OLD.sgst_amount;
+    NEW.igst_amount := OLD.igst_amount;
+    NEW.tax_amount := OLD.tax_amount;
+    NEW.total_amount := OLD.total_amount;
+    NEW.supply_type := OLD.supply_type;
+    RETURN NEW;
+  END IF;
+
+  SELECT state_code INTO branch_state FROM public.branches WHERE id = NEW.branch_id;
+  NEW.supply_type := CASE
+    WHEN COALESCE(branch_state, '') <> '' AND NEW.place_of_supply <> '' AND NEW.place_of_supply <> branch_state
+      THEN 'inter'
+    ELSE 'intra'
+  END;
+
+  priced := public.price_receipt_items(
+    COALESCE(NEW.items, '[]'::jsonb),
+    NEW.supply_type,
+    NEW.bill_discount_type,
+    NEW.bill_discount_value
+  );
+
+  NEW.items := priced->'items';
+  NEW.subtotal := (priced->>'subtotal')::numeric;
+  NEW.discount_amount := (priced->>'discount_amount')::numeric;
+  NEW.cgst_amount := (priced->>'cgst_amount')::numeric;
+  NEW.sgst_amount := (priced->>'sgst_amount')::numeric;
+  NEW.igst_amount := (priced->>'igst_amount')::numeric;
+  NEW.tax_amount := (priced->>'tax_amount')::numeric;
+  NEW.total_amount := (priced->>'total_amount')::numeric;
+  IF NEW.discount_amount = 0 THEN
+    NEW.discount_reason := '';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_receipt_totals
+  BEFORE INSERT OR UPDATE ON public.receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_receipt_totals();
+
+-- Saves a receipt from the receipt form in one transaction: the patient is
+-- updated (or found by name and mobile, or created), the receipt written and,
+-- for a new receipt, the first payment recorded. If any step fails nothing is
+-- saved. Runs as the caller, so the usual row-level security applies.
+--
+-- _receipt: the receipt columns the form edits (totals are ignored)
+-- _patient: name, mobile_number, age, date_of_birth, gender, address and,
+--           when one was picked, id
+-- _payment: mode, reference and amount (null for the full total); new receipts only
+CREATE OR REPLACE FUNCTION public.save_receipt(
+  _receipt jsonb,
+  _patient jsonb,
+  _receipt_id uuid DEFAULT NULL,
+  _payment jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _patient_id uuid := NULLIF(_patient->>'id', '')::uuid;
+  saved public.receipts;
+  received numeric;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Walk-ins typed in by hand reuse the patient saved under the same name and number
+  IF _patient_id IS NULL THEN
+    SELECT id INTO _patient_id
+    FROM public.patients
+    WHERE user_id = auth.uid()
+      AND mobile_number = _patient->>'mobile_number'
+      AND lower(name) = lower(trim(_patient->>'name'))
+    LIMIT 1;
+  END IF;
+
+  IF _patient_id IS NULL THEN
+    INSERT INTO public.patients (user_id, name, mobile_number, age, date_of_birth, gender, address)
+    VALUES (
+      auth.uid(),
+      trim(_patient->>'name'),
+      _patient->>'mobile_number',
+      _patient->>'age',
+      NULLIF(_patient->>'date_of_birth', '')::date,
+      NULLIF(_patient->>'gender', ''),
+      COALESCE(_patient->>'address', '')
+    )
+    RETURNING id INTO _patient_id;
+  ELSE
+    UPDATE public.patients
+    SET name = trim(_patient->>'name'),
+        mobile_number = _patient->>'mobile_number',
+        age = _patient->>'age',
+        date_of_birth = NULLIF(_patient->>'date_of_birth', '')::date,
+        gender = NULLIF(_patient->>'gender', ''),
+        address = COALESCE(_patient->>'address', '')
+    WHERE id = _patient_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Patient not found';
+    END IF;
+  END IF;
+
+  IF _receipt_id IS NULL THEN
+    INSERT INTO public.receipts (
+      user_id, patient_id, customer_name, age, mobile_number, address, bp, pulse,
+      branch_id, receipt_date, items, place_of_supply, bill_discount_type,
+      bill_discount_value, discount_reason, template_id
+    )
+    VALUES (
+      auth.uid(),
+      _patient_id,
+      trim(_receipt->>'customer_name'),
+      _receipt->>'age',
+      _receipt->>'mobile_number',
+      COALESCE(_receipt->>'address', ''),
+      _receipt->>'bp',
+      _receipt->>'pulse',
+      (_receipt->>'branch_id')::uuid,
+      (_receipt->>'receipt_date')::date,
+      COALESCE(_receipt->'items', '[]'::jsonb),
+      COALESCE(_receipt->>'place_of_supply', ''),
+      COALESCE(_receipt->>'bill_discount_type', 'percent'),
+      COALESCE((_receipt->>'bill_discount_value')::numeric, 0),
+      COALESCE(_receipt->>'discount_reason', ''),
+      NULLIF(_receipt->>'template_id', '')::uuid
+    )
+    RETURNING * INTO saved;
+  ELSE
+    -- Editing keeps the original row; the revision trigger snapshots the save
+    UPDATE public.receipts
+    SET patient_id = _patient_id,
+        customer_name = trim(_receipt->>'customer_name'),
+        age = _receipt->>'age',
+        mobile_number = _receipt->>'mobile_number',
+        address = COALESCE(_receipt->>'address', ''),
+        bp = _receipt->>'bp',
+        pulse = _receipt->>'pulse',
+        branch_id = (_receipt->>'branch_id')::uuid,
+        receipt_date = (_receipt->>'receipt_date')::date,
+        items = COALESCE(_receipt->'items', '[]'::jsonb),
+        place_of_supply = COALESCE(_receipt->>'place_of_supply', ''),
+        bill_discount_type = COALESCE(_receipt->>'bill_discount_type', 'percent'),
+        bill_discount_value = COALESCE((_receipt->>'bill_discount_value')::numeric, 0),
+        discount_reason = COALESCE(_receipt->>'discount_reason', ''),
+        template_id = NULLIF(_receipt->>'template_id', '')::uuid
+    WHERE id = _receipt_id
+    RETURNING * INTO saved;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Receipt not found';
+    END IF;
+  END IF;
+
+  IF _receipt_id IS NULL AND _payment IS NOT NULL THEN
+    received := COALESCE((_payment->>'amount')::numeric, saved.total_amount);
+    IF received < 0 OR received > saved.total_amount THEN
+      RAISE EXCEPTION 'Amount received can''t be more than the total (%)', saved.total_amount;
+    END IF;
+    IF received > 0 THEN
+      INSERT INTO public.receipt_payments (receipt_id, mode, amount, reference, paid_on, created_by)
+      VALUES (
+        saved.id,
+        COALESCE(_payment->>'mode', 'cash'),
+        received,
+        trim(COALESCE(_payment->>'reference', '')),
+        saved.receipt_date,
+        auth.uid()
+      );
+    END IF;
+  END IF;
+
+  RETURN saved.id;
+END;
+$$;
@@ -0,0 +1,143 @@
+-- Receipt totals are rounded to the nearest rupee (or 50 paise, or not at
+-- all, per the receipt_rounding setting) and the adjustment is kept on the
+-- receipt so it can be printed as its own "Round off" line.
+
+ALTER TABLE public.receipts
+  ADD COLUMN round_off numeric(10,2) NOT NULL DEFAULT 0;
+
+-- 'none', 'rupee' or 'half_rupee'; applies to receipts priced from now on
+INSERT INTO public.site_settings (key, value)
+VALUES ('receipt_rounding', 'rupee')
+ON CONFLICT (key) DO NOTHING;
+
+-- Same as before, plus the round-off: total_amount is the rounded figure and
+-- round_off what was added to the priced total to get there (halves go up,
+-- matching roundOff in the shared money module).
+CREATE OR REPLACE FUNCTION public.sync_receipt_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  branch_state text;
+  priced jsonb;
+  rounding text;
+  step integer;
+  exact bigint;
+  rounded bigint;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.items IS NOT DISTINCT FROM OLD.items
+     AND NEW.bill_discount_type IS NOT DISTINCT FROM OLD.bill_discount_type
+     AND NEW.bill_discount_value IS NOT DISTINCT FROM OLD.bill_discount_value
+     AND NEW.place_of_supply IS NOT DISTINCT FROM OLD.place_of_supply
+     AND NEW.branch_id IS NOT DISTINCT FROM OLD.branch_id THEN
+    NEW.subtotal := OLD.subtotal;
+    NEW.discount_amount := OLD.discount_amount;
+    NEW.cgst_amount := OLD.cgst_amount;
+    NEW.sgst_amount := OLD.sgst_amount;
+    NEW.igst_amount := OLD.igst_amount;
+    NEW.tax_amount := OLD.tax_amount;
+    NEW.round_off := OLD.round_off;
+    NEW.total_amount := OLD.total_amount;
+    NEW.supply_type := OLD.supply_type;
+    RETURN NEW;
+  END IF;
+
+  SELECT state_code INTO branch_state FROM public.branches WHERE id = NEW.branch_id;
+  NEW.supply_type := CASE
+    WHEN COALESCE(branch_state, '') <> '' AND NEW.place_of_supply <> '' AND NEW.place_of_supply <> branch_state
+      THEN 'inter'
+    ELSE 'intra'
+  END;
+
+  priced := public.price_receipt_items(
+    COALESCE(NEW.items, '[]'::jsonb),
+    NEW.supply_type,
+    NEW.bill_discount_type,
+    NEW.bill_discount_value
+  );
+
+  SELECT value INTO rounding FROM public.site_settings WHERE key = 'receipt_rounding';
+  step := CASE rounding WHEN 'rupee' THEN 100 WHEN 'half_rupee' THEN 50 ELSE 1 END;
+  exact := round((priced->>'total_amount')::numeric * 100);
+  rounded := floor((exact::numeric + step / 2.0) / step) * step;
+
+  NEW.items := priced->'items';
+  NEW.subtotal := (priced->>'subtotal')::numeric;
+  NEW.discount_amount := (priced->>'discount_amount')::numeric;
+  NEW.cgst_amount := (priced->>'cgst_amount')::numeric;
+  NEW.sgst_amount := (priced->>'sgst_amount')::numeric;
+  NEW.igst_amount := (priced->>'igst_amount')::numeric;
+  NEW.tax_amount := (priced->>'tax_amount')::numeric;
+  NEW.round_off := round((rounded - exact) / 100.0, 2);
+  NEW.total_amount := round(rounded / 100.0, 2);
+  IF NEW.discount_amount = 0 THEN
+    NEW.discount_reason := '';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Shared receipts show the round-off line too
+CREATE OR REPLACE FUNCTION public.get_shared_receipt(_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'receipt', jsonb_build_object(
+      'receipt_number', r.receipt_number,
+      'customer_name', r.customer_name,
+      'age', r.age,
+      'mobile_number', r.mobile_number,
+      'address', r.address,
+      'bp', r.bp,
+      'pulse', r.pulse,
+      'branch', r.branch,
+      'receipt_date', r.receipt_date,
+      'items', r.items,
+      'subtotal', r.subtotal,
+      'discount_amount', r.discount_amount,
+      'discount_reason', r.discount_reason,
+      'tax_amount', r.tax_amount,
+      'cgst_amount', r.cgst_amount,
+      'sgst_amount', r.sgst_amount,
+      'igst_amount', r.igst_amount,
+      'supply_type', r.supply_type,
+      'place_of_supply', r.place_of_supply,
+      'round_off', r.round_off,
+      'total_amount', r.total_amount,
+      'cancelled_at', r.cancelled_at,
+      'cancellation_reason', r.cancellation_reason
+    ),
+    'branch', CASE WHEN b.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'name', b.name,
+      'address', b.address,
+      'phone', b.phone,
+      'gstin', b.gstin
+    ) END,
+    'template', CASE WHEN t.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'layout', t.layout,
+      'background_image_url', t.background_image_url,
+      'header_bg_color', t.header_bg_color,
+      'header_text_color', t.header_text_color,
+      'body_bg_color', t.body_bg_color,
+      'body_text_color', t.body_text_color,
+      'accent_color', t.accent_color,
+      'font_family', t.font_family
+    ) END,
+    'expires_at', l.expires_at
+  )
+  FROM public.receipt_share_links l
+  JOIN public.receipts r ON r.id = l.receipt_id
+  LEFT JOIN public.branches b ON b.id = r.branch_id
+  LEFT JOIN public.receipt_templates t ON t.id = r.template_id
+  WHERE l.token = _token
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+$$;
@@ -0,0 +1,71 @@
+-- Receipt history is searched, filtered, sorted and paged in the database
+-- instead of downloading every receipt to the browser.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Names of a receipt's line items, space separated, for searching
+CREATE OR REPLACE FUNCTION public.receipt_item_names(_items jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(string_agg(item->>'name', ' '), '')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_items) = 'array' THEN _items ELSE '[]'::jsonb END) AS item
+$$;
+
+-- Everything the history search box matches, lower-cased, kept in step with
+-- the row so a trigram index can answer substring searches
+ALTER TABLE public.receipts
+  ADD COLUMN search_text text GENERATED ALWAYS AS (
+    lower(
+      COALESCE(receipt_number, '') || ' ' ||
+      COALESCE(customer_name, '') || ' ' ||
+      COALESCE(mobile_number, '') || ' ' ||
+      COALESCE(address, '') || ' ' ||
+      public.receipt_item_names(items)
+    )
+  ) STORED;
+
+CREATE INDEX idx_receipts_search_text ON public.receipts USING gin (search_text extensions.gin_trgm_ops);
+CREATE INDEX idx_receipts_user_id_receipt_date ON public.receipts(user_id, receipt_date DESC, created_at DESC);
+CREATE INDEX idx_receipts_receipt_date ON public.receipts(receipt_date DESC, created_at DESC);
+CREATE INDEX idx_receipts_items ON public.receipts USING gin (items jsonb_path_ops);
+
+-- Receipts matching the history filters. Returns receipts rows so callers
+-- choose the columns, sort order and page through PostgREST (select, order,
+-- range) and can ask for the total count.
+--
+-- Plain SQL, SECURITY INVOKER and without SET options so the planner inlines
+-- it into the caller's query: row-level security applies as usual and the
+-- indexes above serve the search, filters and ordering.
+CREATE OR REPLACE FUNCTION public.search_receipts(
+  _search text DEFAULT '',
+  _branch_id uuid DEFAULT NULL,
+  _catalog_item_id uuid DEFAULT NULL,
+  _status text DEFAULT NULL,
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL
+)
+RETURNS SETOF public.receipts
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r.*
+  FROM public.receipts r
+  WHERE (
+      COALESCE(btrim(_search), '') = ''
+      OR r.search_text LIKE '%' || replace(replace(replace(lower(btrim(_search)), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (_branch_id IS NULL OR r.branch_id = _branch_id)
+    AND (
+      _catalog_item_id IS NULL
+      OR r.items @> jsonb_build_array(jsonb_build_object('catalog_item_id', _catalog_item_id))
+    )
+    AND (
+      _status IS NULL
+      OR (_status = 'cancelled' AND r.cancelled_at IS NOT NULL)
+      OR (_status <> 'cancelled' AND r.cancelled_at IS NULL AND r.payment_status = _status)
+    )
+    AND (_date_from IS NULL OR r.receipt_date >= _date_from)
+    AND (_date_to IS NULL OR r.receipt_date <= _date_to)
+$$;
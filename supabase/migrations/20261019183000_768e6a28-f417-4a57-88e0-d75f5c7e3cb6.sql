@@ -0,0 +1,90 @@
+-- More receipt history filters (amount range, template, item name, taxed or
+-- not, creator) and named, pinnable saved views of a filter combination.
+
+DROP FUNCTION IF EXISTS public.search_receipts(text, uuid, uuid, text, date, date);
+
+-- As before, plus the new filters. Still plain SQL without SET options so the
+-- planner inlines it; see the previous definition.
+CREATE OR REPLACE FUNCTION public.search_receipts(
+  _search text DEFAULT '',
+  _branch_id uuid DEFAULT NULL,
+  _catalog_item_id uuid DEFAULT NULL,
+  _status text DEFAULT NULL,
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _amount_min numeric DEFAULT NULL,
+  _amount_max numeric DEFAULT NULL,
+  _template_id uuid DEFAULT NULL,
+  _item_name text DEFAULT '',
+  _taxed boolean DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS SETOF public.receipts
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r.*
+  FROM public.receipts r
+  WHERE (
+      COALESCE(btrim(_search), '') = ''
+      OR r.search_text LIKE '%' || replace(replace(replace(lower(btrim(_search)), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (_branch_id IS NULL OR r.branch_id = _branch_id)
+    AND (
+      _catalog_item_id IS NULL
+      OR r.items @> jsonb_build_array(jsonb_build_object('catalog_item_id', _catalog_item_id))
+    )
+    AND (
+      _status IS NULL
+      OR (_status = 'cancelled' AND r.cancelled_at IS NOT NULL)
+      OR (_status <> 'cancelled' AND r.cancelled_at IS NULL AND r.payment_status = _status)
+    )
+    AND (_date_from IS NULL OR r.receipt_date >= _date_from)
+    AND (_date_to IS NULL OR r.receipt_date <= _date_to)
+    AND (_amount_min IS NULL OR r.total_amount >= _amount_min)
+    AND (_amount_max IS NULL OR r.total_amount <= _amount_max)
+    AND (_template_id IS NULL OR r.template_id = _template_id)
+    AND (
+      COALESCE(btrim(_item_name), '') = ''
+      OR lower(public.receipt_item_names(r.items))
+        LIKE '%' || replace(replace(replace(lower(btrim(_item_name)), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (_taxed IS NULL OR (r.tax_amount > 0) = _taxed)
+    AND (_created_by IS NULL OR r.user_id = _created_by)
+$$;
+
+-- A user's saved receipt filters. `filters` holds the same keys as the
+-- history page URL (q, branch, item, status, from, to, min, max, ...).
+CREATE TABLE public.receipt_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  pinned boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.receipt_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own receipt views" ON public.receipt_views
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own receipt views" ON public.receipt_views
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own receipt views" ON public.receipt_views
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own receipt views" ON public.receipt_views
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_receipt_views_updated_at
+  BEFORE UPDATE ON public.receipt_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
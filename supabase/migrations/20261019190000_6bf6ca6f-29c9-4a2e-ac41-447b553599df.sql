@@ -0,0 +1,34 @@
+-- Cancelled receipts stay frozen in content and amounts, but whom they belong
+-- to and what they link to may still change: the admin's data transfer moves
+-- user_id, and deleting a patient or template sets the link to NULL.
+CREATE OR REPLACE FUNCTION public.protect_receipt_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.cancelled_at := NULL;
+    NEW.cancelled_by := NULL;
+    NEW.cancellation_reason := '';
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.cancelled_at, NEW.cancelled_by, NEW.cancellation_reason)
+       IS DISTINCT FROM (OLD.cancelled_at, OLD.cancelled_by, OLD.cancellation_reason)
+     AND COALESCE(current_setting('app.cancelling_receipt', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Receipts can only be cancelled through cancel_receipt';
+  END IF;
+
+  -- search_text is generated, so it is not yet filled in on NEW here
+  IF OLD.cancelled_at IS NOT NULL
+     AND (to_jsonb(NEW) - 'updated_at' - 'amount_paid' - 'payment_status' - 'search_text'
+            - 'user_id' - 'patient_id' - 'template_id')
+       <> (to_jsonb(OLD) - 'updated_at' - 'amount_paid' - 'payment_status' - 'search_text'
+            - 'user_id' - 'patient_id' - 'template_id') THEN
+    RAISE EXCEPTION 'Receipt % is cancelled and cannot be changed', OLD.receipt_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
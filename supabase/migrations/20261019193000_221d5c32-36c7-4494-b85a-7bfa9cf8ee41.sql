@@ -0,0 +1,3 @@
+-- next_receipt_number advances the gap-free counter, so only the receipt
+-- number trigger may call it, not clients over the API.
+REVOKE EXECUTE ON FUNCTION public.next_receipt_number(uuid, date) FROM PUBLIC, anon, authenticated;
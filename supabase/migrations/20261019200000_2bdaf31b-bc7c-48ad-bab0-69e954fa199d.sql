@@ -0,0 +1,39 @@
+-- Receipt and credit note counters are kept per branch and financial year, so
+-- a number format without {BRANCH} or {FY} would issue the same number twice
+-- and every later receipt would fail on the unique receipt number.
+CREATE OR REPLACE FUNCTION public.validate_number_format()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.key IN ('receipt_number_format', 'credit_note_number_format')
+     AND NEW.value IS NOT NULL AND NEW.value <> ''
+     AND (
+       NEW.value !~ '\{SEQ(:\d+)?\}'
+       OR position('{BRANCH}' IN NEW.value) = 0
+       OR position('{FY}' IN NEW.value) = 0
+     ) THEN
+    RAISE EXCEPTION 'Number format must include {BRANCH}, {FY} and {SEQ}';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_number_format
+  BEFORE INSERT OR UPDATE ON public.site_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_number_format();
+
+-- Put back the default wherever an unusable format was already saved
+UPDATE public.site_settings
+SET value = '{BRANCH}/{FY}/{SEQ:6}'
+WHERE key = 'receipt_number_format'
+  AND value <> ''
+  AND (value !~ '\{SEQ(:\d+)?\}' OR position('{BRANCH}' IN value) = 0 OR position('{FY}' IN value) = 0);
+
+UPDATE public.site_settings
+SET value = 'CN/{BRANCH}/{FY}/{SEQ:5}'
+WHERE key = 'credit_note_number_format'
+  AND value <> ''
+  AND (value !~ '\{SEQ(:\d+)?\}' OR position('{BRANCH}' IN value) = 0 OR position('{FY}' IN value) = 0);
@@ -0,0 +1,91 @@
+-- Each receipt keeps the rounding it was priced with, so editing it or moving
+-- it to another branch after the receipt_rounding setting changes reprices it
+-- the same way instead of quietly changing its total and round-off.
+ALTER TABLE public.receipts
+  ADD COLUMN rounding_mode text NOT NULL DEFAULT 'none';
+
+-- Existing receipts take the current setting, except those whose total isn't
+-- on its step, which were saved before rounding (or with it off)
+UPDATE public.receipts r
+SET rounding_mode = s.mode
+FROM (
+  SELECT COALESCE((SELECT value FROM public.site_settings WHERE key = 'receipt_rounding'), 'rupee') AS mode
+) s
+WHERE s.mode IN ('rupee', 'half_rupee')
+  AND (r.round_off <> 0
+       OR mod(round(r.total_amount * 100), CASE s.mode WHEN 'rupee' THEN 100 ELSE 50 END) = 0);
+
+-- As before, but the setting is only read when the receipt is created; an
+-- update reprices with the mode stored on the receipt.
+CREATE OR REPLACE FUNCTION public.sync_receipt_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  branch_state text;
+  priced jsonb;
+  step integer;
+  exact bigint;
+  rounded bigint;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT value INTO NEW.rounding_mode FROM public.site_settings WHERE key = 'receipt_rounding';
+    NEW.rounding_mode := COALESCE(NEW.rounding_mode, 'none');
+  ELSE
+    NEW.rounding_mode := OLD.rounding_mode;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.items IS NOT DISTINCT FROM OLD.items
+     AND NEW.bill_discount_type IS NOT DISTINCT FROM OLD.bill_discount_type
+     AND NEW.bill_discount_value IS NOT DISTINCT FROM OLD.bill_discount_value
+     AND NEW.place_of_supply IS NOT DISTINCT FROM OLD.place_of_supply
+     AND NEW.branch_id IS NOT DISTINCT FROM OLD.branch_id THEN
+    NEW.subtotal := OLD.subtotal;
+    NEW.discount_amount := OLD.discount_amount;
+    NEW.cgst_amount := OLD.cgst_amount;
+    NEW.sgst_amount := OLD.sgst_amount;
+    NEW.igst_amount := OLD.igst_amount;
+    NEW.tax_amount := OLD.tax_amount;
+    NEW.round_off := OLD.round_off;
+    NEW.total_amount := OLD.total_amount;
+    NEW.supply_type := OLD.supply_type;
+    RETURN NEW;
+  END IF;
+
+  SELECT state_code INTO branch_state FROM public.branches WHERE id = NEW.branch_id;
+  NEW.supply_type := CASE
+    WHEN COALESCE(branch_state, '') <> '' AND NEW.place_of_supply <> '' AND NEW.place_of_supply <> branch_state
+      THEN 'inter'
+    ELSE 'intra'
+  END;
+
+  priced := public.price_receipt_items(
+    COALESCE(NEW.items, '[]'::jsonb),
+    NEW.supply_type,
+    NEW.bill_discount_type,
+    NEW.bill_discount_value
+  );
+
+  step := CASE NEW.rounding_mode WHEN 'rupee' THEN 100 WHEN 'half_rupee' THEN 50 ELSE 1 END;
+  exact := round((priced->>'total_amount')::numeric * 100);
+  rounded := floor((exact::numeric + step / 2.0) / step) * step;
+
+  NEW.items := priced->'items';
+  NEW.subtotal := (priced->>'subtotal')::numeric;
+  NEW.discount_amount := (priced->>'discount_amount')::numeric;
+  NEW.cgst_amount := (priced->>'cgst_amount')::numeric;
+  NEW.sgst_amount := (priced->>'sgst_amount')::numeric;
+  NEW.igst_amount := (priced->>'igst_amount')::numeric;
+  NEW.tax_amount := (priced->>'tax_amount')::numeric;
+  NEW.round_off := round((rounded - exact) / 100.0, 2);
+  NEW.total_amount := round(rounded / 100.0, 2);
+  IF NEW.discount_amount = 0 THEN
+    NEW.discount_reason := '';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,40 @@
+-- Deleting a receipt must not delete its history: revisions outlive the
+-- receipt, keeping its number so they can still be traced.
+ALTER TABLE public.receipt_revisions
+  ADD COLUMN receipt_number text;
+
+UPDATE public.receipt_revisions
+SET receipt_number = snapshot->>'receipt_number';
+
+ALTER TABLE public.receipt_revisions
+  ALTER COLUMN receipt_id DROP NOT NULL,
+  DROP CONSTRAINT receipt_revisions_receipt_id_fkey,
+  ADD CONSTRAINT receipt_revisions_receipt_id_fkey
+    FOREIGN KEY (receipt_id) REFERENCES public.receipts(id) ON DELETE SET NULL;
+
+-- Same as before, plus the receipt number
+CREATE OR REPLACE FUNCTION public.record_receipt_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_revision integer;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) - 'updated_at' - 'amount_paid' - 'payment_status')
+      = (to_jsonb(OLD) - 'updated_at' - 'amount_paid' - 'payment_status') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_revision
+  FROM public.receipt_revisions
+  WHERE receipt_id = NEW.id;
+
+  INSERT INTO public.receipt_revisions (receipt_id, receipt_number, revision_number, snapshot, edited_by)
+  VALUES (NEW.id, NEW.receipt_number, next_revision, to_jsonb(NEW), COALESCE(auth.uid(), NEW.user_id));
+
+  RETURN NEW;
+END;
+$$;
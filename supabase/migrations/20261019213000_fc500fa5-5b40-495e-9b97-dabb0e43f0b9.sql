@@ -0,0 +1,6 @@
+-- The stock ledger is never deleted from, so a catalog item with stock
+-- history can't be deleted either; retire it (is_active = false) instead.
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_catalog_item_id_fkey,
+  ADD CONSTRAINT stock_movements_catalog_item_id_fkey
+    FOREIGN KEY (catalog_item_id) REFERENCES public.catalog_items(id) ON DELETE RESTRICT;
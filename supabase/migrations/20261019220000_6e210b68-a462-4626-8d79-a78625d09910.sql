@@ -0,0 +1,139 @@
+-- Free lines (e.g. a complimentary consultation) are priced at 0, and receipts
+-- saved with them must stay editable and movable, so only negative prices are
+-- rejected. Otherwise the same as before.
+CREATE OR REPLACE FUNCTION public.price_receipt_items(
+  _items jsonb,
+  _supply_type text,
+  _bill_discount_type text,
+  _bill_discount_value numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  item jsonb;
+  lines jsonb[] := '{}';
+  gross bigint[] := '{}';
+  net bigint[] := '{}';
+  i integer;
+  qty numeric;
+  price numeric;
+  rate numeric;
+  discount_value numeric;
+  line_gross bigint;
+  line_discount bigint;
+  net_total bigint := 0;
+  bill bigint;
+  last_line integer := 0;
+  allocated bigint := 0;
+  share bigint;
+  taxable bigint;
+  cgst bigint;
+  igst bigint;
+  total_gross bigint := 0;
+  total_taxable bigint := 0;
+  total_cgst bigint := 0;
+  total_sgst bigint := 0;
+  total_igst bigint := 0;
+  priced jsonb := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(_items) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Receipt items must be a list';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(_items) LOOP
+    qty := (item->>'quantity')::numeric;
+    price := (item->>'price')::numeric;
+    rate := COALESCE((item->>'tax_rate')::numeric, 0);
+    discount_value := COALESCE((item->>'discount_value')::numeric, 0);
+
+    IF trim(COALESCE(item->>'name', '')) = '' OR length(trim(item->>'name')) > 100 THEN
+      RAISE EXCEPTION 'Every item needs a name of up to 100 characters';
+    END IF;
+    IF qty IS NULL OR qty <= 0 OR qty > 10000 THEN
+      RAISE EXCEPTION 'Quantity of % must be more than 0 and at most 10000', item->>'name';
+    END IF;
+    IF price IS NULL OR price < 0 OR price > 1000000 THEN
+      RAISE EXCEPTION 'Price of % must be between 0 and 1000000', item->>'name';
+    END IF;
+    IF rate < 0 OR rate > 100 THEN
+      RAISE EXCEPTION 'Tax rate of % must be between 0 and 100', item->>'name';
+    END IF;
+    IF trim(COALESCE(item->>'hsn_sac', '')) !~ '^([0-9]{4}|[0-9]{6}|[0-9]{8})?$' THEN
+      RAISE EXCEPTION 'HSN/SAC code of % must be 4, 6 or 8 digits', item->>'name';
+    END IF;
+    IF COALESCE(item->>'discount_type', 'percent') NOT IN ('percent', 'flat') OR discount_value < 0 THEN
+      RAISE EXCEPTION 'Invalid discount on %', item->>'name';
+    END IF;
+
+    line_gross := round(qty * price * 100);
+    line_discount := CASE
+      WHEN item->>'discount_type' = 'flat' THEN round(discount_value * 100)
+      ELSE round(line_gross * discount_value / 100)
+    END;
+    IF line_discount > line_gross THEN
+      RAISE EXCEPTION 'The discount on % is more than its value', item->>'name';
+    END IF;
+
+    lines := lines || item;
+    gross := gross || line_gross;
+    net := net || (line_gross - line_discount);
+    net_total := net_total + line_gross - line_discount;
+    IF line_gross - line_discount > 0 THEN
+      last_line := array_length(lines, 1);
+    END IF;
+  END LOOP;
+
+  bill := CASE
+    WHEN _bill_discount_type = 'flat' THEN round(COALESCE(_bill_discount_value, 0) * 100)
+    ELSE round(net_total * COALESCE(_bill_discount_value, 0) / 100)
+  END;
+  IF bill < 0 OR bill > net_total THEN
+    RAISE EXCEPTION 'The bill discount can''t be more than the bill';
+  END IF;
+
+  FOR i IN 1 .. COALESCE(array_length(lines, 1), 0) LOOP
+    share := 0;
+    IF bill > 0 AND net[i] > 0 THEN
+      share := CASE WHEN i = last_line THEN bill - allocated ELSE round(bill::numeric * net[i] / net_total) END;
+      allocated := allocated + share;
+    END IF;
+
+    taxable := net[i] - share;
+    rate := COALESCE((lines[i]->>'tax_rate')::numeric, 0);
+    cgst := CASE WHEN _supply_type = 'intra' THEN round(taxable * rate / 200) ELSE 0 END;
+    igst := CASE WHEN _supply_type = 'inter' THEN round(taxable * rate / 100) ELSE 0 END;
+
+    total_gross := total_gross + gross[i];
+    total_taxable := total_taxable + taxable;
+    total_cgst := total_cgst + cgst;
+    total_sgst := total_sgst + cgst;
+    total_igst := total_igst + igst;
+
+    priced := priced || jsonb_build_array(lines[i] || jsonb_build_object(
+      'name', trim(lines[i]->>'name'),
+      'hsn_sac', trim(COALESCE(lines[i]->>'hsn_sac', '')),
+      'tax_rate', rate,
+      'discount_amount', round((gross[i] - net[i]) / 100.0, 2),
+      'bill_discount_share', round(share / 100.0, 2),
+      'taxable_value', round(taxable / 100.0, 2),
+      'cgst_amount', round(cgst / 100.0, 2),
+      'sgst_amount', round(cgst / 100.0, 2),
+      'igst_amount', round(igst / 100.0, 2)
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'items', priced,
+    'subtotal', round(total_gross / 100.0, 2),
+    'discount_amount', round((total_gross - total_taxable) / 100.0, 2),
+    'cgst_amount', round(total_cgst / 100.0, 2),
+    'sgst_amount', round(total_sgst / 100.0, 2),
+    'igst_amount', round(total_igst / 100.0, 2),
+    'tax_amount', round((total_cgst + total_sgst + total_igst) / 100.0, 2),
+    'total_amount', round((total_taxable + total_cgst + total_sgst + total_igst) / 100.0, 2)
+  );
+END;
+$$;